@@ -0,0 +1,385 @@
+import { useCallback, useRef, useState } from "react";
+
+// Client for the resumable upload endpoint at /org/events/:eventId/uploads
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+const PARALLEL_UPLOADS = 3;
+const MAX_RETRIES = 5;
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic"];
+
+type ItemStatus = "queued" | "uploading" | "done" | "failed" | "interrupted";
+
+interface UploadItem {
+  key: string;
+  file: File;
+  path: string; // Relative path when dropped as part of a folder
+  uploadId?: string;
+  sentBytes: number;
+  status: ItemStatus;
+  error?: string;
+}
+
+interface UploadStatusResponse {
+  receivedBytes?: number;
+  status?: "UPLOADING" | "COMPLETED" | "FAILED";
+  error?: string | null;
+}
+
+function isImage(file: File) {
+  return ACCEPTED_TYPES.includes(file.type) || /\.(jpe?g|png|webp|gif|heic)$/i.test(file.name);
+}
+
+function contentTypeFor(file: File) {
+  if (file.type) return file.type;
+  // Some browsers leave the type empty for HEIC files
+  return /\.heic$/i.test(file.name) ? "image/heic" : "application/octet-stream";
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Recursively collects files from a dropped folder
+async function filesFromEntry(entry: FileSystemEntry, prefix = ""): Promise<{ file: File; path: string }[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, path: `${prefix}${file.name}` }];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it returns an empty array
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map((child) => filesFromEntry(child, `${prefix}${entry.name}/`)));
+    return nested.flat();
+  }
+  return [];
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function BulkPhotoUploader({ eventId, onBatchComplete }: { eventId: string; onBatchComplete?: () => void }) {
+  const endpoint = `/org/events/${eventId}/uploads`;
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Workers read the latest item state from here rather than from a stale closure
+  const itemsRef = useRef<UploadItem[]>([]);
+
+  const updateItem = useCallback((key: string, changes: Partial<UploadItem>) => {
+    itemsRef.current = itemsRef.current.map((item) => (item.key === key ? { ...item, ...changes } : item));
+    setItems(itemsRef.current);
+  }, []);
+
+  const addFiles = (entries: { file: File; path: string }[]) => {
+    if (isRunning || batchId) return;
+    const existing = new Set(itemsRef.current.map((item) => item.path));
+    const added = entries
+      .filter(({ file, path }) => isImage(file) && !existing.has(path))
+      .map(({ file, path }) => ({
+        key: `${path}:${file.size}:${file.lastModified}`,
+        file,
+        path,
+        sentBytes: 0,
+        status: "queued" as const,
+      }));
+    itemsRef.current = [...itemsRef.current, ...added];
+    setItems(itemsRef.current);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    // Entries must be grabbed synchronously, before the DataTransfer is cleared
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    if (entries.length > 0) {
+      const nested = await Promise.all(entries.map((entry) => filesFromEntry(entry)));
+      addFiles(nested.flat());
+    } else {
+      addFiles(Array.from(e.dataTransfer.files).map((file) => ({ file, path: file.name })));
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    addFiles(files.map((file) => ({ file, path: file.webkitRelativePath || file.name })));
+    e.target.value = ""; // Allow picking the same files again
+  };
+
+  // Asks the server how much of a file it already has
+  const fetchReceivedBytes = async (uploadId: string): Promise<UploadStatusResponse> => {
+    const response = await fetch(`${endpoint}?uploadId=${encodeURIComponent(uploadId)}`, {
+      headers: { Accept: "application/json" },
+    });
+    if (!response.ok) throw new Error(`Status check failed (${response.status})`);
+    return response.json();
+  };
+
+  const uploadItem = async (item: UploadItem) => {
+    if (!item.uploadId) return;
+    const uploadId = item.uploadId;
+    updateItem(item.key, { status: "uploading", error: undefined });
+
+    let offset = 0;
+    let retries = 0;
+    // When resuming, start from whatever the server already has
+    if (item.sentBytes > 0) {
+      try {
+        offset = (await fetchReceivedBytes(uploadId)).receivedBytes ?? 0;
+      } catch {
+        offset = 0;
+      }
+    }
+
+    while (offset < item.file.size) {
+      const chunk = item.file.slice(offset, offset + CHUNK_SIZE);
+      try {
+        const response = await fetch(`${endpoint}?uploadId=${encodeURIComponent(uploadId)}&offset=${offset}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/octet-stream", Accept: "application/json" },
+          body: chunk,
+        });
+        const data: UploadStatusResponse = await response.json().catch(() => ({}));
+
+        if (response.status === 409 && typeof data.receivedBytes === "number") {
+          offset = data.receivedBytes; // Server is ahead or behind; resync
+          continue;
+        }
+        if (!response.ok) throw new Error(data.error || `Upload failed (${response.status})`);
+
+        retries = 0;
+        offset = data.receivedBytes ?? offset + chunk.size;
+        updateItem(item.key, { sentBytes: offset });
+
+        if (data.status === "FAILED") {
+          updateItem(item.key, { status: "failed", error: data.error ?? "Upload failed." });
+          return;
+        }
+        if (data.status === "COMPLETED") break;
+      } catch (err) {
+        retries++;
+        if (retries > MAX_RETRIES) {
+          // Leave it resumable on the server; the user can retry later
+          updateItem(item.key, {
+            status: "interrupted",
+            error: err instanceof Error ? err.message : "Network error.",
+          });
+          return;
+        }
+        await wait(Math.min(1000 * 2 ** (retries - 1), 15000));
+        try {
+          const status = await fetchReceivedBytes(uploadId);
+          if (status.status === "COMPLETED") break;
+          if (status.status === "FAILED") {
+            updateItem(item.key, { status: "failed", error: status.error ?? "Upload failed." });
+            return;
+          }
+          offset = status.receivedBytes ?? offset;
+        } catch {
+          // Still offline; the next attempt will try again
+        }
+      }
+    }
+
+    updateItem(item.key, { status: "done", sentBytes: item.file.size });
+  };
+
+  // Runs uploads for every item in the given states, a few at a time
+  const runQueue = async (states: ItemStatus[]) => {
+    const queue = itemsRef.current.filter((item) => states.includes(item.status) && item.uploadId);
+    const worker = async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        await uploadItem(next);
+      }
+    };
+    await Promise.all(Array.from({ length: PARALLEL_UPLOADS }, worker));
+  };
+
+  const completeBatch = async (id: string) => {
+    const body = new FormData();
+    body.set("intent", "completeBatch");
+    body.set("batchId", id);
+    await fetch(endpoint, { method: "POST", body, headers: { Accept: "application/json" } }).catch(() => undefined);
+    onBatchComplete?.();
+  };
+
+  const startUpload = async () => {
+    setError(null);
+    setIsRunning(true);
+    try {
+      const body = new FormData();
+      body.set("intent", "createBatch");
+      body.set(
+        "files",
+        JSON.stringify(
+          itemsRef.current.map((item) => ({ name: item.path, size: item.file.size, type: contentTypeFor(item.file) }))
+        )
+      );
+      const response = await fetch(endpoint, { method: "POST", body, headers: { Accept: "application/json" } });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? "Could not start the upload.");
+
+      // The server returns uploads in the order the files were sent
+      const uploads: { id: string; status: string; errorDetails: string | null }[] = data.uploads;
+      itemsRef.current = itemsRef.current.map((item, index) => ({
+        ...item,
+        uploadId: uploads[index]?.id,
+        status: uploads[index]?.status === "FAILED" ? "failed" : item.status,
+        error: uploads[index]?.errorDetails ?? undefined,
+      }));
+      setItems(itemsRef.current);
+      setBatchId(data.batchId);
+
+      await runQueue(["queued"]);
+      if (!itemsRef.current.some((item) => item.status === "interrupted")) {
+        await completeBatch(data.batchId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed.");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const retryInterrupted = async () => {
+    if (!batchId) return;
+    setIsRunning(true);
+    await runQueue(["interrupted"]);
+    setIsRunning(false);
+    if (!itemsRef.current.some((item) => item.status === "interrupted")) {
+      await completeBatch(batchId);
+    }
+  };
+
+  const finishBatch = async () => {
+    if (!batchId) return;
+    itemsRef.current = itemsRef.current.map((item) =>
+      item.status === "interrupted" ? { ...item, status: "failed" } : item
+    );
+    setItems(itemsRef.current);
+    await completeBatch(batchId);
+  };
+
+  const reset = () => {
+    itemsRef.current = [];
+    setItems([]);
+    setBatchId(null);
+    setError(null);
+  };
+
+  const totalBytes = items.reduce((sum, item) => sum + item.file.size, 0);
+  const sentBytes = items.reduce((sum, item) => sum + item.sentBytes, 0);
+  const doneCount = items.filter((item) => item.status === "done").length;
+  const failedCount = items.filter((item) => item.status === "failed").length;
+  const interruptedCount = items.filter((item) => item.status === "interrupted").length;
+  const isFinished = batchId !== null && !isRunning && interruptedCount === 0;
+
+  return (
+    <div className="mb-6 rounded border border-gray-200 p-4 dark:border-gray-700">
+      <p className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">Bulk Upload</p>
+
+      {/* Drop zone */}
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`rounded-lg border-2 border-dashed p-6 text-center text-sm ${
+          isDragging ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-950' : 'border-gray-300 dark:border-gray-600'
+        }`}
+      >
+        <p className="text-gray-600 dark:text-gray-300">Drag and drop photos or whole folders here</p>
+        <div className="mt-3 flex justify-center space-x-3">
+          <label className="cursor-pointer rounded bg-gray-200 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">
+            Choose Files
+            <input type="file" multiple accept={ACCEPTED_TYPES.join(",")} onChange={handleInputChange} className="sr-only" disabled={isRunning || batchId !== null} />
+          </label>
+          <label className="cursor-pointer rounded bg-gray-200 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500">
+            Choose Folder
+            <input
+              type="file"
+              multiple
+              // webkitdirectory isn't in React's typings, so set it directly
+              ref={(el) => el?.setAttribute("webkitdirectory", "")}
+              onChange={handleInputChange}
+              className="sr-only"
+              disabled={isRunning || batchId !== null}
+            />
+          </label>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="mt-4">
+          <div className="mb-2 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>
+              {items.length} file(s), {formatBytes(totalBytes)} &middot; {doneCount} uploaded
+              {failedCount > 0 && <>, <span className="text-red-600 dark:text-red-400">{failedCount} failed</span></>}
+              {interruptedCount > 0 && <>, <span className="text-yellow-600 dark:text-yellow-400">{interruptedCount} interrupted</span></>}
+            </span>
+            <div className="flex space-x-2">
+              {batchId === null && (
+                <>
+                  <button type="button" onClick={reset} disabled={isRunning} className="rounded bg-gray-200 px-3 py-1 text-sm text-gray-700 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200">
+                    Clear
+                  </button>
+                  <button type="button" onClick={startUpload} disabled={isRunning} className="rounded bg-blue-600 px-3 py-1 text-sm font-semibold text-white hover:bg-blue-500 disabled:opacity-50">
+                    Upload {items.length} Photo(s)
+                  </button>
+                </>
+              )}
+              {interruptedCount > 0 && !isRunning && (
+                <>
+                  <button type="button" onClick={retryInterrupted} className="rounded bg-yellow-500 px-3 py-1 text-sm font-semibold text-white hover:bg-yellow-400">
+                    Resume Interrupted
+                  </button>
+                  <button type="button" onClick={finishBatch} className="rounded bg-gray-200 px-3 py-1 text-sm text-gray-700 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200">
+                    Finish Without Them
+                  </button>
+                </>
+              )}
+              {isFinished && (
+                <button type="button" onClick={reset} className="rounded bg-gray-200 px-3 py-1 text-sm text-gray-700 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200">
+                  Start New Batch
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Overall progress */}
+          <div className="h-2 w-full rounded bg-gray-200 dark:bg-gray-700">
+            <div className="h-2 rounded bg-blue-600 transition-all" style={{ width: `${totalBytes ? Math.round((sentBytes / totalBytes) * 100) : 0}%` }} />
+          </div>
+
+          {/* Per-file progress */}
+          <ul className="mt-3 max-h-64 divide-y divide-gray-100 overflow-y-auto text-xs dark:divide-gray-700">
+            {items.map((item) => (
+              <li key={item.key} className="flex items-center gap-3 py-1">
+                <span className="w-1/2 truncate text-gray-700 dark:text-gray-300" title={item.path}>{item.path}</span>
+                <div className="h-1.5 flex-grow rounded bg-gray-200 dark:bg-gray-700">
+                  <div
+                    className={`h-1.5 rounded ${item.status === 'failed' ? 'bg-red-500' : item.status === 'interrupted' ? 'bg-yellow-500' : 'bg-green-500'}`}
+                    style={{ width: `${item.file.size ? Math.round((item.sentBytes / item.file.size) * 100) : 0}%` }}
+                  />
+                </div>
+                <span className={`w-32 truncate text-right ${item.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`} title={item.error}>
+                  {item.status === 'failed' || item.status === 'interrupted' ? item.error ?? item.status : item.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
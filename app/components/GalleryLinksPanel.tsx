@@ -0,0 +1,85 @@
+import { useState } from "react";
+
+export interface GalleryLink {
+  id: string;
+  name: string | null;
+  email: string | null;
+  url: string;
+  expiresAt: string;
+}
+
+interface GalleryLinksPanelProps {
+  links: GalleryLink[];
+  onClose: () => void;
+}
+
+// Quotes a value for CSV output
+function csvCell(value: string | null) {
+  return `"${(value ?? "").replace(/"/g, '""')}"`;
+}
+
+/**
+ * Lists freshly issued gallery links with copy buttons and a CSV download,
+ * for sending to participants.
+ */
+export function GalleryLinksPanel({ links, onClose }: GalleryLinksPanelProps) {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const copy = async (link: GalleryLink) => {
+    await navigator.clipboard.writeText(link.url);
+    setCopiedId(link.id);
+  };
+
+  const downloadCsv = () => {
+    const rows = [
+      ["Name", "Email", "Gallery Link", "Expires"].map(csvCell).join(","),
+      ...links.map((link) => [link.name, link.email, link.url, link.expiresAt].map(csvCell).join(",")),
+    ];
+    const href = URL.createObjectURL(new Blob([rows.join("\n")], { type: "text/csv" }));
+    const anchor = document.createElement("a");
+    anchor.href = href;
+    anchor.download = "gallery-links.csv";
+    anchor.click();
+    URL.revokeObjectURL(href);
+  };
+
+  return (
+    <div className="mb-4 rounded-md border border-indigo-200 bg-indigo-50 p-4 dark:border-indigo-800 dark:bg-indigo-950">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Gallery Links ({links.length})
+        </h3>
+        <div className="flex items-center gap-3">
+          {links.length > 1 && (
+            <button type="button" onClick={downloadCsv} className="text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+              Download CSV
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+            Close
+          </button>
+        </div>
+      </div>
+      <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+        Anyone with a link can see that participant&apos;s confirmed, approved photos until it expires.
+      </p>
+      <ul className="max-h-64 space-y-2 overflow-y-auto">
+        {links.map((link) => (
+          <li key={link.id} className="flex items-center gap-2 text-sm">
+            <span className="w-40 shrink-0 truncate text-gray-700 dark:text-gray-300">{link.name || link.email || 'Participant'}</span>
+            <input
+              type="text"
+              readOnly
+              value={link.url}
+              onFocus={(e) => e.currentTarget.select()}
+              className="min-w-0 flex-1 rounded-md border-gray-300 text-xs dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            <button type="button" onClick={() => copy(link)} className="w-14 shrink-0 text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+              {copiedId === link.id ? 'Copied' : 'Copy'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
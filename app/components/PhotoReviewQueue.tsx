@@ -0,0 +1,280 @@
+import { useEffect, useRef, useState } from "react";
+import { Form, Link, useFetcher, useSearchParams, useSubmit } from "@remix-run/react";
+
+export interface ReviewQueuePhoto {
+  id: string;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  webUrl: string | null;
+  uploadTime: string;
+  rejectionReason: string | null;
+  reviewedAt: string | null;
+  event: { id: string; name: string };
+  uploader: { name: string | null; email: string } | null;
+  reviewedBy: { name: string | null; email: string } | null;
+}
+
+type ReviewStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+interface PhotoReviewQueueProps {
+  photos: ReviewQueuePhoto[];
+  status: ReviewStatus;
+  counts: Partial<Record<ReviewStatus, number>>;
+  uploaders: { id: string; name: string | null; email: string }[];
+  // Offered as a filter on the organization-wide queue only
+  events?: { id: string; name: string }[];
+  canReview: boolean;
+}
+
+const STATUS_TABS: { status: ReviewStatus; label: string }[] = [
+  { status: "PENDING", label: "To Review" },
+  { status: "APPROVED", label: "Approved" },
+  { status: "REJECTED", label: "Rejected" },
+];
+
+// Suggestions for the reason field; any other text is accepted too
+const REJECTION_REASONS = ["Blurry or out of focus", "Duplicate", "Inappropriate content", "Not from this event", "Eyes closed"];
+
+function personLabel(person: { name: string | null; email: string }) {
+  return person.name || person.email;
+}
+
+/**
+ * Moderation queue for uploaded photos with status tabs, filters, bulk
+ * approve/reject and keyboard shortcuts. Decisions are posted to the
+ * current route's action as `approvePhotos` / `rejectPhotos` with one
+ * `photoId` field per photo.
+ */
+export function PhotoReviewQueue({ photos, status, counts, uploaders, events, canReview }: PhotoReviewQueueProps) {
+  const fetcher = useFetcher<{ error?: string; message?: string }>();
+  const submit = useSubmit();
+  const [searchParams] = useSearchParams();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [reason, setReason] = useState("");
+  const tiles = useRef<(HTMLLIElement | null)[]>([]);
+  const isSubmitting = fetcher.state !== "idle";
+
+  // Reviewed photos leave the list, so drop them from the selection and keep focus in range
+  const photoIds = photos.map((photo) => photo.id).join(",");
+  useEffect(() => {
+    const ids = new Set(photoIds.split(","));
+    setSelected((current) => new Set([...current].filter((id) => ids.has(id))));
+    setFocusIndex((index) => Math.max(0, Math.min(index, photos.length - 1)));
+  }, [photoIds, photos.length]);
+
+  const decide = (intent: "approvePhotos" | "rejectPhotos", ids: string[]) => {
+    if (!canReview || ids.length === 0 || isSubmitting) return;
+    const formData = new FormData();
+    formData.set("intent", intent);
+    ids.forEach((id) => formData.append("photoId", id));
+    if (intent === "rejectPhotos" && reason.trim()) formData.set("rejectionReason", reason.trim());
+    fetcher.submit(formData, { method: "post" });
+  };
+
+  const toggle = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // The selection if there is one, otherwise the focused photo
+  const targets = () => (selected.size > 0 ? [...selected] : photos[focusIndex] ? [photos[focusIndex].id] : []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.metaKey || e.ctrlKey || e.altKey || ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+      if (photos.length === 0) return;
+
+      let handled = true;
+      switch (e.key) {
+        case "ArrowRight":
+        case "j":
+          setFocusIndex((index) => Math.min(index + 1, photos.length - 1));
+          break;
+        case "ArrowLeft":
+        case "k":
+          setFocusIndex((index) => Math.max(index - 1, 0));
+          break;
+        case "x":
+        case " ":
+          if (photos[focusIndex]) toggle(photos[focusIndex].id);
+          break;
+        case "a":
+          if (status !== "APPROVED") decide("approvePhotos", targets());
+          break;
+        case "r":
+          if (status !== "REJECTED") decide("rejectPhotos", targets());
+          break;
+        case "Escape":
+          setSelected(new Set());
+          break;
+        default:
+          handled = false;
+      }
+      if (handled) e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  useEffect(() => {
+    tiles.current[focusIndex]?.scrollIntoView({ block: "nearest" });
+  }, [focusIndex]);
+
+  // Switches the status tab while keeping the other filters
+  const tabLink = (tabStatus: ReviewStatus) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("status", tabStatus);
+    return `?${next}`;
+  };
+
+  return (
+    <div>
+      {fetcher.data?.error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{fetcher.data.error}</p>}
+      {fetcher.data?.message && <p className="mb-4 text-sm text-green-600 dark:text-green-400">{fetcher.data.message}</p>}
+
+      {/* Filters */}
+      <Form method="get" onChange={(e) => submit(e.currentTarget)} className="mb-4 flex flex-wrap items-end gap-3">
+        <input type="hidden" name="status" value={status} />
+        {events && (
+          <div>
+            <label htmlFor="event" className="block text-xs font-medium text-gray-500 dark:text-gray-400">Event</label>
+            <select
+              id="event"
+              name="event"
+              defaultValue={searchParams.get("event") ?? ""}
+              className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+            >
+              <option value="">All events</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>{event.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="uploader" className="block text-xs font-medium text-gray-500 dark:text-gray-400">Uploaded by</label>
+          <select
+            id="uploader"
+            name="uploader"
+            defaultValue={searchParams.get("uploader") ?? ""}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+          >
+            <option value="">Anyone</option>
+            {uploaders.map((uploader) => (
+              <option key={uploader.id} value={uploader.id}>{personLabel(uploader)}</option>
+            ))}
+          </select>
+        </div>
+        <noscript>
+          <button type="submit" className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white">Filter</button>
+        </noscript>
+      </Form>
+
+      {/* Status Tabs */}
+      <div className="mb-4 flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        {STATUS_TABS.map((tab) => (
+          <Link
+            key={tab.status}
+            to={tabLink(tab.status)}
+            className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${
+              tab.status === status
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+            }`}
+          >
+            {tab.label} ({counts[tab.status] ?? 0})
+          </Link>
+        ))}
+      </div>
+
+      {/* Bulk Actions */}
+      {canReview && photos.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-3 rounded bg-white p-4 shadow dark:bg-gray-800">
+          <button type="button" onClick={() => setSelected(new Set(photos.map((photo) => photo.id)))} className="text-sm text-gray-600 hover:underline dark:text-gray-300">Select all</button>
+          <button type="button" onClick={() => setSelected(new Set())} className="text-sm text-gray-600 hover:underline dark:text-gray-300">None</button>
+          <span className="text-sm text-gray-500 dark:text-gray-400">{selected.size} selected</span>
+          {status !== "APPROVED" && (
+            <button
+              type="button"
+              onClick={() => decide("approvePhotos", targets())}
+              disabled={isSubmitting}
+              className="rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-500 disabled:opacity-50"
+            >
+              Approve {selected.size > 0 ? 'Selected' : 'Focused'}
+            </button>
+          )}
+          {status !== "REJECTED" && (
+            <>
+              <input
+                type="text"
+                list="rejection-reasons"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={200}
+                placeholder="Reason for rejecting (optional)"
+                aria-label="Reason for rejecting"
+                className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+              <datalist id="rejection-reasons">
+                {REJECTION_REASONS.map((option) => (
+                  <option key={option} value={option} />
+                ))}
+              </datalist>
+              <button
+                type="button"
+                onClick={() => decide("rejectPhotos", targets())}
+                disabled={isSubmitting}
+                className="rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-500 disabled:opacity-50"
+              >
+                Reject {selected.size > 0 ? 'Selected' : 'Focused'}
+              </button>
+            </>
+          )}
+          <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+            Keys: <kbd>&larr;</kbd>/<kbd>&rarr;</kbd> or <kbd>j</kbd>/<kbd>k</kbd> move, <kbd>x</kbd> or space selects,
+            {' '}<kbd>a</kbd> approves and <kbd>r</kbd> rejects the selection (or the focused photo), <kbd>Esc</kbd> clears the selection.
+          </p>
+        </div>
+      )}
+
+      {photos.length === 0 ? (
+        <p className="py-8 text-center text-gray-500 dark:text-gray-400">No photos here.</p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6">
+          {photos.map((photo, index) => (
+            <li
+              key={photo.id}
+              ref={(element) => { tiles.current[index] = element; }}
+              className={`relative rounded p-1 ${index === focusIndex ? 'ring-2 ring-indigo-500' : ''}`}
+            >
+              {canReview && (
+                <input
+                  type="checkbox"
+                  checked={selected.has(photo.id)}
+                  onChange={() => { toggle(photo.id); setFocusIndex(index); }}
+                  aria-label="Select photo"
+                  className="absolute left-3 top-3 h-4 w-4 rounded border-gray-300 text-indigo-600"
+                />
+              )}
+              <a href={photo.webUrl ?? photo.imageUrl} target="_blank" rel="noreferrer" onFocus={() => setFocusIndex(index)}>
+                <img src={photo.thumbnailUrl ?? photo.imageUrl} alt="" loading="lazy" className="aspect-square w-full rounded object-cover" />
+              </a>
+              <div className="mt-1 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+                {events && <p className="truncate font-medium text-gray-700 dark:text-gray-300">{photo.event.name}</p>}
+                <p className="truncate">By {photo.uploader ? personLabel(photo.uploader) : 'a deleted account'}, {new Date(photo.uploadTime).toLocaleString()}</p>
+                {photo.reviewedBy && <p className="truncate">Reviewed by {personLabel(photo.reviewedBy)}</p>}
+                {photo.rejectionReason && <p className="truncate text-red-600 dark:text-red-400" title={photo.rejectionReason}>{photo.rejectionReason}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
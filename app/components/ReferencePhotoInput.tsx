@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+
+interface ReferencePhotoInputProps {
+  currentUrl?: string | null; // Stored reference photo, shown until a new file is picked
+  error?: string;
+  required?: boolean;
+}
+
+/**
+ * File input for a participant's reference selfie with an inline preview of
+ * the chosen file. Submits as `referencePhoto`.
+ */
+export function ReferencePhotoInput({ currentUrl, error, required }: ReferencePhotoInputProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  // Release the object URL when the preview changes or the input unmounts
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const shownUrl = previewUrl ?? currentUrl;
+
+  return (
+    <div>
+      <label htmlFor="referencePhoto" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Reference Photo
+      </label>
+      <div className="mt-1 flex items-center gap-4">
+        <div className="flex h-24 w-24 shrink-0 items-center justify-center overflow-hidden rounded-full bg-gray-100 dark:bg-gray-700">
+          {shownUrl ? (
+            <img src={shownUrl} alt="Reference preview" className="h-full w-full object-cover" />
+          ) : (
+            <span className="text-xs text-gray-400 dark:text-gray-500">No photo</span>
+          )}
+        </div>
+        <div>
+          <input
+            type="file"
+            id="referencePhoto"
+            name="referencePhoto"
+            accept="image/jpeg,image/png,image/webp"
+            required={required}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              setPreviewUrl(file ? URL.createObjectURL(file) : null);
+            }}
+            className="block w-full text-sm text-gray-500 file:mr-4 file:rounded-full file:border-0 file:bg-indigo-50 file:px-4 file:py-2 file:text-sm file:font-semibold file:text-indigo-700 hover:file:bg-indigo-100 dark:text-gray-400 dark:file:bg-indigo-900 dark:file:text-indigo-300 dark:hover:file:bg-indigo-800"
+            aria-invalid={error ? true : undefined}
+            aria-describedby="referencePhoto-help"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400" id="referencePhoto-help">
+            A clear, front-facing photo of the participant&apos;s face. JPEG, PNG or WebP, up to 10MB.
+          </p>
+        </div>
+      </div>
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
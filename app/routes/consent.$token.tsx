@@ -0,0 +1,145 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { format } from "date-fns";
+import invariant from "tiny-invariant";
+import { prisma } from "~/db.server";
+import { recordInvalidTokenLookup, requireTokenLookupAllowed } from "~/services/auth-throttle.server";
+import { CONSENT_TYPES, getConsentPolicyVersion, getConsentState, updateParticipantConsents } from "~/services/consent.server";
+import { verifyConsentToken } from "~/utils/participant-links.server";
+import { getClientIp } from "~/utils/request.server";
+
+const CONSENT_DESCRIPTIONS: Record<string, { title: string; description: string }> = {
+  PHOTO_STORAGE: {
+    title: "Photo storage",
+    description: "Photos of you taken at the event are stored and shared with you.",
+  },
+  FACIAL_RECOGNITION: {
+    title: "Facial recognition",
+    description: "Your reference photo is compared with event photos to find the ones you appear in. Turning this off deletes all matches found for you.",
+  },
+  DATA_SHARING: {
+    title: "Sharing with partners",
+    description: "The organizer may share your photos with event partners.",
+  },
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Your privacy choices" }, { name: "robots", content: "noindex, nofollow" }];
+};
+
+async function requireConsentParticipant(token: string, request: Request) {
+  await requireTokenLookupAllowed(request);
+  const verified = verifyConsentToken(token);
+  const participant = verified
+    ? await prisma.participant.findUnique({
+        where: { id: verified.participantId },
+        select: { id: true, name: true, event: { select: { name: true, organization: { select: { name: true } } } } },
+      })
+    : null;
+  if (!participant) {
+    await recordInvalidTokenLookup(request);
+    throw new Response("This link is no longer valid", { status: 404 });
+  }
+  return participant;
+}
+
+// Public page: access is granted by the signed token in the URL, not a login
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  invariant(params.token, "Missing token param");
+
+  const participant = await requireConsentParticipant(params.token, request);
+  const state = await getConsentState(participant.id);
+
+  return json(
+    {
+      participant: {
+        name: participant.name,
+        eventName: participant.event.name,
+        organizationName: participant.event.organization.name,
+      },
+      policyVersion: getConsentPolicyVersion(),
+      choices: CONSENT_TYPES.map((type) => ({
+        type,
+        granted: state[type]?.status === "GRANTED",
+        updated: state[type] ? format(state[type].timestamp, "PPP") : null,
+      })),
+    },
+    { headers: { "Cache-Control": "private, no-store", "Referrer-Policy": "no-referrer" } }
+  );
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  invariant(params.token, "Missing token param");
+
+  const participant = await requireConsentParticipant(params.token, request);
+  const formData = await request.formData();
+
+  // Unticked checkboxes aren't submitted, so every type gets an explicit answer
+  const changed = await updateParticipantConsents(
+    participant.id,
+    Object.fromEntries(CONSENT_TYPES.map((type) => [type, formData.get(`consent_${type}`) === "on"])),
+    { details: "Participant consent page", ipAddress: getClientIp(request) }
+  );
+
+  return json({
+    message: changed.length > 0 ? "Your choices have been saved." : "Nothing changed.",
+  });
+}
+
+export default function ConsentPage() {
+  const { participant, policyVersion, choices } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="min-h-screen bg-gray-100 px-4 py-8 dark:bg-gray-900">
+      <div className="mx-auto max-w-2xl rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{participant.organizationName}</p>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Your privacy choices</h1>
+        <p className="mt-1 text-gray-600 dark:text-gray-300">
+          {participant.name ? `${participant.name}, choose` : 'Choose'} how photos of you from {participant.eventName} may be used. You can change these at any time.
+        </p>
+
+        {actionData?.message && (
+          <div className="mt-4 rounded-md bg-green-50 p-4 dark:bg-green-900">
+            <p className="text-sm font-medium text-green-800 dark:text-green-200">{actionData.message}</p>
+          </div>
+        )}
+
+        <Form method="post" className="mt-6 space-y-4">
+          {choices.map((choice) => (
+            <div key={choice.type} className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                id={`consent_${choice.type}`}
+                name={`consent_${choice.type}`}
+                defaultChecked={choice.granted}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <label htmlFor={`consent_${choice.type}`} className="text-sm">
+                <span className="font-medium text-gray-900 dark:text-white">{CONSENT_DESCRIPTIONS[choice.type]?.title ?? choice.type}</span>
+                <span className="block text-gray-600 dark:text-gray-300">{CONSENT_DESCRIPTIONS[choice.type]?.description}</span>
+                {choice.updated && (
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">Last changed {choice.updated}</span>
+                )}
+              </label>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between border-t border-gray-200 pt-4 dark:border-gray-700">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Consent policy version {policyVersion}</p>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSubmitting ? "Saving..." : "Save Choices"}
+            </button>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { format } from "date-fns";
+import invariant from "tiny-invariant";
+import { ReferencePhotoInput } from "~/components/ReferencePhotoInput";
+import { throttleRegistration } from "~/services/auth-throttle.server";
+import type { RegistrationErrors } from "~/services/registration.server";
+import { getPublicEvent, getRegistrationState, REGISTRATION_CONSENTS, registerParticipant } from "~/services/registration.server";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+import { getClientIp } from "~/utils/request.server";
+
+const CONSENT_LABELS: Record<string, string> = {
+  PHOTO_STORAGE: "I agree that photos of me taken at this event are stored and shared with me.",
+  FACIAL_RECOGNITION: "Use facial recognition on my selfie to find the event photos I appear in.",
+  DATA_SHARING: "The organizer may share my photos with event partners.",
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: data?.event ? data.event.name : "Event not found" }];
+};
+
+// Public page: anyone can view a public event and register for it
+export async function loader({ params }: LoaderFunctionArgs) {
+  invariant(params.eventId, "Missing eventId param");
+
+  const event = await getPublicEvent(params.eventId);
+  if (!event) {
+    throw new Response("Event not found", { status: 404 });
+  }
+
+  return json({
+    event: {
+      name: event.name,
+      description: event.description,
+      organizationName: event.organization.name,
+      dateStartFormatted: format(event.dateStart, "PPP p"),
+      dateEndFormatted: event.dateEnd ? format(event.dateEnd, "PPP p") : null,
+      locationName: event.locationName,
+      locationAddress: event.locationAddress,
+      registrationDeadlineFormatted: event.registrationDeadline ? format(event.registrationDeadline, "PPP p") : null,
+    },
+    registration: getRegistrationState(event),
+    consents: REGISTRATION_CONSENTS,
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  invariant(params.eventId, "Missing eventId param");
+
+  const event = await getPublicEvent(params.eventId);
+  if (!event) {
+    throw new Response("Event not found", { status: 404 });
+  }
+
+  // Checked again here in case the page was left open past the deadline
+  const registration = getRegistrationState(event);
+  if (!registration.open) {
+    return json({ registered: false as const, errors: { form: registration.reason } satisfies RegistrationErrors }, { status: 400 });
+  }
+
+  // Before the form is read, so repeated submissions don't each process a selfie
+  try {
+    await throttleRegistration(event.id, request);
+  } catch (error) {
+    if (!(error instanceof RateLimitedError)) throw error;
+    return json(
+      { registered: false as const, errors: { form: error.message } satisfies RegistrationErrors },
+      { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+    );
+  }
+
+  const result = await registerParticipant(event.id, await request.formData(), getClientIp(request));
+  if (!result.ok) {
+    return json({ registered: false as const, errors: result.errors }, { status: result.status });
+  }
+
+  return json({ registered: true as const });
+}
+
+export default function PublicEventPage() {
+  const { event, registration, consents } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const errors: RegistrationErrors = actionData && !actionData.registered ? actionData.errors : {};
+
+  return (
+    <div className="min-h-screen bg-gray-100 px-4 py-8 dark:bg-gray-900">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <header className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{event.organizationName}</p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{event.name}</h1>
+          <dl className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">When</dt>
+              <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+                {event.dateStartFormatted}
+                {event.dateEndFormatted && ` – ${event.dateEndFormatted}`}
+              </dd>
+            </div>
+            {event.locationName && (
+              <div>
+                <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Where</dt>
+                <dd className="mt-1 text-sm text-gray-900 dark:text-white">{event.locationName}</dd>
+                {event.locationAddress && <dd className="mt-1 text-xs text-gray-500 dark:text-gray-400">{event.locationAddress}</dd>}
+              </div>
+            )}
+          </dl>
+          {event.description && (
+            <p className="mt-4 whitespace-pre-line text-gray-700 dark:text-gray-300">{event.description}</p>
+          )}
+        </header>
+
+        <section className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
+          <h2 className="mb-1 text-xl font-semibold text-gray-900 dark:text-white">Register</h2>
+
+          {actionData?.registered ? (
+            <p className="text-green-700 dark:text-green-400">
+              You&apos;re registered! The organizer will send you a link to your photos after the event.
+            </p>
+          ) : !registration.open ? (
+            <p className="text-gray-600 dark:text-gray-300">{registration.reason}</p>
+          ) : (
+            <>
+              {event.registrationDeadlineFormatted && (
+                <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">Registration closes {event.registrationDeadlineFormatted}.</p>
+              )}
+
+              {errors.form && (
+                <div className="mb-4 rounded-md bg-red-50 p-4 dark:bg-red-900">
+                  <p className="text-sm font-medium text-red-800 dark:text-red-200">{errors.form}</p>
+                </div>
+              )}
+
+              <Form method="post" encType="multipart/form-data" className="space-y-4">
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Full Name
+                  </label>
+                  <input
+                    type="text"
+                    id="name"
+                    name="name"
+                    required
+                    autoComplete="name"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                    aria-invalid={errors.name ? true : undefined}
+                    aria-describedby="name-error"
+                  />
+                  {errors.name && <p className="mt-2 text-sm text-red-600 dark:text-red-400" id="name-error">{errors.name}</p>}
+                </div>
+
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Email Address
+                  </label>
+                  <input
+                    type="email"
+                    id="email"
+                    name="email"
+                    required
+                    autoComplete="email"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                    aria-invalid={errors.email ? true : undefined}
+                    aria-describedby="email-error"
+                  />
+                  {errors.email && <p className="mt-2 text-sm text-red-600 dark:text-red-400" id="email-error">{errors.email}</p>}
+                </div>
+
+                <fieldset className="space-y-2">
+                  <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">Consent</legend>
+                  {consents.map(({ type, required }) => (
+                    <div key={type} className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        id={`consent_${type}`}
+                        name={`consent_${type}`}
+                        required={required}
+                        className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <label htmlFor={`consent_${type}`} className="text-sm text-gray-700 dark:text-gray-300">
+                        {CONSENT_LABELS[type]}
+                        {!required && <span className="text-gray-500 dark:text-gray-400"> (optional)</span>}
+                      </label>
+                    </div>
+                  ))}
+                  {errors.consent_PHOTO_STORAGE && (
+                    <p className="text-sm text-red-600 dark:text-red-400">{errors.consent_PHOTO_STORAGE}</p>
+                  )}
+                </fieldset>
+
+                <div>
+                  <ReferencePhotoInput error={errors.referencePhoto} />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Optional. A clear selfie lets us find the photos you appear in, if you agreed to facial recognition above.
+                  </p>
+                </div>
+
+                <div className="flex justify-end border-t border-gray-200 pt-4 dark:border-gray-700">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Registering..." : "Register"}
+                  </button>
+                </div>
+              </Form>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
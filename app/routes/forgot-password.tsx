@@ -0,0 +1,77 @@
+import type { ActionFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Link, useActionData, useNavigation } from "@remix-run/react";
+import { throttlePasswordResetRequest } from "~/services/auth-throttle.server";
+import { requestPasswordReset } from "~/services/user-tokens.server";
+import { LoginSchema } from "~/utils/auth-validation";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Forgot password" }];
+};
+
+export async function action({ request }: ActionFunctionArgs) {
+  const email = LoginSchema.shape.email.safeParse((await request.formData()).get("email"));
+  if (!email.success) {
+    return json({ error: email.error.issues[0].message, sent: false }, { status: 400 });
+  }
+
+  try {
+    await throttlePasswordResetRequest(email.data, request);
+  } catch (error) {
+    if (!(error instanceof RateLimitedError)) throw error;
+    return json(
+      { error: error.message, sent: false },
+      { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+    );
+  }
+
+  await requestPasswordReset(email.data);
+  // Same answer whether or not the account exists
+  return json({ error: null, sent: true });
+}
+
+export default function ForgotPasswordPage() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 dark:bg-gray-900">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-md dark:bg-gray-800">
+        <h1 className="mb-2 text-center text-2xl font-bold text-gray-800 dark:text-gray-100">Forgot your password?</h1>
+        {actionData?.sent ? (
+          <p className="text-center text-sm text-gray-600 dark:text-gray-300">
+            If an account uses that email address, we&apos;ve sent it a link to choose a new password. The link works for an hour.
+          </p>
+        ) : (
+          <Form method="post" className="mt-4 space-y-6">
+            <p className="text-sm text-gray-600 dark:text-gray-300">Enter your email address and we&apos;ll send you a link to reset your password.</p>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Email address</label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                required
+                autoComplete="email"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+              />
+              {actionData?.error && <p className="mt-1 text-sm text-red-600">{actionData.error}</p>}
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+            >
+              {isSubmitting ? "Sending..." : "Send Reset Link"}
+            </button>
+          </Form>
+        )}
+        <div className="mt-4 text-center text-sm">
+          <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">Back to login</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import path from "node:path";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { recordInvalidTokenLookup, requireTokenLookupAllowed } from "~/services/auth-throttle.server";
+import { keyFromUrl } from "~/services/storage/driver.server";
+import { findGalleryPhoto, getGalleryParticipant } from "~/services/gallery.server";
+import { getStorageDriver } from "~/utils/storage.server";
+
+// Resource route serving a photo from a participant's gallery.
+// ?size=thumbnail|web picks a rendition (default: original); ?download=1 saves it as a file.
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  invariant(params.token, "Missing token param");
+  invariant(params.photoId, "Missing photoId param");
+  await requireTokenLookupAllowed(request);
+
+  const participant = await getGalleryParticipant(params.token);
+  if (!participant) {
+    await recordInvalidTokenLookup(request);
+    throw new Response("Not Found", { status: 404 });
+  }
+  const photo = await findGalleryPhoto(participant.id, params.photoId);
+  if (!photo) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const size = url.searchParams.get("size");
+  const download = url.searchParams.get("download") === "1";
+  // Downloads are always full resolution; renditions fall back to the original if missing
+  const fileUrl = download
+    ? photo.imageUrl
+    : (size === "thumbnail" ? photo.thumbnailUrl : size === "web" ? photo.webUrl : null) ?? photo.imageUrl;
+
+  const key = keyFromUrl(fileUrl);
+  const object = key ? await getStorageDriver().getObject(key) : null;
+  if (!key || !object) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const headers = new Headers({
+    "Content-Type": object.contentType,
+    "Cache-Control": "private, max-age=3600",
+    "X-Content-Type-Options": "nosniff",
+    "Referrer-Policy": "no-referrer",
+  });
+  if (object.size !== undefined) {
+    headers.set("Content-Length", String(object.size));
+  }
+  if (download) {
+    headers.set("Content-Disposition", `attachment; filename="photo-${photo.id}${path.extname(key)}"`);
+  }
+
+  return new Response(object.body, { headers });
+}
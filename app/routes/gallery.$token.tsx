@@ -0,0 +1,115 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useParams } from "@remix-run/react";
+import { format } from "date-fns";
+import invariant from "tiny-invariant";
+import { recordInvalidTokenLookup, requireTokenLookupAllowed } from "~/services/auth-throttle.server";
+import { getGalleryParticipant, listGalleryPhotos } from "~/services/gallery.server";
+import { createConsentToken } from "~/utils/participant-links.server";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [
+    { title: data?.participant ? `Your photos from ${data.participant.event.name}` : "Gallery" },
+    // Personal galleries must never show up in search results
+    { name: "robots", content: "noindex, nofollow" },
+  ];
+};
+
+// Public page: access is granted by the signed token in the URL, not a login
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  invariant(params.token, "Missing token param");
+  await requireTokenLookupAllowed(request);
+
+  const participant = await getGalleryParticipant(params.token);
+  if (!participant) {
+    await recordInvalidTokenLookup(request);
+    return json({ participant: null, photos: [], consentPath: null }, { status: 404 });
+  }
+
+  const photos = await listGalleryPhotos(participant.id);
+
+  return json(
+    {
+      participant: {
+        name: participant.name,
+        event: {
+          name: participant.event.name,
+          date: format(participant.event.dateStart, "PPP"),
+          organizationName: participant.event.organization.name,
+        },
+        linkExpires: format(participant.linkExpiresAt, "PPP"),
+      },
+      consentPath: `/consent/${createConsentToken(participant.id).token}`,
+      photos,
+    },
+    { headers: { "Cache-Control": "private, no-store", "Referrer-Policy": "no-referrer" } }
+  );
+}
+
+export default function ParticipantGalleryPage() {
+  const { participant, photos, consentPath } = useLoaderData<typeof loader>();
+  const params = useParams();
+  const photoUrl = (photoId: string, query: string) => `/gallery/${params.token}/photos/${photoId}?${query}`;
+
+  if (!participant) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 px-4 dark:bg-gray-900">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 text-center shadow-md dark:bg-gray-800">
+          <h1 className="mb-2 text-xl font-bold text-gray-800 dark:text-gray-100">This link is no longer valid</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Gallery links expire after a while. Please ask the event organizer for a new one.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 px-4 py-8 dark:bg-gray-900">
+      <div className="mx-auto max-w-6xl">
+        <header className="mb-8">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{participant.event.organizationName}</p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{participant.event.name}</h1>
+          <p className="mt-1 text-gray-600 dark:text-gray-300">
+            {participant.name ? `Hi ${participant.name}, here` : 'Here'} are your photos from {participant.event.date}.
+          </p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            This link is valid until {participant.linkExpires}.
+            {consentPath && (
+              <>
+                {' '}
+                <a href={consentPath} className="text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">
+                  Manage your privacy choices
+                </a>
+              </>
+            )}
+          </p>
+        </header>
+
+        {photos.length > 0 ? (
+          <ul className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+            {photos.map((photo) => (
+              <li key={photo.id} className="overflow-hidden rounded bg-white shadow dark:bg-gray-800">
+                <a href={photoUrl(photo.id, "size=web")} target="_blank" rel="noreferrer">
+                  <img src={photoUrl(photo.id, "size=thumbnail")} alt="" loading="lazy" className="aspect-square w-full object-cover" />
+                </a>
+                <div className="p-2 text-right">
+                  <a
+                    href={photoUrl(photo.id, "download=1")}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+                  >
+                    Download
+                  </a>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="py-12 text-center text-gray-500 dark:text-gray-400">
+            No photos of you are ready yet. Check back later!
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
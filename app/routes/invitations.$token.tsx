@@ -0,0 +1,153 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { format } from "date-fns";
+import invariant from "tiny-invariant";
+import { recordInvalidTokenLookup, requireTokenLookupAllowed } from "~/services/auth-throttle.server";
+import { acceptInvitation, getInvitation } from "~/services/members.server";
+import { commitSession, getSession } from "~/services/session.server";
+import { beginPasswordSignIn, getUser } from "~/utils/auth.server";
+import { PASSWORD_HINT } from "~/utils/auth-validation";
+import { normalizeEmail } from "~/utils/email";
+import { rememberActiveOrganization } from "~/utils/organizations.server";
+import { ROLE_LABELS } from "~/utils/permissions";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Join organization" }, { name: "robots", content: "noindex, nofollow" }];
+};
+
+async function requireInvitation(token: string, request: Request) {
+  await requireTokenLookupAllowed(request);
+  const invitation = await getInvitation(token);
+  if (!invitation) {
+    await recordInvalidTokenLookup(request);
+    throw new Response("This invitation is no longer valid", { status: 404 });
+  }
+  return invitation;
+}
+
+// Public page: the token in the URL identifies the invitation
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  invariant(params.token, "Missing token param");
+
+  const invitation = await requireInvitation(params.token, request);
+  const user = await getUser(request);
+
+  return json(
+    {
+      invitation: {
+        email: invitation.email,
+        organizationName: invitation.org.name,
+        roleLabel: ROLE_LABELS[invitation.role],
+        expiresAt: format(invitation.expiresAt, "PPP"),
+        hasAccount: invitation.hasAccount,
+      },
+      signedInEmail: user?.email ?? null,
+      signedInAsInvitee: user ? normalizeEmail(user.email) === invitation.email : false,
+    },
+    { headers: { "Cache-Control": "private, no-store", "Referrer-Policy": "no-referrer" } }
+  );
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  invariant(params.token, "Missing token param");
+  await requireTokenLookupAllowed(request);
+
+  const user = await getUser(request);
+  const result = await acceptInvitation(params.token, await request.formData(), user?.id ?? null, request);
+  if (!result.ok) {
+    if (result.status === 404) await recordInvalidTokenLookup(request);
+    return json({ errors: result.errors }, { status: result.status });
+  }
+
+  // Sign the invitee in (if they weren't; two-factor accounts finish at the second step)
+  // and switch them to the organization they joined
+  const { session, redirectTo } = user
+    ? { session: await getSession(request.headers.get("Cookie")), redirectTo: "/org/events" }
+    : await beginPasswordSignIn(request, result.user, "/org/events");
+  rememberActiveOrganization(session, result.orgId);
+  return redirect(redirectTo, { headers: { "Set-Cookie": await commitSession(session) } });
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm";
+
+export default function AcceptInvitationPage() {
+  const { invitation, signedInEmail, signedInAsInvitee } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const errors = actionData?.errors;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 px-4 dark:bg-gray-900">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-md dark:bg-gray-800">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Join {invitation.organizationName}</h1>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+          You&apos;ve been invited as {invitation.email} with the {invitation.roleLabel} role. This invitation works until {invitation.expiresAt}.
+        </p>
+
+        {errors?.form && (
+          <div className="mt-4 rounded-md bg-red-50 p-4 dark:bg-red-900">
+            <p className="text-sm font-medium text-red-800 dark:text-red-200">{errors.form}</p>
+          </div>
+        )}
+
+        {signedInEmail && !signedInAsInvitee ? (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              You&apos;re signed in as {signedInEmail}. Sign out, then open the invitation link again to accept it as {invitation.email}.
+            </p>
+            <Form action="/logout" method="post">
+              <button type="submit" className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+                Sign Out
+              </button>
+            </Form>
+          </div>
+        ) : (
+          <Form method="post" className="mt-6 space-y-4">
+            {!signedInEmail && invitation.hasAccount && (
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Password for {invitation.email}
+                </label>
+                <input id="password" name="password" type="password" required autoComplete="current-password" className={inputClassName} />
+                {errors?.password && <p className="mt-1 text-sm text-red-600">{errors.password}</p>}
+              </div>
+            )}
+
+            {!signedInEmail && !invitation.hasAccount && (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-300">Create your account to accept.</p>
+                <div>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                  <input id="name" name="name" type="text" required autoComplete="name" className={inputClassName} />
+                  {errors?.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+                </div>
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Password</label>
+                  <input id="password" name="password" type="password" required autoComplete="new-password" aria-describedby="password-hint" className={inputClassName} />
+                  <p id="password-hint" className="mt-1 text-xs text-gray-500 dark:text-gray-400">{PASSWORD_HINT}</p>
+                  {errors?.password && <p className="mt-1 text-sm text-red-600">{errors.password}</p>}
+                </div>
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Confirm password</label>
+                  <input id="confirmPassword" name="confirmPassword" type="password" required autoComplete="new-password" className={inputClassName} />
+                  {errors?.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword}</p>}
+                </div>
+              </>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+            >
+              {isSubmitting ? "Joining..." : "Accept Invitation"}
+            </button>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
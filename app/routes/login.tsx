@@ -1,7 +1,11 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
 import { Form, Link, useActionData, useSearchParams } from "@remix-run/react";
+import { AuthorizationError } from "remix-auth";
 import { authenticator } from "~/services/auth.server";
-import { getSession, commitSession } from "~/services/session.server"; // Assuming you have this
+import { commitSession } from "~/services/session.server";
+import { beginPasswordSignIn } from "~/utils/auth.server";
+import { RateLimitedError } from "~/utils/rate-limit.server";
 
 export const meta: MetaFunction = () => {
   return [{ title: "Login" }];
@@ -18,43 +22,37 @@ export async function loader({ request }: LoaderFunctionArgs) {
 export async function action({ request }: ActionFunctionArgs) {
   try {
     // we call the method with the name of the strategy we want to use and the
-    // request object, optionally we pass an object with the URLs we want the user
-    // to be redirected to after a success or a failure
-    return await authenticator.authenticate("user-pass", request, {
-      successRedirect: "/org", // Redirect to org dashboard for now
+    // request object. Without a successRedirect it returns the user, so accounts
+    // with two-factor authentication can be sent to the second step first.
+    const user = await authenticator.authenticate("user-pass", request, {
       // The `throwOnError` option will tell the authenticator to throw the error instead of returning it.
       // This is useful for returning responses on errors.
       throwOnError: true,
     });
+    const { session, redirectTo } = await beginPasswordSignIn(request, user);
+    return redirect(redirectTo, { headers: { "Set-Cookie": await commitSession(session) } });
   } catch (error) {
      // Because redirects work by throwing a Response, you need to check if the error
     // is a Response and return it or throw it again
     if (error instanceof Response) return error;
 
-    // If it's not a Response, return the error message to display to the user
-    // Ensure error has a 'message' property or handle appropriately
-    const message = error instanceof Error ? error.message : "An unknown error occurred.";
-
-    // Get the session to add the error message
-    const session = await getSession(request.headers.get("Cookie"));
-    session.flash("error", message); // Use flash message for errors
+    // The strategy's errors arrive wrapped in an AuthorizationError
+    if (error instanceof AuthorizationError && error.cause instanceof RateLimitedError) {
+      return json(
+        { error: error.cause.message },
+        { status: 429, headers: { "Retry-After": String(error.cause.retryAfterSeconds) } }
+      );
+    }
 
-    // Commit the session along with the response
-    return new Response(null, {
-      status: 401, // Unauthorized
-      headers: {
-        "Set-Cookie": await commitSession(session),
-      },
-    });
+    const message = error instanceof Error ? error.message : "An unknown error occurred.";
+    return json({ error: message }, { status: 401 });
   }
 }
 
 
 export default function LoginPage() {
   const [searchParams] = useSearchParams();
-  const actionData = useActionData<typeof action>(); // Use if returning data directly, not needed with flash
-
-  // TODO: Read flash message from loader if implemented
+  const actionData = useActionData<typeof action>();
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 dark:bg-gray-900">
@@ -62,6 +60,11 @@ export default function LoginPage() {
         <h1 className="mb-6 text-center text-2xl font-bold text-gray-800 dark:text-gray-100">
           Login
         </h1>
+        {searchParams.get("reset") && (
+          <p className="mb-4 rounded-md bg-green-50 p-3 text-sm text-green-700 dark:bg-green-900/30 dark:text-green-300">
+            Your password has been changed. Log in with the new one.
+          </p>
+        )}
         <Form method="post" className="space-y-6">
           <input
             type="hidden"
@@ -107,11 +110,19 @@ export default function LoginPage() {
               aria-describedby="password-error"
             />
              {/* Display error message here if using actionData */}
+            <div className="mt-1 text-right text-sm">
+              <Link
+                to="/forgot-password"
+                className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+              >
+                Forgot password?
+              </Link>
+            </div>
           </div>
 
-           {/* Display general form error from flash message here */}
-           {/* Example: const { error } = useLoaderData<typeof loader>(); */}
-           {/* {error && <div className="text-sm text-red-600">{error}</div>} */}
+          {actionData?.error && (
+            <p id="form-error" role="alert" className="text-sm text-red-600">{actionData.error}</p>
+          )}
 
 
           <button
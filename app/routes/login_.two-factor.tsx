@@ -0,0 +1,90 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, Link, useActionData, useNavigation } from "@remix-run/react";
+import { prisma } from "~/db.server";
+import { toSessionUser } from "~/services/auth.server";
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin } from "~/services/auth-throttle.server";
+import { commitSession, getSession } from "~/services/session.server";
+import { verifyTwoFactorCode } from "~/services/two-factor.server";
+import { completePendingSignIn, getPendingSignIn } from "~/utils/auth.server";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Two-factor authentication" }];
+};
+
+// Only reachable between a correct password and the second step
+export async function loader({ request }: LoaderFunctionArgs) {
+  const session = await getSession(request.headers.get("Cookie"));
+  if (!getPendingSignIn(session)) return redirect("/login");
+  return null;
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const session = await getSession(request.headers.get("Cookie"));
+  const pending = getPendingSignIn(session);
+  if (!pending) return redirect("/login");
+
+  const user = await prisma.user.findUnique({ where: { id: pending.userId } });
+  if (!user) return redirect("/login");
+
+  // Wrong codes count like wrong passwords
+  try {
+    await assertLoginAllowed(user.email, request);
+  } catch (error) {
+    if (!(error instanceof RateLimitedError)) throw error;
+    return json({ error: error.message }, { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } });
+  }
+
+  const code = String((await request.formData()).get("code") ?? "").trim();
+  if (!code || !(await verifyTwoFactorCode(user.id, code)).ok) {
+    await recordFailedLogin(user.email, request);
+    return json({ error: "That code didn't work. Try the current code from your app or an unused recovery code." }, { status: 401 });
+  }
+  await clearFailedLogins(user.email);
+
+  const signedIn = await completePendingSignIn(request, toSessionUser(user));
+  return redirect(pending.redirectTo, { headers: { "Set-Cookie": await commitSession(signedIn) } });
+}
+
+export default function TwoFactorLoginPage() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 dark:bg-gray-900">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-md dark:bg-gray-800">
+        <h1 className="mb-2 text-center text-2xl font-bold text-gray-800 dark:text-gray-100">Two-factor authentication</h1>
+        <p className="mb-6 text-center text-sm text-gray-600 dark:text-gray-300">
+          Enter the 6-digit code from your authenticator app. If you can&apos;t use the app, enter one of your recovery codes.
+        </p>
+        <Form method="post" className="space-y-6">
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Code</label>
+            <input
+              id="code"
+              name="code"
+              type="text"
+              required
+              autoComplete="one-time-code"
+              aria-describedby={actionData?.error ? "code-error" : undefined}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+            {actionData?.error && <p id="code-error" className="mt-1 text-sm text-red-600">{actionData.error}</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {isSubmitting ? "Checking..." : "Verify"}
+          </button>
+        </Form>
+        <div className="mt-4 text-center text-sm">
+          <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">Start over</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,47 @@
 import type { LoaderFunctionArgs } from "@remix-run/node";
-import { Outlet, Link, useLoaderData, Form } from "@remix-run/react";
+import { redirect } from "@remix-run/node";
+import { Outlet, Link, useLoaderData, useSubmit, Form, useFetcher, useRouteError, isRouteErrorResponse } from "@remix-run/react";
+import { isEmailVerified } from "~/services/user-tokens.server";
 import { requireUser } from "~/utils/auth.server";
-import type { User } from "@prisma/client";
+import { getActiveMembership, listUserOrganizations } from "~/utils/organizations.server";
+import { can, ROLE_LABELS } from "~/utils/permissions";
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  // Require authentication for all routes under /org
-  // Later, add role checks if needed (e.g., require ORG roles)
+  // Require authentication for all routes under /org; each route checks the
+  // permissions it needs against the user's role in the active organization
   const user = await requireUser(request);
-  return { user };
+  const organizations = await listUserOrganizations(user.id);
+  const membership = await getActiveMembership(request, user.id);
+  // Admins of organizations that require two-factor authentication set it up before anything else
+  if (membership?.twoFactorRequired && new URL(request.url).pathname !== "/org/account") {
+    throw redirect("/org/account");
+  }
+  const emailVerified = await isEmailVerified(user.id);
+  return { user, organizations, activeOrgId: membership?.orgId ?? null, role: membership?.role ?? null, emailVerified };
+}
+
+function EmailVerificationBanner({ email }: { email: string }) {
+  const fetcher = useFetcher<{ message: string }>();
+
+  return (
+    <div className="border-b border-yellow-200 bg-yellow-50 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200">
+      <div className="container mx-auto flex items-center justify-between gap-4 px-4 py-2">
+        <span>
+          {fetcher.data?.message ?? `Confirm your email address (${email}) to publish galleries and invite others.`}
+        </span>
+        <fetcher.Form method="post" action="/verify-email">
+          <button type="submit" disabled={fetcher.state !== "idle"} className="font-medium underline hover:no-underline disabled:opacity-50">
+            {fetcher.state !== "idle" ? "Sending..." : "Resend link"}
+          </button>
+        </fetcher.Form>
+      </div>
+    </div>
+  );
 }
 
 export default function OrgLayout() {
-  const { user } = useLoaderData<{ user: User }>();
+  const { user, organizations, activeOrgId, role, emailVerified } = useLoaderData<typeof loader>();
+  const submit = useSubmit();
 
   return (
     <div className="flex h-screen flex-col">
@@ -21,9 +51,37 @@ export default function OrgLayout() {
             Event Platform Org
           </Link>
           <div className="flex items-center space-x-4">
+             {organizations.length > 1 ? (
+               <Form method="post" action="/org/switch-organization" onChange={(e) => submit(e.currentTarget)}>
+                 <label htmlFor="orgId" className="sr-only">Organization</label>
+                 <select
+                   id="orgId"
+                   name="orgId"
+                   defaultValue={activeOrgId ?? undefined}
+                   key={activeOrgId}
+                   className="rounded border-gray-600 bg-gray-700 py-1 text-sm text-white"
+                 >
+                   {organizations.map((org) => (
+                     <option key={org.id} value={org.id}>{org.name}</option>
+                   ))}
+                 </select>
+                 <noscript>
+                   <button type="submit" className="ml-2 text-sm hover:text-gray-300">Switch</button>
+                 </noscript>
+               </Form>
+             ) : organizations.length === 1 && (
+               <span className="text-sm text-gray-300">{organizations[0].name}</span>
+             )}
              <Link to="/org/events" className="hover:text-gray-300">Events</Link>
+             <Link to="/org/review" className="hover:text-gray-300">Review</Link>
+             {can(role, "organization:manage") && (
+               <Link to="/org/settings" className="hover:text-gray-300">Settings</Link>
+             )}
+             {can(role, "privacy:manage") && (
+               <Link to="/org/privacy" className="hover:text-gray-300">Privacy</Link>
+             )}
              {/* Add other org navigation links here */}
-             <span className="text-sm text-gray-400">({user.email})</span>
+             <Link to="/org/account" className="text-sm text-gray-400 hover:text-gray-300">({user.email}{role ? `, ${ROLE_LABELS[role]}` : ''})</Link>
              <Form action="/logout" method="post">
                <button type="submit" className="rounded bg-indigo-600 px-3 py-1 text-sm text-white hover:bg-indigo-500">
                  Logout
@@ -32,6 +90,7 @@ export default function OrgLayout() {
           </div>
         </nav>
       </header>
+      {!emailVerified && <EmailVerificationBanner email={user.email} />}
       <main className="flex-grow overflow-y-auto bg-gray-100 p-6 dark:bg-gray-900">
         <div className="container mx-auto">
           <Outlet />
@@ -40,3 +99,33 @@ export default function OrgLayout() {
     </div>
   );
 }
+
+// Shown for errors thrown by any /org route, e.g. the 403 Responses of the permission checks
+export function ErrorBoundary() {
+  const error = useRouteError();
+
+  let title = "Something went wrong";
+  let message = "An unexpected error occurred. Please try again.";
+  if (isRouteErrorResponse(error) && error.status === 403) {
+    title = "Access denied";
+    message = typeof error.data === "string" && error.data ? error.data : "You don't have permission to view this page.";
+  } else if (isRouteErrorResponse(error) && error.status === 404) {
+    title = "Not found";
+    message = typeof error.data === "string" && error.data ? error.data : "This page doesn't exist.";
+  } else {
+    console.error(error);
+  }
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gray-100 p-6 dark:bg-gray-900">
+      <div className="max-w-md rounded bg-white p-8 text-center shadow dark:bg-gray-800">
+        {isRouteErrorResponse(error) && <p className="text-sm font-semibold text-indigo-600 dark:text-indigo-400">{error.status}</p>}
+        <h1 className="mt-2 text-2xl font-bold text-gray-900 dark:text-white">{title}</h1>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">{message}</p>
+        <Link to="/org/events" className="mt-6 inline-block rounded bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+          Back to events
+        </Link>
+      </div>
+    </div>
+  );
+}
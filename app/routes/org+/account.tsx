@@ -0,0 +1,277 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { formatDistanceToNow } from "date-fns";
+import { commitSession, destroySession, getSession } from "~/services/session.server";
+import {
+  countUnusedRecoveryCodes,
+  disableTwoFactor,
+  enableTwoFactor,
+  organizationsRequiringTwoFactor,
+  regenerateRecoveryCodes,
+  twoFactorSetup,
+} from "~/services/two-factor.server";
+import { describeUserAgent, listUserSessions, revokeAllUserSessions, revokeUserSession } from "~/services/user-sessions.server";
+import { requireUser } from "~/utils/auth.server";
+import { generateTotpSecret } from "~/utils/totp.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Account" }];
+};
+
+// Secret shown during two-factor setup, kept in the session until a code confirms it
+const TWO_FACTOR_SETUP_KEY = "twoFactorSetupSecret";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const session = await getSession(request.headers.get("Cookie"));
+  const [sessions, requiredBy] = await Promise.all([listUserSessions(user.id), organizationsRequiringTwoFactor(user.id)]);
+
+  const enabled = Boolean(user.totpEnabledAt);
+  const setupSecret = session.get(TWO_FACTOR_SETUP_KEY);
+
+  return json({
+    user: { name: user.name, email: user.email },
+    twoFactor: {
+      enabled,
+      unusedRecoveryCodes: enabled ? await countUnusedRecoveryCodes(user.id) : 0,
+      requiredBy: requiredBy.map((org) => org.name),
+      setup: !enabled && typeof setupSecret === "string" ? await twoFactorSetup(setupSecret, user.email) : null,
+    },
+    sessions: sessions.map((userSession) => ({
+      id: userSession.id,
+      device: describeUserAgent(userSession.userAgent),
+      ipAddress: userSession.ipAddress,
+      lastSeen: formatDistanceToNow(userSession.lastSeenAt, { addSuffix: true }),
+      current: userSession.id === session.id,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const session = await getSession(request.headers.get("Cookie"));
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // --- Start / Cancel Two-Factor Setup Intents ---
+  if (intent === "startTwoFactorSetup" || intent === "cancelTwoFactorSetup") {
+    if (intent === "startTwoFactorSetup") session.set(TWO_FACTOR_SETUP_KEY, generateTotpSecret());
+    else session.unset(TWO_FACTOR_SETUP_KEY);
+    return redirect("/org/account", { headers: { "Set-Cookie": await commitSession(session) } });
+  }
+
+  // --- Confirm Two-Factor Setup Intent ---
+  if (intent === "confirmTwoFactorSetup") {
+    const secret = session.get(TWO_FACTOR_SETUP_KEY);
+    if (typeof secret !== "string") {
+      return json({ intent, error: "Start the setup again." }, { status: 400 });
+    }
+    const result = await enableTwoFactor(user.id, secret, String(formData.get("code") ?? ""));
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+
+    session.unset(TWO_FACTOR_SETUP_KEY);
+    return json(
+      { intent, message: "Two-factor authentication is on.", recoveryCodes: result.recoveryCodes },
+      { headers: { "Set-Cookie": await commitSession(session) } }
+    );
+  }
+
+  // --- Regenerate Recovery Codes Intent ---
+  if (intent === "regenerateRecoveryCodes") {
+    const result = await regenerateRecoveryCodes(user, String(formData.get("code") ?? ""), request);
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+    return json({ intent, message: "New recovery codes created. The old ones no longer work.", recoveryCodes: result.recoveryCodes });
+  }
+
+  // --- Disable Two-Factor Intent ---
+  if (intent === "disableTwoFactor") {
+    const result = await disableTwoFactor(user, String(formData.get("code") ?? ""), request);
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+    return json({ intent, message: "Two-factor authentication is off." });
+  }
+
+  // --- Sign Out Session Intent ---
+  if (intent === "signOutSession") {
+    const sessionId = String(formData.get("sessionId") ?? "");
+    if (!(await revokeUserSession(user.id, sessionId))) {
+      return json({ intent, error: "That device is already signed out." }, { status: 404 });
+    }
+    if (sessionId === session.id) {
+      return redirect("/login", { headers: { "Set-Cookie": await destroySession(session) } });
+    }
+    return json({ intent, message: "Device signed out." });
+  }
+
+  // --- Sign Out Everywhere Intent ---
+  if (intent === "signOutEverywhere") {
+    await revokeAllUserSessions(user.id);
+    return redirect("/login", { headers: { "Set-Cookie": await destroySession(session) } });
+  }
+
+  return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+const inputClassName =
+  "mt-1 block w-40 rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm";
+
+export default function AccountPage() {
+  const { user, twoFactor, sessions } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  // Only returned right after they were created
+  const recoveryCodes = actionData && "recoveryCodes" in actionData ? (actionData.recoveryCodes as string[]) : null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Account</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{user.name ? `${user.name} · ${user.email}` : user.email}</p>
+      </div>
+
+      {actionData && "error" in actionData && (
+        <div className="rounded-md bg-red-50 p-4 dark:bg-red-900">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{actionData.error}</p>
+        </div>
+      )}
+      {actionData && "message" in actionData && (
+        <div className="rounded-md bg-green-50 p-4 dark:bg-green-900">
+          <p className="text-sm font-medium text-green-800 dark:text-green-200">{actionData.message}</p>
+        </div>
+      )}
+
+      {twoFactor.requiredBy.length > 0 && !twoFactor.enabled && (
+        <div className="rounded-md bg-yellow-50 p-4 dark:bg-yellow-900/30">
+          <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+            {twoFactor.requiredBy.join(", ")} requires admins to use two-factor authentication. Set it up below to continue working there.
+          </p>
+        </div>
+      )}
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <h2 className="mb-2 text-lg font-semibold text-gray-900 dark:text-white">Two-factor authentication</h2>
+        {recoveryCodes && (
+          <div className="mb-4 rounded-md border border-gray-200 p-4 dark:border-gray-700">
+            <p className="mb-2 text-sm text-gray-700 dark:text-gray-300">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-1 font-mono text-sm text-gray-900 dark:text-white">
+              {recoveryCodes.map((code) => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {twoFactor.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              On. Signing in asks for a code from your authenticator app. {twoFactor.unusedRecoveryCodes} unused recovery {twoFactor.unusedRecoveryCodes === 1 ? 'code' : 'codes'} left.
+            </p>
+            <Form method="post" className="flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Current code</label>
+                <input id="twoFactorCode" name="code" type="text" required autoComplete="one-time-code" className={inputClassName} />
+              </div>
+              <button type="submit" name="intent" value="regenerateRecoveryCodes" disabled={isSubmitting} className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700">
+                New recovery codes
+              </button>
+              {twoFactor.requiredBy.length === 0 && (
+                <button type="submit" name="intent" value="disableTwoFactor" disabled={isSubmitting} className="rounded-md px-3 py-2 text-sm text-red-600 hover:text-red-900 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300">
+                  Turn off
+                </button>
+              )}
+            </Form>
+          </div>
+        ) : twoFactor.setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Scan the QR code with an authenticator app, or enter the key by hand, then type the code the app shows.
+            </p>
+            <div className="flex flex-wrap items-center gap-6">
+              <img src={twoFactor.setup.qrCodeDataUrl} alt="QR code for your authenticator app" width={200} height={200} className="rounded bg-white" />
+              <code className="break-all text-sm text-gray-900 dark:text-white">{twoFactor.setup.secret}</code>
+            </div>
+            <Form method="post" className="flex flex-wrap items-end gap-3">
+              <input type="hidden" name="intent" value="confirmTwoFactorSetup" />
+              <div>
+                <label htmlFor="setupCode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Code from the app</label>
+                <input id="setupCode" name="code" type="text" inputMode="numeric" required autoComplete="one-time-code" className={inputClassName} />
+              </div>
+              <button type="submit" disabled={isSubmitting} className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50">
+                Turn On
+              </button>
+            </Form>
+            <Form method="post">
+              <input type="hidden" name="intent" value="cancelTwoFactorSetup" />
+              <button type="submit" disabled={isSubmitting} className="text-sm text-gray-500 hover:underline disabled:opacity-50 dark:text-gray-400">Cancel</button>
+            </Form>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Off. Add a code from an authenticator app to each sign-in, so a stolen password isn&apos;t enough.
+            </p>
+            <Form method="post">
+              <input type="hidden" name="intent" value="startTwoFactorSetup" />
+              <button type="submit" disabled={isSubmitting} className="whitespace-nowrap rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50">
+                Set Up
+              </button>
+            </Form>
+          </div>
+        )}
+      </div>
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Signed-in devices</h2>
+          <Form
+            method="post"
+            onSubmit={(e) => {
+              if (!confirm('Sign out on every device, including this one?')) e.preventDefault();
+            }}
+          >
+            <input type="hidden" name="intent" value="signOutEverywhere" />
+            <button type="submit" disabled={isSubmitting} className="text-sm text-red-600 hover:text-red-900 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300">
+              Sign out everywhere
+            </button>
+          </Form>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200 text-sm dark:divide-gray-700">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-300">
+              <th className="py-2">Device</th>
+              <th className="py-2">IP address</th>
+              <th className="py-2">Last active</th>
+              <th className="py-2"><span className="sr-only">Actions</span></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sessions.map((userSession) => (
+              <tr key={userSession.id} className="text-gray-700 dark:text-gray-300">
+                <td className="py-2">
+                  {userSession.device}
+                  {userSession.current && (
+                    <span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900 dark:text-green-200">This device</span>
+                  )}
+                </td>
+                <td className="py-2">{userSession.ipAddress || '-'}</td>
+                <td className="whitespace-nowrap py-2">{userSession.lastSeen}</td>
+                <td className="py-2 text-right">
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="signOutSession" />
+                    <input type="hidden" name="sessionId" value={userSession.id} />
+                    <button type="submit" disabled={isSubmitting} className="text-red-600 hover:text-red-900 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300">
+                      Sign out
+                    </button>
+                  </Form>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation, useRevalidator } from "@remix-run/react";
+import { useEffect } from "react";
+import invariant from "tiny-invariant";
+import { format } from "date-fns";
+import type { FaceMatchingTaskStatus } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { checkEventAccess } from "~/utils/events.server";
+import { can } from "~/utils/permissions";
+import {
+  cancelFaceMatchingTask,
+  listFaceMatchingTasks,
+  retryFaceMatchingTask,
+} from "~/services/face-matching/tasks.server";
+
+// How often the page reloads task status while a task is queued or running
+const POLL_INTERVAL_MS = 3000;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: `Face Matching - ${data?.eventName ?? "Event"}` }];
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  invariant(params.eventId, "Missing eventId param");
+
+  const access = await checkEventAccess(request, user.id, params.eventId);
+  if (!access.ok) {
+    throw new Response(access.error, { status: access.status });
+  }
+
+  const event = await prisma.event.findUnique({
+    where: { id: params.eventId },
+    select: { name: true },
+  });
+
+  const now = Date.now();
+  const tasks = (await listFaceMatchingTasks(params.eventId)).map((task) => {
+    // Running tasks show elapsed time so far
+    const end = task.completionTime?.getTime() ?? (task.status === "PROCESSING" ? now : null);
+    return {
+      ...task,
+      createdAtFormatted: format(task.createdAt, "PPpp"),
+      duration: task.startTime && end ? formatDuration(end - task.startTime.getTime()) : null,
+    };
+  });
+
+  return json({
+    eventName: event?.name ?? "Event",
+    tasks,
+    hasActiveTask: tasks.some((task) => task.status === "PENDING" || task.status === "PROCESSING"),
+    canManage: can(access.role, "faceMatching:manage"),
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  invariant(params.eventId, "Missing eventId param");
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const taskId = String(formData.get("taskId") ?? "");
+
+  const access = await checkEventAccess(request, user.id, params.eventId);
+  if (!access.ok) {
+    return json({ intent, error: access.error }, { status: access.status });
+  }
+
+  if (!can(access.role, "faceMatching:manage")) {
+    return json({ intent, error: "Only organization admins can manage face matching tasks." }, { status: 403 });
+  }
+
+  // --- Cancel Task Intent ---
+  if (intent === "cancelTask") {
+    const cancelled = await cancelFaceMatchingTask(params.eventId, taskId);
+    if (!cancelled) {
+        return json({ intent, error: "Only tasks that haven't started yet can be cancelled." }, { status: 409 });
+    }
+    return json({ intent, message: "Task cancelled." });
+  }
+
+  // --- Retry Task Intent ---
+  if (intent === "retryTask") {
+    const error = await retryFaceMatchingTask(params.eventId, taskId);
+    if (error) {
+        return json({ intent, error }, { status: 409 });
+    }
+    return json({ intent, message: "Task queued again." });
+  }
+
+  return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+const STATUS_STYLES: Record<FaceMatchingTaskStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100",
+  PROCESSING: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100",
+  COMPLETED: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+  FAILED: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100",
+  CANCELLED: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+};
+
+export default function FaceMatchingTasksPage() {
+  const { eventName, tasks, hasActiveTask, canManage } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const revalidator = useRevalidator();
+
+  // Poll for updates while a task is queued or running
+  useEffect(() => {
+    if (!hasActiveTask) return;
+    const interval = setInterval(() => {
+      if (revalidator.state === "idle" && document.visibilityState === "visible") {
+        revalidator.revalidate();
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveTask, revalidator]);
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Face Matching: {eventName}</h1>
+        <Link to=".." relative="path" className="text-sm text-indigo-600 hover:underline dark:text-indigo-400">
+          &larr; Back to Event
+        </Link>
+      </div>
+
+      {actionData && "error" in actionData && (
+        <p className="mb-4 text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
+      )}
+      {actionData && "message" in actionData && (
+        <p className="mb-4 text-sm text-green-600 dark:text-green-400">{actionData.message}</p>
+      )}
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Tasks ({tasks.length})</h2>
+          {hasActiveTask && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">Updating automatically…</span>
+          )}
+        </div>
+
+        {tasks.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Queued</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Status</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Type</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Processed</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Duration</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Details</th>
+                  {canManage && (
+                    <th scope="col" className="relative px-6 py-3">
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white dark:divide-gray-700 dark:bg-gray-800">
+                {tasks.map((task) => (
+                  <tr key={task.id}>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900 dark:text-white">{task.createdAtFormatted}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                      <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${STATUS_STYLES[task.status]}`}>
+                        {task.status}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{task.fullRun ? 'Full re-run' : 'Incremental'}</td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500 dark:text-gray-300">
+                      {task._count.photos} photos, {task._count.participants} participants
+                    </td>
+                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{task.duration ?? '-'}</td>
+                    <td className="px-6 py-4 text-sm text-red-600 dark:text-red-400">{task.errorDetails}</td>
+                    {canManage && (
+                      <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                        {task.status === "PENDING" && (
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="cancelTask" />
+                            <input type="hidden" name="taskId" value={task.id} />
+                            <button type="submit" disabled={navigation.state === "submitting"} className="text-red-600 hover:text-red-900 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300">
+                              Cancel
+                            </button>
+                          </Form>
+                        )}
+                        {(task.status === "FAILED" || task.status === "CANCELLED") && (
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="retryTask" />
+                            <input type="hidden" name="taskId" value={task.id} />
+                            <button type="submit" disabled={navigation.state === "submitting" || hasActiveTask} className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50 dark:text-indigo-400 dark:hover:text-indigo-300">
+                              Retry
+                            </button>
+                          </Form>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="py-4 text-center text-gray-500 dark:text-gray-400">No face matching tasks have been run for this event yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
+import invariant from "tiny-invariant";
+import { z } from "zod";
+import type { MatchStatus } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { checkEventAccess } from "~/utils/events.server";
+import { can } from "~/utils/permissions";
+import {
+  getPhotoForTagging,
+  listMatchesForReview,
+  reviewMatches,
+  setAutoAcceptThreshold,
+  tagDetectedFace,
+} from "~/services/matches.server";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: `Review Matches - ${data?.event.name ?? "Event"}` }];
+};
+
+const STATUS_TABS: { status: MatchStatus; label: string }[] = [
+  { status: "SUGGESTED", label: "To Review" },
+  { status: "CONFIRMED", label: "Confirmed" },
+  { status: "REJECTED", label: "Rejected" },
+];
+
+const BoundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+const ThresholdSchema = z.union([
+  z.literal("").transform(() => null),
+  z.coerce.number().min(0.5, "Threshold must be between 0.5 and 1.").max(1, "Threshold must be between 0.5 and 1."),
+]);
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  invariant(params.eventId, "Missing eventId param");
+
+  const access = await checkEventAccess(request, user.id, params.eventId);
+  if (!access.ok) {
+    throw new Response(access.error, { status: access.status });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const status = STATUS_TABS.find((tab) => tab.status === searchParams.get("status"))?.status ?? "SUGGESTED";
+  const photoId = searchParams.get("photo");
+
+  const [event, groups, statusCounts, participants, photo] = await Promise.all([
+    prisma.event.findUniqueOrThrow({
+      where: { id: params.eventId },
+      select: { name: true, autoAcceptThreshold: true },
+    }),
+    listMatchesForReview(params.eventId, status),
+    prisma.photoParticipantMatch.groupBy({
+      by: ["status"],
+      where: { photo: { eventId: params.eventId } },
+      _count: { _all: true },
+    }),
+    prisma.participant.findMany({
+      where: { eventId: params.eventId },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, name: true, email: true },
+    }),
+    photoId ? getPhotoForTagging(params.eventId, photoId) : null,
+  ]);
+
+  const counts = Object.fromEntries(statusCounts.map((group) => [group.status, group._count._all]));
+
+  // Faces with an unreadable bounding box can't be drawn; they're listed without one
+  const taggingPhoto = photo && {
+    id: photo.id,
+    url: photo.webUrl ?? photo.imageUrl,
+    faces: photo.detectedFaces.map((face) => {
+      const box = BoundingBoxSchema.safeParse(face.boundingBox);
+      return {
+        id: face.id,
+        boundingBox: box.success ? box.data : null,
+        taggedParticipantId: face.matches.find((match) => match.status === "CONFIRMED")?.participantId ?? null,
+      };
+    }),
+  };
+
+  return json({
+    event,
+    status,
+    groups,
+    counts,
+    participants,
+    taggingPhoto,
+    canReview: can(access.role, "match:review"),
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  invariant(params.eventId, "Missing eventId param");
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  const access = await checkEventAccess(request, user.id, params.eventId);
+  if (!access.ok) {
+    return json({ intent, error: access.error }, { status: access.status });
+  }
+
+  if (!can(access.role, "match:review")) {
+    return json({ intent, error: "Viewers can't review matches." }, { status: 403 });
+  }
+
+  // --- Bulk Confirm / Reject Intents ---
+  if (intent === "confirmMatches" || intent === "rejectMatches") {
+    const matchIds = formData.getAll("matchId").map(String);
+    if (matchIds.length === 0) {
+        return json({ intent, error: "Select at least one photo." }, { status: 400 });
+    }
+    const count = await reviewMatches({
+      eventId: params.eventId,
+      matchIds,
+      status: intent === "confirmMatches" ? "CONFIRMED" : "REJECTED",
+      reviewerId: user.id,
+    });
+    return json({ intent, message: `${count} ${count === 1 ? 'match' : 'matches'} ${intent === "confirmMatches" ? 'confirmed' : 'rejected'}.` });
+  }
+
+  // --- Manual Tag Intent ---
+  if (intent === "tagFace") {
+    const tagged = await tagDetectedFace({
+      eventId: params.eventId,
+      faceId: String(formData.get("faceId") ?? ""),
+      participantId: String(formData.get("participantId") ?? ""),
+      reviewerId: user.id,
+    });
+    if (!tagged) {
+        return json({ intent, error: "Face or participant not found." }, { status: 404 });
+    }
+    return json({ intent, message: "Face tagged." });
+  }
+
+  // --- Auto-Accept Threshold Intent ---
+  if (intent === "updateAutoAccept") {
+    const threshold = ThresholdSchema.safeParse(String(formData.get("autoAcceptThreshold") ?? "").trim());
+    if (!threshold.success) {
+        return json({ intent, error: threshold.error.issues[0]?.message ?? "Invalid threshold." }, { status: 400 });
+    }
+    await setAutoAcceptThreshold(params.eventId, threshold.data);
+    return json({
+      intent,
+      message: threshold.data === null
+        ? "Auto-accept turned off. Unreviewed matches now need review."
+        : `Unreviewed matches scoring ${Math.round(threshold.data * 100)}% or more are now confirmed automatically.`,
+    });
+  }
+
+  return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+// Checks or unchecks every match checkbox in the participant's form
+function toggleAll(form: HTMLFormElement | null, checked: boolean) {
+  form?.querySelectorAll<HTMLInputElement>('input[name="matchId"]').forEach((input) => {
+    input.checked = checked;
+  });
+}
+
+export default function MatchReviewPage() {
+  const { event, status, groups, counts, participants, taggingPhoto, canReview } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const isSubmitting = navigation.state === "submitting";
+
+  // Opens the tagging panel for a photo while keeping the current tab
+  const tagLink = (photoId: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("photo", photoId);
+    return `?${next}`;
+  };
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Review Matches: {event.name}</h1>
+        <Link to=".." relative="path" className="text-sm text-indigo-600 hover:underline dark:text-indigo-400">
+          &larr; Back to Event
+        </Link>
+      </div>
+
+      {actionData && "error" in actionData && (
+        <p className="mb-4 text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
+      )}
+      {actionData && "message" in actionData && (
+        <p className="mb-4 text-sm text-green-600 dark:text-green-400">{actionData.message}</p>
+      )}
+
+      {/* Auto-accept Settings */}
+      {canReview && (
+        <Form method="post" className="mb-6 flex flex-wrap items-end gap-3 rounded bg-white p-4 shadow dark:bg-gray-800">
+          <input type="hidden" name="intent" value="updateAutoAccept" />
+          <div>
+            <label htmlFor="autoAcceptThreshold" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Auto-accept threshold
+            </label>
+            <input
+              type="number"
+              id="autoAcceptThreshold"
+              name="autoAcceptThreshold"
+              min="0.5"
+              max="1"
+              step="0.01"
+              placeholder="Off"
+              defaultValue={event.autoAcceptThreshold ?? ''}
+              className="mt-1 block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Matches scoring at least this (0.5 to 1) are confirmed without review. Leave empty to review every match.
+          </p>
+        </Form>
+      )}
+
+      {/* Manual Tagging Panel */}
+      {taggingPhoto && (
+        <div className="mb-6 rounded bg-white p-6 shadow dark:bg-gray-800">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Tag Faces</h2>
+            <Link to={`?status=${status}`} className="text-sm text-gray-500 hover:underline dark:text-gray-400">Close</Link>
+          </div>
+          <div className="flex flex-col gap-6 md:flex-row">
+            <div className="relative inline-block self-start">
+              <img src={taggingPhoto.url} alt="" className="max-h-[480px] max-w-full rounded" />
+              {taggingPhoto.faces.map((face, index) => face.boundingBox && (
+                <div
+                  key={face.id}
+                  className="absolute border-2 border-yellow-400"
+                  style={{
+                    left: `${face.boundingBox.x * 100}%`,
+                    top: `${face.boundingBox.y * 100}%`,
+                    width: `${face.boundingBox.width * 100}%`,
+                    height: `${face.boundingBox.height * 100}%`,
+                  }}
+                >
+                  <span className="absolute -top-5 left-0 rounded bg-yellow-400 px-1 text-xs font-bold text-gray-900">{index + 1}</span>
+                </div>
+              ))}
+            </div>
+            <ul className="flex-1 space-y-3">
+              {taggingPhoto.faces.length === 0 && (
+                <li className="text-sm text-gray-500 dark:text-gray-400">No faces were detected in this photo. Run face matching first.</li>
+              )}
+              {taggingPhoto.faces.map((face, index) => (
+                <li key={face.id}>
+                  <Form method="post" className="flex items-center gap-2">
+                    <input type="hidden" name="intent" value="tagFace" />
+                    <input type="hidden" name="faceId" value={face.id} />
+                    <span className="w-14 text-sm font-medium text-gray-700 dark:text-gray-300">Face {index + 1}</span>
+                    <select
+                      name="participantId"
+                      defaultValue={face.taggedParticipantId ?? ''}
+                      required
+                      disabled={!canReview}
+                      className="block flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                    >
+                      <option value="" disabled>Select participant…</option>
+                      {participants.map((participant) => (
+                        <option key={participant.id} value={participant.id}>{participant.name || participant.email || participant.id}</option>
+                      ))}
+                    </select>
+                    {canReview && (
+                      <button type="submit" disabled={isSubmitting} className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50">
+                        Tag
+                      </button>
+                    )}
+                  </Form>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Status Tabs */}
+      <div className="mb-4 flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        {STATUS_TABS.map((tab) => (
+          <Link
+            key={tab.status}
+            to={`?status=${tab.status}`}
+            className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${
+              tab.status === status
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+            }`}
+          >
+            {tab.label} ({counts[tab.status] ?? 0})
+          </Link>
+        ))}
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="py-8 text-center text-gray-500 dark:text-gray-400">No matches here.</p>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((participant) => (
+            <Form method="post" key={participant.id} className="rounded bg-white p-6 shadow dark:bg-gray-800">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  {participant.referencePhotoUrl && (
+                    <img src={participant.referencePhotoUrl} alt="" className="h-12 w-12 rounded-full object-cover" />
+                  )}
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{participant.name || participant.email || 'Participant'}</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{participant.matches.length} photos</p>
+                  </div>
+                </div>
+                {canReview && (
+                  <div className="flex items-center gap-2">
+                    <button type="button" onClick={(e) => toggleAll(e.currentTarget.form, true)} className="text-sm text-gray-600 hover:underline dark:text-gray-300">Select all</button>
+                    <button type="button" onClick={(e) => toggleAll(e.currentTarget.form, false)} className="text-sm text-gray-600 hover:underline dark:text-gray-300">None</button>
+                    {status !== "CONFIRMED" && (
+                      <button type="submit" name="intent" value="confirmMatches" disabled={isSubmitting} className="rounded-md bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-500 disabled:opacity-50">
+                        Confirm Selected
+                      </button>
+                    )}
+                    {status !== "REJECTED" && (
+                      <button type="submit" name="intent" value="rejectMatches" disabled={isSubmitting} className="rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-500 disabled:opacity-50">
+                        Reject Selected
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <ul className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-6">
+                {participant.matches.map((match) => (
+                  <li key={match.id} className="relative">
+                    <label className="block cursor-pointer">
+                      {canReview && (
+                        <input type="checkbox" name="matchId" value={match.id} className="absolute left-2 top-2 h-4 w-4 rounded border-gray-300 text-indigo-600" />
+                      )}
+                      <img src={match.photo.thumbnailUrl ?? match.photo.imageUrl} alt="" loading="lazy" className="aspect-square w-full rounded object-cover" />
+                    </label>
+                    <div className="mt-1 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                      <span>
+                        {match.source === "MANUAL"
+                          ? 'Tagged manually'
+                          : match.confidenceScore !== null ? `${Math.round(match.confidenceScore * 100)}%` : '-'}
+                        {match.reviewedAt && match.source !== "MANUAL" && ' · reviewed'}
+                      </span>
+                      <Link to={tagLink(match.photo.id)} className="text-indigo-600 hover:underline dark:text-indigo-400">Faces</Link>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </Form>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
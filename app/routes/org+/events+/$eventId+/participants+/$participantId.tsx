@@ -0,0 +1,232 @@
+import { Form, Link, useActionData, useLoaderData, useNavigation, useParams } from "@remix-run/react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { requireActiveMembership } from "~/utils/organizations.server";
+import { can } from "~/utils/permissions";
+import { listParticipantConsentLogs, requestParticipantConsent } from "~/services/consent.server";
+import { deleteParticipant, requireParticipant } from "~/services/participants.server";
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from "~/services/user-tokens.server";
+
+const CONSENT_TYPE_LABELS: Record<string, string> = {
+    PHOTO_STORAGE: 'Photo storage',
+    FACIAL_RECOGNITION: 'Facial recognition',
+    DATA_SHARING: 'Data sharing',
+};
+
+const MATCH_STATUS_CLASSES: Record<string, string> = {
+    SUGGESTED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100',
+    CONFIRMED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+    invariant(params.participantId, "Missing participantId param");
+
+    const participant = await requireParticipant(request, user.id, params.eventId, params.participantId);
+    const { role } = await requireActiveMembership(request, user.id);
+    const consentLogs = await listParticipantConsentLogs(participant.id);
+
+    // Rejected matches are left out; they aren't the participant's photos
+    const matches = await prisma.photoParticipantMatch.findMany({
+        where: { participantId: participant.id, status: { in: ["SUGGESTED", "CONFIRMED"] } },
+        orderBy: [{ status: 'asc' }, { confidenceScore: { sort: 'desc', nulls: 'last' } }],
+        select: {
+            id: true,
+            status: true,
+            source: true,
+            confidenceScore: true,
+            photo: { select: { id: true, thumbnailUrl: true, imageUrl: true } },
+        },
+    });
+
+    return json({ participant, consentLogs, matches, canEdit: can(role, "participant:manage") });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+    invariant(params.participantId, "Missing participantId param");
+
+    const formData = await request.formData();
+    const intent = formData.get("intent");
+
+    const participant = await requireParticipant(request, user.id, params.eventId, params.participantId, "participant:manage");
+
+    // --- Request Consent Intent ---
+    if (intent === "requestConsent") {
+        if (!(await isEmailVerified(user.id))) {
+            return json({ intent, error: EMAIL_NOT_VERIFIED_MESSAGE }, { status: 403 });
+        }
+        const sent = await requestParticipantConsent(participant.id);
+        if (!sent) {
+            return json({ intent, error: "This participant has no email address." }, { status: 400 });
+        }
+        return json({ intent, message: "Consent request emailed." });
+    }
+
+    // --- Delete Intent ---
+    if (intent === "deleteParticipant") {
+        try {
+            await deleteParticipant(participant);
+        } catch (error) {
+            console.error("Failed to remove participant:", error);
+            return json({ intent, error: "Failed to remove participant. Please try again later." }, { status: 500 });
+        }
+        return redirect(`/org/events/${params.eventId}/participants`);
+    }
+
+    return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+export default function ParticipantDetailPage() {
+    const { participant, consentLogs, matches, canEdit } = useLoaderData<typeof loader>();
+    const actionData = useActionData<typeof action>();
+    const navigation = useNavigation();
+    const params = useParams();
+    const isSubmitting = navigation.state === "submitting";
+
+    return (
+        <div className="space-y-6">
+            <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+                {actionData && "error" in actionData && (
+                    <div className="mb-4 rounded-md bg-red-50 p-4 dark:bg-red-900">
+                        <p className="text-sm font-medium text-red-800 dark:text-red-200">{actionData.error}</p>
+                    </div>
+                )}
+                {actionData && "message" in actionData && (
+                    <div className="mb-4 rounded-md bg-green-50 p-4 dark:bg-green-900">
+                        <p className="text-sm font-medium text-green-800 dark:text-green-200">{actionData.message}</p>
+                    </div>
+                )}
+
+                <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                        {participant.referencePhotoUrl ? (
+                            <img src={participant.referencePhotoUrl} alt="" className="h-20 w-20 rounded-full object-cover" />
+                        ) : (
+                            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-gray-100 text-xs text-gray-400 dark:bg-gray-700">
+                                No photo
+                            </div>
+                        )}
+                        <div>
+                            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{participant.name || 'N/A'}</h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-300">{participant.email || '-'}</p>
+                            <p className="text-sm text-gray-500 dark:text-gray-300">
+                                {participant.registrationStatus || 'Unknown'} &middot; Added {new Date(participant.createdAt).toLocaleDateString()}
+                            </p>
+                        </div>
+                    </div>
+                    {canEdit && (
+                        <div className="flex shrink-0 items-center gap-2">
+                            <Link
+                                to={`/org/events/${params.eventId}/participants/${participant.id}/reference-photo`}
+                                className="rounded border border-gray-300 bg-white px-3 py-1.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                            >
+                                Reference Photo
+                            </Link>
+                            <Link
+                                to={`/org/events/${params.eventId}/participants/${participant.id}/edit`}
+                                className="rounded bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+                            >
+                                Edit
+                            </Link>
+                            <Form
+                                method="post"
+                                onSubmit={(e) => { if (!confirm("Remove this participant? Their matches and reference photo will be deleted.")) e.preventDefault(); }}
+                            >
+                                <input type="hidden" name="intent" value="deleteParticipant" />
+                                <button
+                                    type="submit"
+                                    disabled={isSubmitting}
+                                    className="rounded border border-red-300 bg-white px-3 py-1.5 text-sm font-semibold text-red-600 shadow-sm hover:bg-red-50 disabled:opacity-50 dark:border-red-700 dark:bg-gray-700 dark:text-red-400"
+                                >
+                                    Remove
+                                </button>
+                            </Form>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+                <div className="mb-3 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Consent History</h3>
+                    {canEdit && participant.email && (
+                        <Form method="post">
+                            <input type="hidden" name="intent" value="requestConsent" />
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="text-sm font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50 dark:text-indigo-400 dark:hover:text-indigo-300"
+                            >
+                                Email Consent Request
+                            </button>
+                        </Form>
+                    )}
+                </div>
+                {consentLogs.length > 0 ? (
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {consentLogs.map((log) => (
+                            <li key={log.id} className="flex items-center justify-between py-2 text-sm">
+                                <span className="text-gray-900 dark:text-white">
+                                    {CONSENT_TYPE_LABELS[log.type] ?? log.type}:{' '}
+                                    <span className={log.status === 'GRANTED' ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                        {log.status.toLowerCase()}
+                                    </span>
+                                    {log.details && <span className="ml-2 text-gray-500 dark:text-gray-400">{log.details}</span>}
+                                    {log.policyVersion && <span className="ml-2 text-xs text-gray-400">policy v{log.policyVersion}</span>}
+                                    {log.ipAddress && <span className="ml-2 text-xs text-gray-400">from {log.ipAddress}</span>}
+                                </span>
+                                <span className="text-gray-500 dark:text-gray-400">{new Date(log.timestamp).toLocaleString()}</span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No consent has been recorded for this participant.</p>
+                )}
+            </div>
+
+            <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+                <div className="mb-3 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Matched Photos ({matches.length})</h3>
+                    <Link
+                        to={`/org/events/${params.eventId}/matches`}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+                    >
+                        Review Matches
+                    </Link>
+                </div>
+                {matches.length > 0 ? (
+                    <div className="grid grid-cols-3 gap-3 sm:grid-cols-4 lg:grid-cols-6">
+                        {matches.map((match) => (
+                            <div key={match.id}>
+                                <img src={match.photo.thumbnailUrl ?? match.photo.imageUrl} alt="" loading="lazy" className="aspect-square w-full rounded object-cover" />
+                                <div className="mt-1 flex items-center justify-between text-xs">
+                                    <span className={`inline-flex rounded-full px-2 font-semibold leading-5 ${MATCH_STATUS_CLASSES[match.status]}`}>
+                                        {match.status.toLowerCase()}
+                                    </span>
+                                    <span className="text-gray-500 dark:text-gray-400">
+                                        {match.confidenceScore !== null ? `${Math.round(match.confidenceScore * 100)}%` : match.source.toLowerCase()}
+                                    </span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No photos have been matched to this participant yet.</p>
+                )}
+            </div>
+
+            <Link
+                to={`/org/events/${params.eventId}/participants`}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+            >
+                &larr; Back to Participants
+            </Link>
+        </div>
+    );
+}
@@ -0,0 +1,152 @@
+import { Form, Link, useActionData, useLoaderData, useNavigation, useParams } from "@remix-run/react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { isParticipantEmailTaken, ParticipantSchema, requireParticipant } from "~/services/participants.server";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+    invariant(params.participantId, "Missing participantId param");
+
+    const participant = await requireParticipant(request, user.id, params.eventId, params.participantId, "participant:manage");
+    return json({ participant });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+    invariant(params.participantId, "Missing participantId param");
+
+    const participant = await requireParticipant(request, user.id, params.eventId, params.participantId, "participant:manage");
+
+    const formData = await request.formData();
+    const submission = ParticipantSchema.safeParse(Object.fromEntries(formData));
+
+    if (!submission.success) {
+        return json({ errors: submission.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { name, email, registrationStatus } = submission.data;
+
+    if (await isParticipantEmailTaken(params.eventId, email, participant.id)) {
+        return json({ errors: { email: "A participant with this email already exists for this event." } }, { status: 400 });
+    }
+
+    try {
+        await prisma.participant.update({
+            where: { id: participant.id },
+            data: { name, email, registrationStatus: registrationStatus || null },
+        });
+    } catch (error) {
+        console.error("Failed to update participant:", error);
+        return json({ errors: { form: "Failed to update participant. Please try again later." } }, { status: 500 });
+    }
+
+    return redirect(`/org/events/${params.eventId}/participants/${participant.id}`);
+}
+
+export default function EditParticipantPage() {
+    const { participant } = useLoaderData<typeof loader>();
+    const actionData = useActionData<typeof action>();
+    const navigation = useNavigation();
+    const params = useParams();
+    const isSubmitting = navigation.state === "submitting";
+    const errors: Partial<Record<"form" | "name" | "email" | "registrationStatus", string | string[]>> = actionData?.errors ?? {};
+
+    return (
+        <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+            <h2 className="mb-4 text-xl font-semibold text-gray-900 dark:text-white">Edit Participant</h2>
+
+            {errors.form && (
+                <div className="mb-4 rounded-md bg-red-50 p-4 dark:bg-red-900">
+                    <p className="text-sm font-medium text-red-800 dark:text-red-200">{errors.form}</p>
+                </div>
+            )}
+
+            <Form method="post">
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Full Name
+                        </label>
+                        <input
+                            type="text"
+                            id="name"
+                            name="name"
+                            required
+                            defaultValue={participant.name ?? ""}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                            aria-invalid={errors.name ? true : undefined}
+                            aria-describedby="name-error"
+                        />
+                        {errors.name && (
+                            <p className="mt-2 text-sm text-red-600 dark:text-red-400" id="name-error">{errors.name}</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Email Address
+                        </label>
+                        <input
+                            type="email"
+                            id="email"
+                            name="email"
+                            required
+                            defaultValue={participant.email ?? ""}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                            aria-invalid={errors.email ? true : undefined}
+                            aria-describedby="email-error"
+                        />
+                        {errors.email && (
+                            <p className="mt-2 text-sm text-red-600 dark:text-red-400" id="email-error">{errors.email}</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label htmlFor="registrationStatus" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Registration Status
+                        </label>
+                        <input
+                            type="text"
+                            id="registrationStatus"
+                            name="registrationStatus"
+                            list="registration-status-options"
+                            defaultValue={participant.registrationStatus ?? ""}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                            aria-invalid={errors.registrationStatus ? true : undefined}
+                            aria-describedby="registrationStatus-error"
+                        />
+                        <datalist id="registration-status-options">
+                            <option value="Invited" />
+                            <option value="Registered" />
+                            <option value="Attended" />
+                        </datalist>
+                        {errors.registrationStatus && (
+                            <p className="mt-2 text-sm text-red-600 dark:text-red-400" id="registrationStatus-error">{errors.registrationStatus}</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="mt-6 flex items-center justify-end space-x-4 border-t border-gray-200 pt-4 dark:border-gray-700">
+                    <Link
+                        to={`/org/events/${params.eventId}/participants/${participant.id}`}
+                        className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                    >
+                        Cancel
+                    </Link>
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+                    >
+                        {isSubmitting ? "Saving..." : "Save Changes"}
+                    </button>
+                </div>
+            </Form>
+        </div>
+    );
+}
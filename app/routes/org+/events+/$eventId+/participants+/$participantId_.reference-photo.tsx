@@ -0,0 +1,157 @@
+import { Form, Link, useActionData, useLoaderData, useNavigation, useParams } from "@remix-run/react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { requireUser } from "~/utils/auth.server";
+import { hasParticipantConsent, recordParticipantConsent } from "~/services/consent.server";
+import { removeReferencePhoto, requireParticipant, setReferencePhoto, validateReferencePhotoFile } from "~/services/participants.server";
+import { ReferencePhotoInput } from "~/components/ReferencePhotoInput";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+    invariant(params.participantId, "Missing participantId param");
+
+    const participant = await requireParticipant(request, user.id, params.eventId, params.participantId, "participant:manage");
+    const hasConsent = await hasParticipantConsent(participant.id, "FACIAL_RECOGNITION");
+
+    return json({ participant, hasConsent });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+    invariant(params.participantId, "Missing participantId param");
+
+    const participant = await requireParticipant(request, user.id, params.eventId, params.participantId, "participant:manage");
+
+    const formData = await request.formData();
+    const intent = formData.get("intent");
+
+    // --- Upload / Replace Intent ---
+    if (intent === "uploadReferencePhoto") {
+        const file = formData.get("referencePhoto");
+        if (!(file instanceof File) || file.size === 0) {
+            return json({ intent, error: "No file selected or file is empty." }, { status: 400 });
+        }
+        const photoError = validateReferencePhotoFile(file);
+        if (photoError) {
+            return json({ intent, error: photoError }, { status: 400 });
+        }
+
+        try {
+            await setReferencePhoto(participant, file);
+            return json({ intent, message: "Reference photo saved. It will be used in the next face matching run." });
+        } catch (error) {
+            console.error("Failed to store reference photo:", error);
+            return json({ intent, error: "Could not read the reference photo. Please upload a JPEG, PNG or WebP image." }, { status: 400 });
+        }
+    }
+
+    // --- Remove Intent ---
+    if (intent === "removeReferencePhoto") {
+        await removeReferencePhoto(participant);
+        return json({ intent, message: "Reference photo removed. The participant's unreviewed matches have been cleared." });
+    }
+
+    // --- Record Consent Intent ---
+    if (intent === "recordConsent") {
+        await recordParticipantConsent({
+            participantId: participant.id,
+            type: "FACIAL_RECOGNITION",
+            status: "GRANTED",
+            details: `Recorded by organizer ${user.id}`,
+        });
+        return json({ intent, message: "Facial recognition consent recorded." });
+    }
+
+    return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+export default function ParticipantReferencePhotoPage() {
+  const { participant, hasConsent } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const params = useParams();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+      <h2 className="mb-1 text-xl font-semibold text-gray-900 dark:text-white">
+        Reference Photo: {participant.name || participant.email || 'Participant'}
+      </h2>
+      <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+        Face matching compares event photos against this photo. Replacing or removing it clears the participant&apos;s unreviewed matches.
+      </p>
+
+      {actionData && "error" in actionData && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 dark:bg-red-900">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{actionData.error}</p>
+        </div>
+      )}
+      {actionData && "message" in actionData && (
+        <div className="mb-4 rounded-md bg-green-50 p-4 dark:bg-green-900">
+          <p className="text-sm font-medium text-green-800 dark:text-green-200">{actionData.message}</p>
+        </div>
+      )}
+
+      {/* Keyed on the stored URL so the preview resets after a successful upload */}
+      <Form method="post" encType="multipart/form-data" key={participant.referencePhotoUrl ?? 'none'}>
+        <input type="hidden" name="intent" value="uploadReferencePhoto" />
+        <ReferencePhotoInput currentUrl={participant.referencePhotoUrl} required />
+        <div className="mt-4 flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {participant.referencePhotoUrl ? 'Replace Photo' : 'Upload Photo'}
+          </button>
+        </div>
+      </Form>
+
+      {participant.referencePhotoUrl && (
+        <Form
+          method="post"
+          className="mt-2 flex justify-end"
+          onSubmit={(e) => { if (!confirm("Remove this reference photo? The participant's unreviewed matches will be cleared.")) e.preventDefault(); }}
+        >
+          <input type="hidden" name="intent" value="removeReferencePhoto" />
+          <button type="submit" disabled={isSubmitting} className="text-sm text-red-600 hover:text-red-900 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300">
+            Remove Photo
+          </button>
+        </Form>
+      )}
+
+      <div className="mt-6 border-t border-gray-200 pt-4 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Facial Recognition Consent</h3>
+        {hasConsent ? (
+          <p className="mt-1 text-sm text-green-700 dark:text-green-400">Granted. This participant can be included in face matching.</p>
+        ) : (
+          <Form method="post" className="mt-1 flex items-center justify-between gap-4">
+            <input type="hidden" name="intent" value="recordConsent" />
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Not recorded. Participants without consent are left out of face matching.
+            </p>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="shrink-0 rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+            >
+              Record Consent
+            </button>
+          </Form>
+        )}
+      </div>
+
+      <div className="mt-6 border-t border-gray-200 pt-4 dark:border-gray-700">
+        <Link
+          to={`/org/events/${params.eventId}/participants`}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+        >
+          &larr; Back to Participants
+        </Link>
+      </div>
+    </div>
+  );
+}
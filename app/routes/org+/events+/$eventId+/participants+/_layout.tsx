@@ -1,6 +1,7 @@
 import { Outlet, Link, useParams, useLoaderData } from "@remix-run/react";
 import { prisma } from "~/db.server";
 import { requireUser } from "~/utils/auth.server";
+import { requireActiveOrgId } from "~/utils/organizations.server";
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import invariant from "tiny-invariant";
@@ -10,20 +11,13 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   const user = await requireUser(request); // Ensure user is logged in
   invariant(params.eventId, "Missing eventId param");
 
-  const orgUser = await prisma.organizationUser.findFirst({
-    where: { userId: user.id },
-    select: { orgId: true },
-  });
-
-  if (!orgUser) {
-    throw new Response("User not associated with an organization", { status: 403 });
-  }
+  const orgId = await requireActiveOrgId(request, user.id);
 
   // Fetch the actual event name, ensuring it belongs to the user's org
   const event = await prisma.event.findFirst({
     where: {
         id: params.eventId,
-        orgId: orgUser.orgId
+        orgId
     },
     select: { name: true }
   });
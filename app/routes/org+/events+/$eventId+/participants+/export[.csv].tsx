@@ -0,0 +1,48 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { checkEventAccess } from "~/utils/events.server";
+import { getParticipantsWithConsent } from "~/services/consent.server";
+import { stringifyCsv } from "~/utils/csv";
+
+/**
+ * Resource route downloading the event's participant list as CSV. The
+ * name/email/registration_status columns can be imported again as-is.
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+
+    const access = await checkEventAccess(request, user.id, params.eventId);
+    if (!access.ok) {
+        throw new Response(access.error, { status: access.status });
+    }
+
+    const participants = await prisma.participant.findMany({
+        where: { eventId: params.eventId },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, name: true, email: true, registrationStatus: true, referencePhotoUrl: true, createdAt: true },
+    });
+    const consented = await getParticipantsWithConsent(participants.map((participant) => participant.id), "FACIAL_RECOGNITION");
+
+    const csv = stringifyCsv([
+        ["name", "email", "registration_status", "facial_recognition_consent", "reference_photo", "added_at"],
+        ...participants.map((participant) => [
+            participant.name,
+            participant.email,
+            participant.registrationStatus,
+            consented.has(participant.id) ? "yes" : "no",
+            participant.referencePhotoUrl ? "yes" : "no",
+            participant.createdAt.toISOString(),
+        ]),
+    ]);
+
+    return new Response(csv, {
+        headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="participants-${params.eventId}.csv"`,
+            "Cache-Control": "private, no-store",
+        },
+    });
+}
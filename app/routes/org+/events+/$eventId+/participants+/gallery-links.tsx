@@ -0,0 +1,47 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { requireUser } from "~/utils/auth.server";
+import { checkEventAccess } from "~/utils/events.server";
+import { can } from "~/utils/permissions";
+import { createGalleryLinks, emailGalleryLinks } from "~/services/gallery.server";
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from "~/services/user-tokens.server";
+
+/**
+ * Resource route issuing personal gallery links, used by the participants list.
+ *
+ *   POST participantId=...   -> link for one participant (repeat for several)
+ *   POST all=1               -> links for every participant of the event
+ *   ...&send=1               -> email the links instead of returning them
+ */
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  invariant(params.eventId, "Missing eventId param");
+
+  const access = await checkEventAccess(request, user.id, params.eventId);
+  if (!access.ok) {
+    return json({ error: access.error }, { status: access.status });
+  }
+
+  if (!can(access.role, "participant:manage")) {
+    return json({ error: "Viewers can't share gallery links." }, { status: 403 });
+  }
+
+  if (!(await isEmailVerified(user.id))) {
+    return json({ error: EMAIL_NOT_VERIFIED_MESSAGE }, { status: 403 });
+  }
+
+  const formData = await request.formData();
+  const participantIds = formData.get("all") === "1" ? "all" : formData.getAll("participantId").map(String);
+  if (participantIds.length === 0) {
+    return json({ error: "No participants selected." }, { status: 400 });
+  }
+
+  if (formData.get("send") === "1") {
+    const queued = await emailGalleryLinks(params.eventId, participantIds);
+    return json({ message: `${queued} gallery ${queued === 1 ? 'email' : 'emails'} queued.` });
+  }
+
+  const links = await createGalleryLinks(params.eventId, participantIds);
+  return json({ links });
+}
@@ -0,0 +1,290 @@
+import { Form, Link, useActionData, useNavigation, useParams } from "@remix-run/react";
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { requireUser } from "~/utils/auth.server";
+import { checkEventAccess } from "~/utils/events.server";
+import { can } from "~/utils/permissions";
+import type { ColumnMapping } from "~/services/participant-import.server";
+import {
+    commitParticipantImport,
+    IMPORT_FIELDS,
+    MAX_IMPORT_BYTES,
+    previewParticipantImport,
+} from "~/services/participant-import.server";
+import { sendParticipantInvite } from "~/services/participants.server";
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from "~/services/user-tokens.server";
+
+const FIELD_LABELS: Record<(typeof IMPORT_FIELDS)[number], string> = {
+    name: 'Name',
+    email: 'Email',
+    registrationStatus: 'Registration Status',
+};
+
+const ROW_STATUS_CLASSES: Record<string, string> = {
+    NEW: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+    DUPLICATE: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100',
+    INVALID: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
+};
+
+// Column choices sent back from the preview form; undefined on the first preview
+function parseMapping(formData: FormData): ColumnMapping | undefined {
+    if (!formData.has("map_name")) return undefined;
+    const mapping = {} as ColumnMapping;
+    for (const field of IMPORT_FIELDS) {
+        const value = Number.parseInt(String(formData.get(`map_${field}`) ?? ""), 10);
+        mapping[field] = Number.isNaN(value) ? null : value;
+    }
+    return mapping;
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+    const user = await requireUser(request);
+    invariant(params.eventId, "Missing eventId param");
+
+    const access = await checkEventAccess(request, user.id, params.eventId);
+    if (!access.ok) {
+        return json({ intent: null, error: access.error }, { status: access.status });
+    }
+
+    if (!can(access.role, "participant:manage")) {
+        return json({ intent: null, error: "Viewers can't import participants." }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const intent = formData.get("intent");
+
+    // The uploaded file on the first preview, afterwards the text echoed back by the form
+    let csv = String(formData.get("csv") ?? "");
+    const file = formData.get("file");
+    if (file instanceof File && file.size > 0) {
+        if (file.size > MAX_IMPORT_BYTES) {
+            return json({ intent, error: `File is too large (max ${MAX_IMPORT_BYTES / 1024 / 1024}MB).` }, { status: 400 });
+        }
+        csv = await file.text();
+    }
+    if (!csv.trim()) {
+        return json({ intent, error: "Choose a CSV file or paste the participant list." }, { status: 400 });
+    }
+    if (csv.length > MAX_IMPORT_BYTES) {
+        return json({ intent, error: `Import is too large (max ${MAX_IMPORT_BYTES / 1024 / 1024}MB).` }, { status: 400 });
+    }
+
+    // Always validate again on the server, the list may have changed since the preview
+    const preview = await previewParticipantImport(params.eventId, csv, parseMapping(formData));
+    if (!preview.ok) {
+        return json({ intent, error: preview.error }, { status: 400 });
+    }
+
+    // --- Preview Intent ---
+    if (intent === "preview") {
+        return json({ intent, csv, ...preview });
+    }
+
+    // --- Import Intent ---
+    if (intent === "import") {
+        if (preview.mapping.name === null || preview.mapping.email === null) {
+            return json({ intent, error: "Choose the name and email columns before importing." }, { status: 400 });
+        }
+        if (!preview.rows.some((row) => row.status === "NEW")) {
+            return json({ intent, error: "There are no new participants to import." }, { status: 400 });
+        }
+        const sendInvites = formData.get("sendInvites") === "on";
+        if (sendInvites && !(await isEmailVerified(user.id))) {
+            return json({ intent, error: EMAIL_NOT_VERIFIED_MESSAGE }, { status: 403 });
+        }
+
+        try {
+            const createdIds = await commitParticipantImport(params.eventId, preview.rows);
+            if (sendInvites) {
+                for (const participantId of createdIds) {
+                    await sendParticipantInvite(participantId);
+                }
+            }
+        } catch (error) {
+            console.error("Failed to import participants:", error);
+            return json({ intent, error: "Import failed, no participants were added. Please try again." }, { status: 500 });
+        }
+
+        return redirect(`/org/events/${params.eventId}/participants`);
+    }
+
+    return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+export default function ImportParticipantsPage() {
+    const params = useParams();
+    const actionData = useActionData<typeof action>();
+    const navigation = useNavigation();
+    const isSubmitting = navigation.state === "submitting";
+    const preview = actionData && "rows" in actionData ? actionData : null;
+    const counts = preview
+        ? {
+              NEW: preview.rows.filter((row) => row.status === "NEW").length,
+              DUPLICATE: preview.rows.filter((row) => row.status === "DUPLICATE").length,
+              INVALID: preview.rows.filter((row) => row.status === "INVALID").length,
+          }
+        : null;
+
+    return (
+        <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+            <h2 className="mb-2 text-xl font-semibold text-gray-900 dark:text-white">Import Participants</h2>
+            <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+                Upload a CSV with a header row containing name, email and (optionally) registration status columns.
+                Spreadsheets (XLSX) can be saved as CSV first. Nothing is added until you confirm the preview.
+            </p>
+
+            {actionData && "error" in actionData && (
+                <div className="mb-4 rounded-md bg-red-50 p-4 dark:bg-red-900">
+                    <p className="text-sm font-medium text-red-800 dark:text-red-200">{actionData.error}</p>
+                </div>
+            )}
+
+            {!preview ? (
+                <Form method="post" encType="multipart/form-data" className="space-y-4">
+                    <div>
+                        <label htmlFor="file" className="block text-sm font-medium text-gray-700 dark:text-gray-300">CSV File</label>
+                        <input
+                            type="file"
+                            id="file"
+                            name="file"
+                            accept=".csv,text/csv,text/plain"
+                            className="mt-1 block w-full text-sm text-gray-900 file:mr-4 file:rounded-md file:border-0 file:bg-indigo-50 file:px-4 file:py-2 file:text-sm file:font-semibold file:text-indigo-700 hover:file:bg-indigo-100 dark:text-gray-300"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="csv" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Or paste the list</label>
+                        <textarea
+                            id="csv"
+                            name="csv"
+                            rows={6}
+                            placeholder={"name,email,registration status\nJane Doe,jane@example.com,Registered"}
+                            className="mt-1 block w-full rounded-md border-gray-300 font-mono text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                        />
+                    </div>
+                    <div className="flex items-center justify-end space-x-4 border-t border-gray-200 pt-4 dark:border-gray-700">
+                        <Link
+                            to={`/org/events/${params.eventId}/participants`}
+                            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            Cancel
+                        </Link>
+                        <button
+                            type="submit"
+                            name="intent"
+                            value="preview"
+                            disabled={isSubmitting}
+                            className="rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {isSubmitting ? "Reading..." : "Preview Import"}
+                        </button>
+                    </div>
+                </Form>
+            ) : (
+                <Form method="post" className="space-y-4">
+                    <input type="hidden" name="csv" value={preview.csv} />
+
+                    {/* Column mapping; changing it and previewing again re-validates every row */}
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                        {IMPORT_FIELDS.map((field) => (
+                            <div key={field}>
+                                <label htmlFor={`map_${field}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                                    {FIELD_LABELS[field]} column
+                                </label>
+                                <select
+                                    id={`map_${field}`}
+                                    name={`map_${field}`}
+                                    defaultValue={preview.mapping[field] ?? ""}
+                                    className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                                >
+                                    <option value="">(none)</option>
+                                    {preview.headers.map((header, index) => (
+                                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+
+                    {counts && (
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                            {counts.NEW} new, {counts.DUPLICATE} duplicate, {counts.INVALID} invalid. Only new rows will be imported.
+                        </p>
+                    )}
+
+                    <div className="max-h-96 overflow-auto">
+                        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                            <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700">
+                                <tr>
+                                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Line</th>
+                                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Name</th>
+                                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Email</th>
+                                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Registration Status</th>
+                                    <th scope="col" className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 bg-white dark:divide-gray-700 dark:bg-gray-800">
+                                {preview.rows.map((row) => (
+                                    <tr key={row.line}>
+                                        <td className="whitespace-nowrap px-4 py-2 text-sm text-gray-500 dark:text-gray-400">{row.line}</td>
+                                        <td className="whitespace-nowrap px-4 py-2 text-sm text-gray-900 dark:text-white">{row.name || '-'}</td>
+                                        <td className="whitespace-nowrap px-4 py-2 text-sm text-gray-500 dark:text-gray-300">{row.email || '-'}</td>
+                                        <td className="whitespace-nowrap px-4 py-2 text-sm text-gray-500 dark:text-gray-300">{row.registrationStatus}</td>
+                                        <td className="px-4 py-2 text-sm">
+                                            <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${ROW_STATUS_CLASSES[row.status]}`}>
+                                                {row.status.toLowerCase()}
+                                            </span>
+                                            {row.errors.length > 0 && (
+                                                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{row.errors.join(" ")}</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            id="sendInvites"
+                            name="sendInvites"
+                            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <label htmlFor="sendInvites" className="text-sm text-gray-700 dark:text-gray-300">
+                            Email an invitation to each imported participant
+                        </label>
+                    </div>
+
+                    <div className="flex items-center justify-end space-x-4 border-t border-gray-200 pt-4 dark:border-gray-700">
+                        <Link
+                            to={`/org/events/${params.eventId}/participants/import`}
+                            reloadDocument
+                            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            Start Over
+                        </Link>
+                        <button
+                            type="submit"
+                            name="intent"
+                            value="preview"
+                            disabled={isSubmitting}
+                            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            Update Preview
+                        </button>
+                        <button
+                            type="submit"
+                            name="intent"
+                            value="import"
+                            disabled={isSubmitting || counts?.NEW === 0}
+                            className="rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {isSubmitting ? "Importing..." : `Import ${counts?.NEW ?? 0} Participants`}
+                        </button>
+                    </div>
+                </Form>
+            )}
+        </div>
+    );
+}
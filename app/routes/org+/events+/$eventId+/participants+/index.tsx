@@ -1,28 +1,47 @@
-import { Link, useParams, useLoaderData } from "@remix-run/react";
+import { Form, Link, useFetcher, useParams, useLoaderData } from "@remix-run/react";
+import { useEffect, useState } from "react";
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { prisma } from "~/db.server";
 import { requireUser } from "~/utils/auth.server";
+import { requireActiveMembership } from "~/utils/organizations.server";
+import { can } from "~/utils/permissions";
 import invariant from "tiny-invariant";
-import type { Participant } from "@prisma/client"; // Import Participant type
+import type { MatchingReadiness } from "~/services/participants.server";
+import { getMatchingReadiness } from "~/services/participants.server";
+import type { GalleryLink } from "~/components/GalleryLinksPanel";
+import { GalleryLinksPanel } from "~/components/GalleryLinksPanel";
+import { getLatestNotificationsByParticipant } from "~/services/mail/outbox.server";
+
+const EMAIL_TEMPLATE_LABELS: Record<string, string> = {
+    invite: 'Invite',
+    'photos-ready': 'Photos ready',
+    'consent-request': 'Consent request',
+};
+
+const EMAIL_STATUS_CLASSES: Record<string, string> = {
+    PENDING: 'text-yellow-700 dark:text-yellow-300',
+    SENDING: 'text-yellow-700 dark:text-yellow-300',
+    SENT: 'text-green-700 dark:text-green-400',
+    FAILED: 'text-red-600 dark:text-red-400',
+};
+
+const READINESS_LABELS: Record<MatchingReadiness, { label: string; className: string }> = {
+    READY: { label: 'Ready', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100' },
+    NO_REFERENCE_PHOTO: { label: 'No reference photo', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100' },
+    NO_CONSENT: { label: 'No consent', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100' },
+};
 
 // Loader to fetch actual participants
 export async function loader({ request, params }: LoaderFunctionArgs) {
     const user = await requireUser(request);
     invariant(params.eventId, "Missing eventId param");
 
-     const orgUser = await prisma.organizationUser.findFirst({
-        where: { userId: user.id },
-        select: { orgId: true },
-    });
-
-    if (!orgUser) {
-        throw new Response("User not associated with an organization", { status: 403 });
-    }
+    const { orgId, role } = await requireActiveMembership(request, user.id);
 
     // Verify event ownership before fetching participants
     const event = await prisma.event.findFirst({
-        where: { id: params.eventId, orgId: orgUser.orgId },
+        where: { id: params.eventId, orgId },
         select: { id: true },
     });
 
@@ -38,26 +57,102 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
         select: { id: true, name: true, email: true, registrationStatus: true, consentStatus: true }
     });
 
-    return json({ participants });
+    // Whether each participant can be included in face matching
+    const readiness = await getMatchingReadiness(params.eventId);
+    // Delivery status of the last email sent to each participant
+    const notifications = await getLatestNotificationsByParticipant(params.eventId);
+
+    return json({
+        participants: participants.map((participant) => ({
+            ...participant,
+            matchingReadiness: readiness.get(participant.id) ?? 'NO_REFERENCE_PHOTO',
+            lastEmail: notifications.get(participant.id) ?? null,
+        })),
+        canManage: can(role, "participant:manage"),
+    });
 }
 
 
 export default function ParticipantsIndexPage() {
-  const { participants } = useLoaderData<typeof loader>();
+  const { participants, canManage } = useLoaderData<typeof loader>();
   const params = useParams();
+  const linksFetcher = useFetcher<{ links?: GalleryLink[]; message?: string; error?: string }>();
+  const [galleryLinks, setGalleryLinks] = useState<GalleryLink[] | null>(null);
+  const galleryLinksAction = `/org/events/${params.eventId}/participants/gallery-links`;
+
+  // Show the latest batch of issued links
+  useEffect(() => {
+    if (linksFetcher.data?.links) setGalleryLinks(linksFetcher.data.links);
+  }, [linksFetcher.data]);
 
   return (
     <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
         <div className="mb-4 flex items-center justify-between">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Participant List ({participants.length})</h2>
-            <Link
-                to="new"
-                className="rounded bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
-            >
-                Add New Participant
-            </Link>
+            <div className="flex items-center gap-2">
+                {canManage && participants.length > 0 && (
+                    <linksFetcher.Form method="post" action={galleryLinksAction}>
+                        <input type="hidden" name="all" value="1" />
+                        <input type="hidden" name="send" value="1" />
+                        <button
+                            type="submit"
+                            disabled={linksFetcher.state !== "idle"}
+                            className="rounded border border-gray-300 bg-white px-3 py-1.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            Email Gallery Links
+                        </button>
+                    </linksFetcher.Form>
+                )}
+                {canManage && participants.length > 0 && (
+                    <linksFetcher.Form method="post" action={galleryLinksAction}>
+                        <input type="hidden" name="all" value="1" />
+                        <button
+                            type="submit"
+                            disabled={linksFetcher.state !== "idle"}
+                            className="rounded border border-gray-300 bg-white px-3 py-1.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                        >
+                            Gallery Links for All
+                        </button>
+                    </linksFetcher.Form>
+                )}
+                {participants.length > 0 && (
+                    <a
+                        href={`/org/events/${params.eventId}/participants/export.csv`}
+                        download
+                        className="rounded border border-gray-300 bg-white px-3 py-1.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                    >
+                        Export CSV
+                    </a>
+                )}
+                {canManage && (
+                    <>
+                    <Link
+                        to="import"
+                        className="rounded border border-gray-300 bg-white px-3 py-1.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+                    >
+                        Import CSV
+                    </Link>
+                    <Link
+                        to="new"
+                        className="rounded bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+                    >
+                        Add New Participant
+                    </Link>
+                    </>
+                )}
+            </div>
          </div>
 
+        {linksFetcher.data?.error && (
+            <p className="mb-4 text-sm text-red-600 dark:text-red-400">{linksFetcher.data.error}</p>
+        )}
+        {linksFetcher.data?.message && (
+            <p className="mb-4 text-sm text-green-600 dark:text-green-400">{linksFetcher.data.message}</p>
+        )}
+        {galleryLinks && (
+            <GalleryLinksPanel links={galleryLinks} onClose={() => setGalleryLinks(null)} />
+        )}
+
         {participants.length > 0 ? (
             <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -66,14 +161,16 @@ export default function ParticipantsIndexPage() {
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Name</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Email</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Status</th>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Consent</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Photo Consent</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Face Matching</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-300">Last Email</th>
                             <th scope="col" className="relative px-6 py-3">
                                 <span className="sr-only">Actions</span>
                             </th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200 bg-white dark:divide-gray-700 dark:bg-gray-800">
-                        {participants.map((participant: Participant) => ( // Use Participant type
+                        {participants.map((participant) => (
                             <tr key={participant.id}>
                                 <td className="whitespace-nowrap px-6 py-4 text-sm font-medium text-gray-900 dark:text-white">{participant.name || 'N/A'}</td>
                                 <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500 dark:text-gray-300">{participant.email || '-'}</td>
@@ -87,12 +184,48 @@ export default function ParticipantsIndexPage() {
                                         {participant.consentStatus ? 'Granted' : 'Pending/Revoked'}
                                     </span>
                                 </td>
+                                <td className="whitespace-nowrap px-6 py-4 text-sm">
+                                    <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${READINESS_LABELS[participant.matchingReadiness].className}`}>
+                                        {READINESS_LABELS[participant.matchingReadiness].label}
+                                    </span>
+                                </td>
+                                <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500 dark:text-gray-300">
+                                    {participant.lastEmail ? (
+                                        <span title={participant.lastEmail.lastError ?? undefined}>
+                                            {EMAIL_TEMPLATE_LABELS[participant.lastEmail.template] ?? participant.lastEmail.template}:{' '}
+                                            <span className={EMAIL_STATUS_CLASSES[participant.lastEmail.status]}>{participant.lastEmail.status.toLowerCase()}</span>
+                                        </span>
+                                    ) : '-'}
+                                </td>
                                 <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
-                                    {/* TODO: Implement View/Edit/Remove links/actions */}
                                     <Link to={`${participant.id}`} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">View</Link>
-                                    <span className="mx-2 text-gray-300 dark:text-gray-600">|</span>
-                                     {/* TODO: Implement Remove action using Form/Fetcher */}
-                                     <button type="button" className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300">Remove</button>
+                                    {canManage && (
+                                        <>
+                                        <span className="mx-2 text-gray-300 dark:text-gray-600">|</span>
+                                        <Link to={`${participant.id}/edit`} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">Edit</Link>
+                                        <span className="mx-2 text-gray-300 dark:text-gray-600">|</span>
+                                        <Link to={`${participant.id}/reference-photo`} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">Reference Photo</Link>
+                                        <span className="mx-2 text-gray-300 dark:text-gray-600">|</span>
+                                        <button
+                                            type="button"
+                                            disabled={linksFetcher.state !== "idle"}
+                                            onClick={() => linksFetcher.submit({ participantId: participant.id }, { method: "post", action: galleryLinksAction })}
+                                            className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50 dark:text-indigo-400 dark:hover:text-indigo-300"
+                                        >
+                                            Gallery Link
+                                        </button>
+                                        <span className="mx-2 text-gray-300 dark:text-gray-600">|</span>
+                                        <Form
+                                            method="post"
+                                            action={`/org/events/${params.eventId}/participants/${participant.id}`}
+                                            className="inline"
+                                            onSubmit={(e) => { if (!confirm(`Remove ${participant.name || 'this participant'}? Their matches and reference photo will be deleted.`)) e.preventDefault(); }}
+                                        >
+                                            <input type="hidden" name="intent" value="deleteParticipant" />
+                                            <button type="submit" className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300">Remove</button>
+                                        </Form>
+                                        </>
+                                    )}
                                 </td>
                             </tr>
                         ))}
@@ -1,35 +1,25 @@
 import { Form, Link, useParams, useActionData, redirect, useNavigation } from "@remix-run/react";
+import { ReferencePhotoInput } from "~/components/ReferencePhotoInput";
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
 import invariant from "tiny-invariant";
 import { prisma } from "~/db.server"; // Import prisma
-import { z } from "zod"; // For validation
-
-// Schema for validation
-const ParticipantSchema = z.object({
-    name: z.string().min(1, "Name is required"),
-    email: z.string().email("Invalid email format"),
-    // Add other fields as needed (e.g., registrationStatus, consentStatus)
-});
+import { recordParticipantConsent } from "~/services/consent.server";
+import { isParticipantEmailTaken, ParticipantSchema, sendParticipantInvite, setReferencePhoto, validateReferencePhotoFile } from "~/services/participants.server";
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from "~/services/user-tokens.server";
 
 // Action to handle actual participant creation
 export async function action({ request, params }: ActionFunctionArgs) {
     const user = await requireUser(request);
     invariant(params.eventId, "Missing eventId param");
 
-    const orgUser = await prisma.organizationUser.findFirst({
-        where: { userId: user.id },
-        select: { orgId: true },
-    });
-
-    if (!orgUser) {
-        return json({ errors: { form: "User not associated with an organization" } }, { status: 403 });
-    }
+    const { orgId } = await requireOrgPermission(request, user.id, "participant:manage");
 
     // Verify event ownership before adding participant
     const event = await prisma.event.findFirst({
-        where: { id: params.eventId, orgId: orgUser.orgId },
+        where: { id: params.eventId, orgId },
         select: { id: true },
     });
 
@@ -37,6 +27,11 @@ export async function action({ request, params }: ActionFunctionArgs) {
         return json({ errors: { form: "Event not found or access denied" } }, { status: 404 });
     }
 
+    // Adding a participant emails them an invite
+    if (!(await isEmailVerified(user.id))) {
+        return json({ errors: { form: EMAIL_NOT_VERIFIED_MESSAGE } }, { status: 403 });
+    }
+
     const formData = await request.formData();
     const submission = ParticipantSchema.safeParse(Object.fromEntries(formData));
 
@@ -47,21 +42,24 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
     const { name, email } = submission.data;
 
+    // Optional reference selfie for face matching
+    const referencePhoto = formData.get("referencePhoto");
+    const hasReferencePhoto = referencePhoto instanceof File && referencePhoto.size > 0;
+    if (hasReferencePhoto) {
+        const photoError = validateReferencePhotoFile(referencePhoto);
+        if (photoError) {
+            return json({ errors: { referencePhoto: photoError } }, { status: 400 });
+        }
+    }
+
     try {
         // Check if participant with this email already exists for this event
-        const existingParticipant = await prisma.participant.findFirst({
-            where: {
-                eventId: params.eventId,
-                email: email,
-            }
-        });
-
-        if (existingParticipant) {
+        if (await isParticipantEmailTaken(params.eventId, email)) {
             return json({ errors: { email: "A participant with this email already exists for this event." } }, { status: 400 });
         }
 
         // Create the participant record
-        await prisma.participant.create({
+        const participant = await prisma.participant.create({
             data: {
                 eventId: params.eventId,
                 name: name,
@@ -74,6 +72,30 @@ export async function action({ request, params }: ActionFunctionArgs) {
             }
         });
 
+        if (hasReferencePhoto) {
+            try {
+                await setReferencePhoto(participant, referencePhoto);
+            } catch (error) {
+                console.error("Failed to store reference photo:", error);
+                // Don't leave a half-created participant behind
+                await prisma.participant.delete({ where: { id: participant.id } });
+                return json({ errors: { referencePhoto: "Could not read the reference photo. Please upload a JPEG, PNG or WebP image." } }, { status: 400 });
+            }
+        }
+
+        // Organizer confirms the participant agreed to facial recognition
+        if (formData.get("facialRecognitionConsent") === "on") {
+            await recordParticipantConsent({
+                participantId: participant.id,
+                type: "FACIAL_RECOGNITION",
+                status: "GRANTED",
+                details: `Recorded by organizer ${user.id} when adding the participant`,
+            });
+        }
+
+        // Queue the invitation email; delivery status shows on the participants list
+        await sendParticipantInvite(participant.id);
+
         // Redirect back to the participants list on success
         return redirect(`/org/events/${params.eventId}/participants`);
 
@@ -104,7 +126,7 @@ export default function NewParticipantPage() {
         )}
 
 
-      <Form method="post">
+      <Form method="post" encType="multipart/form-data">
          {/* Add hidden field if needed for multiple actions on the same route */}
          {/* <input type="hidden" name="_action" value="createParticipant" /> */}
         <div className="space-y-4">
@@ -148,10 +170,19 @@ export default function NewParticipantPage() {
             )}
           </div>
 
-          {/* Add fields for Reference Photo URL, Consent Status later */}
-           {/* <div className="text-xs text-gray-500 dark:text-gray-400">
-                More fields (e.g., reference photo, initial status) will be available once database functionality is restored.
-           </div> */}
+          <ReferencePhotoInput error={actionData?.errors && "referencePhoto" in actionData.errors ? actionData.errors.referencePhoto : undefined} />
+
+          <div className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              id="facialRecognitionConsent"
+              name="facialRecognitionConsent"
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <label htmlFor="facialRecognitionConsent" className="text-sm text-gray-700 dark:text-gray-300">
+              The participant has consented to facial recognition being used to find their photos
+            </label>
+          </div>
 
         </div>
 
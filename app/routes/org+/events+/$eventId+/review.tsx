@@ -0,0 +1,101 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import invariant from "tiny-invariant";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { checkEventAccess } from "~/utils/events.server";
+import { can } from "~/utils/permissions";
+import { PhotoReviewQueue } from "~/components/PhotoReviewQueue";
+import {
+  listPhotosForReview,
+  listPhotoUploaders,
+  parsePhotoReviewForm,
+  PHOTO_REVIEW_STATUSES,
+  reviewPhotos,
+} from "~/services/photo-review.server";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: `Review Photos - ${data?.event.name ?? "Event"}` }];
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  invariant(params.eventId, "Missing eventId param");
+
+  const access = await checkEventAccess(request, user.id, params.eventId);
+  if (!access.ok) {
+    throw new Response(access.error, { status: access.status });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const status = PHOTO_REVIEW_STATUSES.find((value) => value === searchParams.get("status")) ?? "PENDING";
+  const uploaderUserId = searchParams.get("uploader") || undefined;
+
+  const [event, queue, uploaders] = await Promise.all([
+    prisma.event.findUniqueOrThrow({ where: { id: params.eventId }, select: { name: true } }),
+    listPhotosForReview({ orgId: access.event.orgId, eventId: params.eventId, status, uploaderUserId }),
+    listPhotoUploaders(access.event.orgId, params.eventId),
+  ]);
+
+  return json({
+    event,
+    status,
+    ...queue,
+    uploaders,
+    canReview: can(access.role, "photo:moderate"),
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  invariant(params.eventId, "Missing eventId param");
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  const access = await checkEventAccess(request, user.id, params.eventId);
+  if (!access.ok) {
+    return json({ intent, error: access.error }, { status: access.status });
+  }
+
+  if (!can(access.role, "photo:moderate")) {
+    return json({ intent, error: "Viewers can't review photos." }, { status: 403 });
+  }
+
+  // --- Approve / Reject Intents ---
+  const submission = parsePhotoReviewForm(formData);
+  if (!submission.success) {
+    return json({ intent, error: submission.error.issues[0]?.message ?? "Invalid request." }, { status: 400 });
+  }
+
+  const approve = submission.data.intent === "approvePhotos";
+  const count = await reviewPhotos({
+    orgId: access.event.orgId,
+    eventId: params.eventId,
+    photoIds: submission.data.photoIds,
+    decision: approve ? "APPROVED" : "REJECTED",
+    rejectionReason: submission.data.rejectionReason,
+    reviewerId: user.id,
+  });
+  return json({ intent, message: `${count} ${count === 1 ? 'photo' : 'photos'} ${approve ? 'approved' : 'rejected'}.` });
+}
+
+export default function EventPhotoReviewPage() {
+  const { event, status, photos, counts, uploaders, canReview } = useLoaderData<typeof loader>();
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Review Photos: {event.name}</h1>
+        <Link to=".." relative="path" className="text-sm text-indigo-600 hover:underline dark:text-indigo-400">
+          &larr; Back to Event
+        </Link>
+      </div>
+      <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+        Only approved photos are used for face matching and shown in participant galleries.
+      </p>
+      <PhotoReviewQueue photos={photos} status={status} counts={counts} uploaders={uploaders} canReview={canReview} />
+    </div>
+  );
+}
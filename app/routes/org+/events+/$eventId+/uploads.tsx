@@ -0,0 +1,146 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import invariant from "tiny-invariant";
+import { z } from "zod";
+import { requireUser } from "~/utils/auth.server";
+import { checkEventAccess } from "~/utils/events.server";
+import { can } from "~/utils/permissions";
+import {
+  appendUploadChunk,
+  completeUploadBatch,
+  createUploadBatch,
+  failUpload,
+  findUpload,
+  MAX_CHUNK_BYTES,
+  MAX_FILES_PER_BATCH,
+  readChunkBody,
+  UploadError,
+  uploadStatus,
+} from "~/services/uploads.server";
+
+/**
+ * Resumable upload endpoint used by the bulk uploader on the event page.
+ *
+ *   POST intent=createBatch, files=[{name,size,type}]  -> batch with an uploadId per file
+ *   GET  ?uploadId=...                                   -> bytes received so far (to resume)
+ *   PUT  ?uploadId=...&offset=N  (raw chunk body)        -> append a chunk
+ *   POST intent=failUpload, uploadId, reason             -> give up on one file
+ *   POST intent=completeBatch, batchId                   -> close the batch
+ */
+
+const FilesSchema = z
+  .array(
+    z.object({
+      name: z.string().min(1).max(255),
+      size: z.number().int().nonnegative(),
+      type: z.string().max(100),
+    })
+  )
+  .min(1, "No files selected.")
+  .max(MAX_FILES_PER_BATCH, `At most ${MAX_FILES_PER_BATCH} files per batch.`);
+
+async function requireUploadAccess(request: Request, eventId: string | undefined) {
+  const user = await requireUser(request);
+  invariant(eventId, "Missing eventId param");
+
+  // Same ownership check as the uploadPhoto intent on the event page
+  const access = await checkEventAccess(request, user.id, eventId);
+  if (!access.ok) {
+    throw json({ error: access.error }, { status: access.status });
+  }
+  if (!can(access.role, "photo:upload")) {
+    throw json({ error: "You don't have permission to upload photos to this event." }, { status: 403 });
+  }
+  return { user, eventId };
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { user, eventId } = await requireUploadAccess(request, params.eventId);
+  const uploadId = new URL(request.url).searchParams.get("uploadId");
+
+  const upload = uploadId ? await findUpload(uploadId, eventId, user.id) : null;
+  if (!upload) {
+    return json({ error: "Upload not found." }, { status: 404 });
+  }
+  return json(uploadStatus(upload));
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { user, eventId } = await requireUploadAccess(request, params.eventId);
+
+  // --- Chunk upload ---
+  if (request.method === "PUT") {
+    const url = new URL(request.url);
+    const offset = Number(url.searchParams.get("offset"));
+    const upload = await findUpload(url.searchParams.get("uploadId") ?? "", eventId, user.id);
+
+    if (!upload) {
+      return json({ error: "Upload not found." }, { status: 404 });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return json({ error: "Invalid offset." }, { status: 400 });
+    }
+    const declaredLength = Number(request.headers.get("Content-Length"));
+    if (declaredLength > MAX_CHUNK_BYTES) {
+      return json({ error: "Chunk too large." }, { status: 413 });
+    }
+
+    try {
+      // Content-Length is optional, so the limit is enforced while reading too
+      const chunk = await readChunkBody(request.body);
+      const updated = await appendUploadChunk(upload, offset, chunk);
+      return json(uploadStatus(updated));
+    } catch (error) {
+      if (error instanceof UploadError) {
+        // Tell the client where to resume from
+        return json({ ...uploadStatus(upload), error: error.message }, { status: error.status });
+      }
+      console.error("Chunk upload failed:", error);
+      return json({ error: "Failed to store chunk. Please retry." }, { status: 500 });
+    }
+  }
+
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // --- Start a batch ---
+  if (intent === "createBatch") {
+    let files;
+    try {
+      files = FilesSchema.safeParse(JSON.parse(String(formData.get("files") ?? "")));
+    } catch {
+      return json({ error: "Invalid file list." }, { status: 400 });
+    }
+    if (!files.success) {
+      return json({ error: files.error.issues[0]?.message ?? "Invalid file list." }, { status: 400 });
+    }
+
+    const batch = await createUploadBatch({ eventId, uploaderUserId: user.id, files: files.data });
+    return json({ batchId: batch.id, uploads: batch.uploads });
+  }
+
+  // --- Give up on a single file ---
+  if (intent === "failUpload") {
+    const upload = await findUpload(String(formData.get("uploadId") ?? ""), eventId, user.id);
+    if (!upload) {
+      return json({ error: "Upload not found." }, { status: 404 });
+    }
+    const updated = await failUpload(upload, String(formData.get("reason") || "Upload failed."));
+    return json(uploadStatus(updated));
+  }
+
+  // --- Close the batch ---
+  if (intent === "completeBatch") {
+    const batch = await completeUploadBatch(String(formData.get("batchId") ?? ""), eventId, user.id);
+    if (!batch) {
+      return json({ error: "Batch not found." }, { status: 404 });
+    }
+    return json({ batchId: batch.id, completedAt: batch.completedAt });
+  }
+
+  return json({ error: "Invalid intent" }, { status: 400 });
+}
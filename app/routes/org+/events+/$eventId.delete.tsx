@@ -3,6 +3,7 @@ import { json, redirect } from "@remix-run/node";
 import invariant from "tiny-invariant";
 import { prisma } from "~/db.server";
 import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
 
 export async function action({ request, params }: ActionFunctionArgs) {
   const user = await requireUser(request);
@@ -13,22 +14,14 @@ export async function action({ request, params }: ActionFunctionArgs) {
     return json({ message: "Method not allowed" }, { status: 405 });
   }
 
-  const orgUser = await prisma.organizationUser.findFirst({
-    where: { userId: user.id },
-    select: { orgId: true },
-  });
-
-  if (!orgUser) {
-    // This should ideally not happen if page access is controlled, but good practice
-    return json({ message: "User not associated with an organization" }, { status: 403 });
-  }
+  const { orgId } = await requireOrgPermission(request, user.id, "event:delete");
 
   try {
     // Verify the event exists and belongs to the user's organization before deleting
     const event = await prisma.event.findFirst({
       where: {
         id: params.eventId,
-        orgId: orgUser.orgId,
+        orgId,
       },
       select: { id: true }, // Only need the ID to confirm existence and ownership
     });
@@ -43,7 +36,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
       where: {
         id: params.eventId,
         // Including orgId again for safety, though covered by the check above
-        orgId: orgUser.orgId,
+        orgId,
       },
     });
 
@@ -4,6 +4,7 @@ import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/re
 import { z } from "zod";
 import { prisma } from "~/db.server";
 import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
 import invariant from "tiny-invariant";
 import { format } from 'date-fns'; // For formatting date input
 import { EventStatus } from "@prisma/client"; // Import enum
@@ -27,25 +28,21 @@ const EventSchema = z.object({
   locationAddress: z.string().optional().nullable(),
   status: z.nativeEnum(EventStatus), // Use the enum from Prisma
   isPublic: z.preprocess((val) => val === 'on' || val === true, z.boolean()), // Handle checkbox value
+  registrationDeadline: z.string().optional().nullable().refine((date) => !date || !isNaN(Date.parse(date)), {
+    message: "Invalid registration deadline",
+  }),
 });
 
 export async function loader({ request, params }: LoaderFunctionArgs) {
   const user = await requireUser(request);
   invariant(params.eventId, "Missing eventId param");
 
-  const orgUser = await prisma.organizationUser.findFirst({
-    where: { userId: user.id },
-    select: { orgId: true },
-  });
-
-  if (!orgUser) {
-    throw new Response("User not associated with an organization", { status: 403 });
-  }
+  const { orgId } = await requireOrgPermission(request, user.id, "event:update");
 
   const event = await prisma.event.findUnique({
     where: {
       id: params.eventId,
-      orgId: orgUser.orgId, // Ensure user can only edit events in their org
+      orgId, // Ensure user can only edit events in their org
     },
   });
 
@@ -58,6 +55,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     ...event,
     dateStart: format(new Date(event.dateStart), 'yyyy-MM-dd'), // Format for <input type="date">
     dateEnd: event.dateEnd ? format(new Date(event.dateEnd), 'yyyy-MM-dd') : null, // Format end date if it exists
+    registrationDeadline: event.registrationDeadline ? format(new Date(event.registrationDeadline), "yyyy-MM-dd'T'HH:mm") : null, // Format for <input type="datetime-local">
     // Ensure nulls are handled for optional fields if needed by the form
     description: event.description ?? '',
     locationName: event.locationName ?? '',
@@ -73,14 +71,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
   const formData = await request.formData();
   const formPayload = Object.fromEntries(formData);
 
-  const orgUser = await prisma.organizationUser.findFirst({
-    where: { userId: user.id },
-    select: { orgId: true },
-  });
-
-  if (!orgUser) {
-    return json({ errors: { form: "User not associated with an organization" } }, { status: 403 });
-  }
+  const { orgId } = await requireOrgPermission(request, user.id, "event:update");
 
   const result = EventSchema.safeParse(formPayload);
 
@@ -95,7 +86,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
     const existingEvent = await prisma.event.findFirst({
         where: {
             id: params.eventId,
-            orgId: orgUser.orgId,
+            orgId,
         },
         select: { id: true } // Only need to confirm existence
     });
@@ -117,6 +108,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
         locationAddress: result.data.locationAddress,
         status: result.data.status,
         isPublic: result.data.isPublic,
+        registrationDeadline: result.data.registrationDeadline ? new Date(result.data.registrationDeadline) : null,
       },
     });
     // Redirect back to the event details page after successful update
@@ -142,8 +134,11 @@ export default function EditEventPage() {
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
 
-  // Use actionData values if available (on error), otherwise use loader data
-  const currentValues = actionData?.values ?? event;
+  const registrationDeadlineError = actionData?.errors && "registrationDeadline" in actionData.errors ? actionData.errors.registrationDeadline : undefined;
+
+  // Use actionData values if available (on error), otherwise use loader data.
+  // The submitted values carry the same fields as the event, as form strings.
+  const currentValues = (actionData?.values ?? event) as typeof event;
 
   return (
     <div>
@@ -331,6 +326,30 @@ export default function EditEventPage() {
         </div>
 
 
+        {/* Registration Deadline */}
+        <div>
+          <label htmlFor="registrationDeadline" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Registration Deadline (Optional)
+          </label>
+          <input
+            id="registrationDeadline"
+            name="registrationDeadline"
+            type="datetime-local"
+            defaultValue={currentValues.registrationDeadline ?? ''}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+            aria-invalid={registrationDeadlineError ? true : undefined}
+            aria-describedby="registrationDeadline-description registrationDeadline-error"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400" id="registrationDeadline-description">
+            Public events take registrations while they are Upcoming or Active, until this deadline.
+          </p>
+          {registrationDeadlineError && (
+            <p className="mt-1 text-sm text-red-600" id="registrationDeadline-error">
+              {registrationDeadlineError}
+            </p>
+          )}
+        </div>
+
         {/* Action Buttons */}
         <div className="flex justify-end space-x-3 border-t border-gray-200 pt-4 dark:border-gray-700">
            <button
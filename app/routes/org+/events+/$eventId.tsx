@@ -1,12 +1,21 @@
 import type { LoaderFunctionArgs, MetaFunction, ActionFunctionArgs } from "@remix-run/node";
 import { json, redirect } from "@remix-run/node";
-import { useLoaderData, Link, Form, useActionData, useFetcher, useParams } from "@remix-run/react";
+import { useLoaderData, Link, Form, useActionData, useFetcher, useParams, useRevalidator } from "@remix-run/react";
 import { prisma } from "~/db.server";
 import { requireUser } from "~/utils/auth.server";
+import { requireActiveMembership } from "~/utils/organizations.server";
+import type { Permission } from "~/utils/permissions";
+import { can } from "~/utils/permissions";
+import { checkEventAccess } from "~/utils/events.server";
 import invariant from "tiny-invariant";
-import type { Event, EventPhoto, Participant } from "@prisma/client"; // Add Participant type
+import type { Event, EventPhoto, Participant, Prisma } from "@prisma/client"; // Add Participant type
 import { format } from 'date-fns';
-import { uploadFileToStorage, deleteFileFromStorage, triggerFaceMatchingLambda } from "~/utils/storage.server"; // Import storage helpers
+import { APPROVED_PHOTO, createEventPhoto, deletePhotoFiles } from "~/services/photos.server";
+import type { PhotoMetadata } from "~/services/exif.server";
+import { getLatestUploadBatchSummary } from "~/services/uploads.server";
+import { queueFaceMatchingTask } from "~/services/face-matching/tasks.server";
+import { findMatchableParticipantIds } from "~/services/participants.server";
+import { BulkPhotoUploader } from "~/components/BulkPhotoUploader";
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   const eventName = data?.event?.name ?? "Event Details";
@@ -17,24 +26,23 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   const user = await requireUser(request);
   invariant(params.eventId, "Missing eventId param");
 
-  const orgUser = await prisma.organizationUser.findFirst({
-    where: { userId: user.id },
-    select: { orgId: true },
-  });
+  const { orgId, role } = await requireActiveMembership(request, user.id);
 
-  if (!orgUser) {
-    throw new Response("User not associated with an organization", { status: 403 });
-  }
+  // Gallery order: newest uploads first, or by EXIF capture time (photos without one go last)
+  const sort = new URL(request.url).searchParams.get("sort") === "captured" ? "captured" : "uploaded";
+  const photoOrderBy: Prisma.EventPhotoOrderByWithRelationInput[] = sort === "captured"
+    ? [{ capturedAt: { sort: 'asc', nulls: 'last' } }, { uploadTime: 'asc' }]
+    : [{ uploadTime: 'desc' }];
 
   const event = await prisma.event.findUnique({
     where: {
       id: params.eventId,
-      orgId: orgUser.orgId,
+      orgId,
     },
     include: {
       photos: {
-        orderBy: { uploadTime: 'desc' },
-        select: { id: true, imageUrl: true, uploadTime: true, uploaderUserId: true }
+        orderBy: photoOrderBy,
+        select: { id: true, imageUrl: true, thumbnailUrl: true, webUrl: true, uploadTime: true, capturedAt: true, metadata: true, uploaderUserId: true, reviewStatus: true, rejectionReason: true }
       },
       // Fetch actual participants now
       participants: {
@@ -54,38 +62,54 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       ...event,
       dateStartFormatted: format(new Date(event.dateStart), 'PPP p'),
       dateEndFormatted: event.dateEnd ? format(new Date(event.dateEnd), 'PPP p') : null,
+      registrationDeadlineFormatted: event.registrationDeadline ? format(new Date(event.registrationDeadline), 'PPP p') : null,
       photos: event.photos.map(photo => ({
           ...photo,
-          uploadTimeFormatted: format(new Date(photo.uploadTime), 'Pp')
+          uploadTimeFormatted: format(new Date(photo.uploadTime), 'Pp'),
+          capturedAtFormatted: photo.capturedAt ? format(new Date(photo.capturedAt), 'Pp') : null,
+          camera: cameraLabel(photo.metadata as PhotoMetadata | null),
       })),
       // Participants are now included directly from the loader
   };
 
-  return json({ event: formattedEvent });
+  const latestUploadBatch = await getLatestUploadBatchSummary(event.id);
+
+  return json({
+    event: formattedEvent,
+    sort,
+    role,
+    latestUploadBatch: latestUploadBatch && {
+      ...latestUploadBatch,
+      createdAtFormatted: format(new Date(latestUploadBatch.createdAt), 'Pp'),
+    },
+  });
 }
 
+// e.g. "Canon EOS R5"; the model usually repeats the make, so don't duplicate it
+function cameraLabel(metadata: PhotoMetadata | null): string | null {
+  const make = metadata?.cameraMake;
+  const model = metadata?.cameraModel;
+  if (make && model) return model.startsWith(make) ? model : `${make} ${model}`;
+  return model ?? make ?? null;
+}
+
+// What the user's role must allow for each intent
+const INTENT_PERMISSIONS: Record<string, Permission> = {
+    uploadPhoto: "photo:upload",
+    deletePhoto: "photo:delete",
+    initiateFaceMatching: "faceMatching:run",
+};
+
 // Action function to handle various intents on the event page
 export async function action({ request, params }: ActionFunctionArgs) {
     const user = await requireUser(request);
     invariant(params.eventId, "Missing eventId param");
 
-    const orgUser = await prisma.organizationUser.findFirst({
-        where: { userId: user.id },
-        select: { orgId: true },
-    });
+    // Verify event ownership/existence before proceeding
+    const access = await checkEventAccess(request, user.id, params.eventId);
 
-    if (!orgUser) {
-        return json({ error: "User not associated with an organization" }, { status: 403 });
-    }
-
-     // Verify event ownership/existence before proceeding
-     const event = await prisma.event.findFirst({
-      where: { id: params.eventId, orgId: orgUser.orgId },
-      select: { id: true },
-    });
-
-    if (!event) {
-      return json({ error: "Event not found or access denied" }, { status: 404 });
+    if (!access.ok) {
+        return json({ error: access.error }, { status: access.status });
     }
 
     const formData = await request.formData();
@@ -93,6 +117,11 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
     console.log("Action Intent:", intent);
 
+    const permission = typeof intent === "string" ? INTENT_PERMISSIONS[intent] : undefined;
+    if (permission && !can(access.role, permission)) {
+        return json({ intent, error: "You don't have permission to do this in this organization." }, { status: 403 });
+    }
+
     // --- Photo Upload Intent ---
     if (intent === "uploadPhoto") {
         const photoFile = formData.get("photoFile");
@@ -102,28 +131,17 @@ export async function action({ request, params }: ActionFunctionArgs) {
         }
 
         try {
-            // 1. Upload file to storage (replace stub with real implementation)
-            const imageUrl = await uploadFileToStorage(photoFile, `events/${params.eventId}/photos`);
-
-            // 2. Create EventPhoto record in database
-            await prisma.eventPhoto.create({
-                data: {
-                    eventId: params.eventId,
-                    uploaderUserId: user.id,
-                    imageUrl: imageUrl,
-                    // thumbnailUrl: await generateThumbnail(imageUrl), // Optional: Generate thumbnail
-                    uploadTime: new Date(),
-                    reviewStatus: 'PENDING', // Or 'APPROVED' depending on workflow
-                    isPublic: false, // Default to private
-                    // metadata: await extractExifData(photoFile), // Optional: Extract metadata
-                }
+            // Store the original plus thumbnail/web renditions and create the EventPhoto record
+            await createEventPhoto({
+                eventId: params.eventId,
+                uploaderUserId: user.id,
+                file: photoFile,
             });
 
             return json({ intent, photoUploadSuccess: true, message: `${photoFile.name} uploaded successfully.` });
 
         } catch (error) {
             console.error("Photo upload failed:", error);
-            // TODO: Add cleanup logic (e.g., delete uploaded file if DB insert fails)
             return json({ intent, error: "Failed to upload photo. Please try again.", photoUploadSuccess: false }, { status: 500 });
         }
     }
@@ -144,7 +162,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
                     eventId: params.eventId,
                     // Optional: Add check for uploaderUserId or org admin role if needed
                 },
-                select: { id: true, imageUrl: true }
+                select: { id: true, imageUrl: true, thumbnailUrl: true, webUrl: true }
             });
 
             if (!photo) {
@@ -156,8 +174,8 @@ export async function action({ request, params }: ActionFunctionArgs) {
                 where: { id: photoId }
             });
 
-            // 3. Delete file from storage (replace stub with real implementation)
-            await deleteFileFromStorage(photo.imageUrl);
+            // 3. Delete the original and its derivatives from storage
+            await deletePhotoFiles(photo);
 
             return json({ intent, photoDeleteSuccess: true, deletedPhotoId: photoId, message: `Photo deleted successfully.` });
 
@@ -172,30 +190,25 @@ export async function action({ request, params }: ActionFunctionArgs) {
         console.log("Attempting to initiate face matching for event:", params.eventId);
 
         try {
-            // 1. Check if there are photos and participants
-            const photoCount = await prisma.eventPhoto.count({ where: { eventId: params.eventId } });
-            const participantCount = await prisma.participant.count({ where: { eventId: params.eventId } });
+            // 1. Check if there are photos and participants ready for matching
+            const photoCount = await prisma.eventPhoto.count({ where: { eventId: params.eventId, ...APPROVED_PHOTO } });
+            const matchableParticipantIds = await findMatchableParticipantIds(params.eventId);
 
             if (photoCount === 0) {
-                return json({ intent, error: "Cannot initiate matching without uploaded photos.", faceMatchingInitiated: false }, { status: 400 });
+                return json({ intent, error: "Cannot initiate matching without approved photos. Review the uploads first.", faceMatchingInitiated: false }, { status: 400 });
             }
-            if (participantCount === 0) {
-                 return json({ intent, error: "Cannot initiate matching without added participants.", faceMatchingInitiated: false }, { status: 400 });
+            if (matchableParticipantIds.length === 0) {
+                 return json({ intent, error: "No participants are ready for matching. Each needs a reference photo and facial recognition consent.", faceMatchingInitiated: false }, { status: 400 });
             }
 
-            // 2. Create FaceMatchingTask record
-            const task = await prisma.faceMatchingTask.create({
-                data: {
-                    eventId: params.eventId,
-                    status: 'PENDING',
-                    // Optionally add requestedByUserId: user.id
-                }
-            });
-
-            // 3. Trigger external process (replace stub with real implementation)
-            await triggerFaceMatchingLambda(params.eventId, task.id);
+            // 2. Queue the task; by default only new photos and participants are processed
+            const fullRun = formData.get("fullRun") === "on";
+            const queued = await queueFaceMatchingTask(params.eventId, { fullRun });
+            if (!queued.ok) {
+                return json({ intent, error: queued.error, faceMatchingInitiated: false }, { status: queued.status });
+            }
 
-            return json({ intent, faceMatchingInitiated: true, taskId: task.id, message: "Face matching process initiated successfully." });
+            return json({ intent, faceMatchingInitiated: true, taskId: queued.taskId, message: fullRun ? "Full face matching re-run queued." : "Face matching queued for new photos and participants." });
 
         } catch (error) {
             console.error("Face matching initiation failed:", error);
@@ -210,10 +223,16 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
 
 // Component for individual photo item with delete button
-function PhotoItem({ photo }: { photo: Pick<EventPhoto, 'id' | 'imageUrl'> & { uploadTimeFormatted: string } }) {
+const REVIEW_STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  PENDING: { label: 'Pending review', className: 'bg-yellow-100 text-yellow-800' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+};
+
+function PhotoItem({ photo, canDelete }: { photo: Pick<EventPhoto, 'id' | 'imageUrl' | 'thumbnailUrl' | 'reviewStatus' | 'rejectionReason'> & { uploadTimeFormatted: string; capturedAtFormatted: string | null; camera: string | null }; canDelete: boolean }) {
   const fetcher = useFetcher();
   const params = useParams();
   const isDeleting = fetcher.state !== 'idle' && fetcher.formData?.get('intent') === 'deletePhoto' && fetcher.formData?.get('photoId') === photo.id;
+  const badge = REVIEW_STATUS_BADGES[photo.reviewStatus];
 
   const handleDelete = (e: React.MouseEvent<HTMLButtonElement>) => {
     const confirmation = window.confirm(
@@ -233,24 +252,42 @@ function PhotoItem({ photo }: { photo: Pick<EventPhoto, 'id' | 'imageUrl'> & { u
   return (
     <div key={photo.id} className={`group relative transition-opacity ${isDeleting ? 'opacity-50' : ''}`}>
       <img
-        src={photo.imageUrl || `https://via.placeholder.com/150/cccccc/888888?text=Error`} // Use actual URL, fallback if missing
+        src={photo.thumbnailUrl || photo.imageUrl || `https://via.placeholder.com/150/cccccc/888888?text=Error`} // Prefer the thumbnail, fall back to the original
         alt={`Event photo uploaded at ${photo.uploadTimeFormatted}`}
+        loading="lazy"
         className="aspect-square w-full rounded object-cover bg-gray-200 dark:bg-gray-700" // Add bg color for loading/error state
         onError={(e) => { e.currentTarget.src = 'https://via.placeholder.com/150/cccccc/888888?text=Invalid+URL'; }} // Handle broken image links
       />
-      <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 opacity-0 transition-opacity group-hover:opacity-100">
-         <button
-            type="button"
-            onClick={handleDelete}
-            disabled={isDeleting}
-            className="rounded bg-red-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-red-500 disabled:opacity-75"
+      {badge && (
+        <span className={`absolute left-1 top-1 rounded px-1.5 text-xs font-semibold ${badge.className}`} title={photo.rejectionReason ?? undefined}>
+          {badge.label}
+        </span>
+      )}
+      <div className="absolute inset-0 flex items-center justify-center space-x-2 bg-black bg-opacity-50 opacity-0 transition-opacity group-hover:opacity-100">
+         <a
+            href={photo.imageUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="rounded bg-white px-2 py-1 text-xs font-semibold text-gray-900 shadow-sm hover:bg-gray-100"
           >
-            {isDeleting ? 'Deleting...' : 'Delete'}
-          </button>
+            View Full
+          </a>
+         {canDelete && (
+           <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="rounded bg-red-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-red-500 disabled:opacity-75"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </button>
+         )}
       </div>
       <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-60 p-1 text-xs text-white opacity-0 transition-opacity group-hover:opacity-100">
         <p>ID: ...{photo.id.slice(-4)}</p>
+        {photo.capturedAtFormatted && <p>Taken: {photo.capturedAtFormatted}</p>}
         <p>Uploaded: {photo.uploadTimeFormatted}</p>
+        {photo.camera && <p>{photo.camera}</p>}
       </div>
     </div>
   );
@@ -258,9 +295,10 @@ function PhotoItem({ photo }: { photo: Pick<EventPhoto, 'id' | 'imageUrl'> & { u
 
 
 export default function EventDetailsPage() {
-  const { event } = useLoaderData<typeof loader>();
+  const { event, sort, role, latestUploadBatch } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const params = useParams();
+  const revalidator = useRevalidator();
 
   // Handle event delete confirmation
   const handleEventDelete = (e: React.FormEvent<HTMLFormElement>) => {
@@ -276,6 +314,8 @@ export default function EventDetailsPage() {
    const photos = event.photos.filter(
         (photo) => !(actionData?.intent === 'deletePhoto' && actionData?.photoDeleteSuccess && actionData?.deletedPhotoId === photo.id)
     );
+   const pendingCount = photos.filter((photo) => photo.reviewStatus === 'PENDING').length;
+   const approvedCount = photos.filter((photo) => photo.reviewStatus === 'APPROVED').length;
 
 
   return (
@@ -303,20 +343,24 @@ export default function EventDetailsPage() {
         <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{event.name}</h1>
            <div className="flex flex-shrink-0 space-x-2">
-             <Link
-               to="edit"
-               className="rounded bg-yellow-500 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-yellow-400"
-             >
-               Edit Event
-             </Link>
-             <Form method="post" action={`/org/events/${event.id}/delete`} onSubmit={handleEventDelete} className="inline-block">
-                <button
-                  type="submit"
-                  className="rounded bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500"
-                >
-                  Delete Event
-                </button>
-              </Form>
+             {can(role, "event:update") && (
+               <Link
+                 to="edit"
+                 className="rounded bg-yellow-500 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-yellow-400"
+               >
+                 Edit Event
+               </Link>
+             )}
+             {can(role, "event:delete") && (
+               <Form method="post" action={`/org/events/${event.id}/delete`} onSubmit={handleEventDelete} className="inline-block">
+                  <button
+                    type="submit"
+                    className="rounded bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500"
+                  >
+                    Delete Event
+                  </button>
+                </Form>
+             )}
            </div>
         </div>
          <div className="grid grid-cols-1 gap-x-4 gap-y-4 sm:grid-cols-2">
@@ -326,12 +370,22 @@ export default function EventDetailsPage() {
             </div>
             <div>
                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Publicly Visible</dt>
-                <dd className="mt-1 text-sm text-gray-900 dark:text-white">{event.isPublic ? 'Yes' : 'No'}</dd>
+                <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+                    {event.isPublic ? (
+                        <>Yes &middot; <Link to={`/events/${event.id}`} className="text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">Public page</Link></>
+                    ) : 'No'}
+                </dd>
             </div>
             <div>
                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Starts</dt>
                 <dd className="mt-1 text-sm text-gray-900 dark:text-white">{event.dateStartFormatted}</dd>
             </div>
+            {event.registrationDeadlineFormatted && (
+                 <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Registration Closes</dt>
+                    <dd className="mt-1 text-sm text-gray-900 dark:text-white">{event.registrationDeadlineFormatted}</dd>
+                </div>
+            )}
             {event.dateEndFormatted && (
                  <div>
                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Ends</dt>
@@ -357,48 +411,108 @@ export default function EventDetailsPage() {
 
       {/* --- Photo Management Section --- */}
       <div className="mt-8 rounded bg-white p-6 shadow dark:bg-gray-800">
-        <h2 className="mb-4 text-xl font-semibold text-gray-900 dark:text-white">Photos ({photos.length})</h2>
-
-        {/* Photo Upload Form */}
-        <Form method="post" encType="multipart/form-data" className="mb-6 rounded border border-gray-200 p-4 dark:border-gray-700">
-           <input type="hidden" name="intent" value="uploadPhoto" />
-           <label htmlFor="photoFile" className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">Upload New Photo</label>
-           <div className="flex items-center space-x-4">
-                <input
-                    type="file"
-                    id="photoFile"
-                    name="photoFile"
-                    accept="image/jpeg, image/png, image/webp, image/gif"
-                    required // Make file input required
-                    className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 dark:text-gray-400 focus:outline-none dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400"
-                />
-                <button
-                    type="submit"
-                    className="flex-shrink-0 rounded bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-500"
-                >
-                    Upload
-                </button>
-           </div>
-           {/* Feedback Messages */}
-           {actionData?.intent === 'uploadPhoto' && actionData.error && (
-                 <p className="mt-2 text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
-             )}
-            {actionData?.intent === 'uploadPhoto' && actionData.photoUploadSuccess && (
-                <p className="mt-2 text-sm text-green-600 dark:text-green-400">{actionData.message}</p>
-            )}
-             {actionData?.intent === 'deletePhoto' && actionData.error && (
-                 <p className="mt-2 text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
-             )}
-            {actionData?.intent === 'deletePhoto' && actionData.photoDeleteSuccess && (
-                <p className="mt-2 text-sm text-green-600 dark:text-green-400">{actionData.message}</p>
-            )}
-        </Form>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-4">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Photos ({photos.length})</h2>
+            <Link
+              to={`/org/events/${params.eventId}/review`}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+            >
+              Review Photos{pendingCount > 0 && ` (${pendingCount} pending)`} &rarr;
+            </Link>
+          </div>
+          {/* Gallery sort order */}
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-500 dark:text-gray-400">Sort by:</span>
+            <Link
+              to="?sort=uploaded"
+              preventScrollReset
+              className={sort === 'uploaded' ? 'font-semibold text-indigo-600 dark:text-indigo-400' : 'text-gray-600 hover:text-indigo-600 dark:text-gray-300'}
+            >
+              Upload time
+            </Link>
+            <span className="text-gray-300 dark:text-gray-600">|</span>
+            <Link
+              to="?sort=captured"
+              preventScrollReset
+              className={sort === 'captured' ? 'font-semibold text-indigo-600 dark:text-indigo-400' : 'text-gray-600 hover:text-indigo-600 dark:text-gray-300'}
+            >
+              Capture time
+            </Link>
+          </div>
+        </div>
+
+        {can(role, "photo:upload") && (
+          <>
+          {/* Photo Upload Form */}
+          <Form method="post" encType="multipart/form-data" className="mb-6 rounded border border-gray-200 p-4 dark:border-gray-700">
+             <input type="hidden" name="intent" value="uploadPhoto" />
+             <label htmlFor="photoFile" className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">Upload New Photo</label>
+             <div className="flex items-center space-x-4">
+                  <input
+                      type="file"
+                      id="photoFile"
+                      name="photoFile"
+                      accept="image/jpeg, image/png, image/webp, image/gif"
+                      required // Make file input required
+                      className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 dark:text-gray-400 focus:outline-none dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400"
+                  />
+                  <button
+                      type="submit"
+                      className="flex-shrink-0 rounded bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-500"
+                  >
+                      Upload
+                  </button>
+             </div>
+             {/* Feedback Messages */}
+             {actionData?.intent === 'uploadPhoto' && actionData.error && (
+                   <p className="mt-2 text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
+               )}
+              {actionData?.intent === 'uploadPhoto' && actionData.photoUploadSuccess && (
+                  <p className="mt-2 text-sm text-green-600 dark:text-green-400">{actionData.message}</p>
+              )}
+               {actionData?.intent === 'deletePhoto' && actionData.error && (
+                   <p className="mt-2 text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
+               )}
+              {actionData?.intent === 'deletePhoto' && actionData.photoDeleteSuccess && (
+                  <p className="mt-2 text-sm text-green-600 dark:text-green-400">{actionData.message}</p>
+              )}
+          </Form>
+
+          {/* Bulk, resumable upload for many files or whole folders */}
+          <BulkPhotoUploader eventId={event.id} onBatchComplete={() => revalidator.revalidate()} />
+          </>
+        )}
+
+        {/* Summary of the most recent bulk upload */}
+        {latestUploadBatch && (
+            <div className="mb-6 rounded border border-gray-200 p-4 text-sm dark:border-gray-700">
+                <p className="font-medium text-gray-700 dark:text-gray-300">
+                    Last bulk upload: {latestUploadBatch.createdAtFormatted} by {latestUploadBatch.uploadedBy}
+                    {!latestUploadBatch.completedAt && <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">(in progress)</span>}
+                </p>
+                <p className="mt-1 text-gray-600 dark:text-gray-400">
+                    {latestUploadBatch.succeeded} of {latestUploadBatch.totalFiles} succeeded
+                    {latestUploadBatch.failed > 0 && <span className="text-red-600 dark:text-red-400">, {latestUploadBatch.failed} failed</span>}
+                </p>
+                {latestUploadBatch.failures.length > 0 && (
+                    <details className="mt-2">
+                        <summary className="cursor-pointer text-xs text-gray-500 dark:text-gray-400">Show failed files</summary>
+                        <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-gray-600 dark:text-gray-400">
+                            {latestUploadBatch.failures.map((failure, index) => (
+                                <li key={index}>{failure.fileName}: {failure.errorDetails ?? 'Unknown error'}</li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
+            </div>
+        )}
 
         {/* Photo Gallery */}
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
             {photos.length > 0 ? (
                 photos.map((photo) => ( // Use correct type now
-                    <PhotoItem key={photo.id} photo={photo} />
+                    <PhotoItem key={photo.id} photo={photo} canDelete={can(role, "photo:delete")} />
                 ))
             ) : (
                 <p className="col-span-full text-gray-500 dark:text-gray-400">No photos uploaded for this event yet.</p>
@@ -408,25 +522,45 @@ export default function EventDetailsPage() {
         {/* Face Matching Trigger */}
         <Form method="post" className="mt-6 text-right">
             <input type="hidden" name="intent" value="initiateFaceMatching" />
-            <button
-                type="submit"
-                className="rounded bg-green-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-green-500 disabled:opacity-50"
-                disabled={photos.length === 0 || event.participants.length === 0} // Disable if no photos or participants
-            >
-                Initiate Face Matching
-            </button>
+            {can(role, "faceMatching:run") && (
+              <>
+                <button
+                    type="submit"
+                    className="rounded bg-green-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-green-500 disabled:opacity-50"
+                    disabled={approvedCount === 0 || event.participants.length === 0} // Disable if no approved photos or participants
+                >
+                    Initiate Face Matching
+                </button>
+                <label className="mt-2 flex items-center justify-end gap-2 text-xs text-gray-600 dark:text-gray-300">
+                    <input type="checkbox" name="fullRun" className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500" />
+                    Full re-run (discard existing matches and reprocess every photo)
+                </label>
+              </>
+            )}
              {actionData?.intent === 'initiateFaceMatching' && actionData.error && (
                  <p className="mt-2 text-sm text-red-600 dark:text-red-400">{actionData.error}</p>
              )}
             {actionData?.intent === 'initiateFaceMatching' && actionData.faceMatchingInitiated && (
                 <p className="mt-2 text-sm text-green-600 dark:text-green-400">{actionData.message}</p>
             )}
-            {(photos.length === 0 || event.participants.length === 0) && (
-                 <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Requires uploaded photos and added participants.</p>
+            {(approvedCount === 0 || event.participants.length === 0) && (
+                 <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Requires approved photos and added participants.</p>
             )}
              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Note: Face matching is an asynchronous process. Status updates TBD.
+                Note: Face matching runs in the background and may take a while for large events.
              </p>
+             <Link
+                to={`/org/events/${params.eventId}/face-matching`}
+                className="mt-2 inline-block text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+             >
+                View Face Matching Tasks &rarr;
+             </Link>
+             <Link
+                to={`/org/events/${params.eventId}/matches`}
+                className="ml-4 mt-2 inline-block text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300"
+             >
+                Review Matches &rarr;
+             </Link>
         </Form>
       </div>
 
@@ -435,12 +569,14 @@ export default function EventDetailsPage() {
        <div className="mt-8 rounded bg-white p-6 shadow dark:bg-gray-800">
          <div className="mb-4 flex items-center justify-between">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Participants ({event.participants.length})</h2>
-            <Link
-                to={`/org/events/${params.eventId}/participants/new`}
-                className="rounded bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
-            >
-                Add Participant
-            </Link>
+            {can(role, "participant:manage") && (
+                <Link
+                    to={`/org/events/${params.eventId}/participants/new`}
+                    className="rounded bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+                >
+                    Add Participant
+                </Link>
+            )}
          </div>
 
          {/* Participant List (using data from loader) */}
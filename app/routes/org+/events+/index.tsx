@@ -3,6 +3,8 @@ import { json } from "@remix-run/node";
 import { Link, useLoaderData } from "@remix-run/react";
 import { prisma } from "~/db.server";
 import { requireUser } from "~/utils/auth.server";
+import { requireActiveMembership } from "~/utils/organizations.server";
+import { can } from "~/utils/permissions";
 import type { Event } from "@prisma/client"; // Import Event type
 
 export const meta: MetaFunction = () => {
@@ -12,20 +14,10 @@ export const meta: MetaFunction = () => {
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireUser(request);
 
-  // Find the organization the user belongs to (assuming one org per user for now)
-  const orgUser = await prisma.organizationUser.findFirst({
-    where: { userId: user.id },
-    select: { orgId: true },
-  });
-
-  if (!orgUser) {
-    // Handle case where user is not associated with an organization
-    // This might involve redirecting or showing an error
-    throw new Response("User not associated with an organization", { status: 403 });
-  }
+  const { orgId, role } = await requireActiveMembership(request, user.id);
 
   const events = await prisma.event.findMany({
-    where: { orgId: orgUser.orgId },
+    where: { orgId },
     orderBy: { dateStart: "desc" },
     // Select only necessary fields
     select: {
@@ -36,22 +28,24 @@ export async function loader({ request }: LoaderFunctionArgs) {
     }
   });
 
-  return json({ events });
+  return json({ events, canCreate: can(role, "event:create") });
 }
 
 export default function EventsIndex() {
-  const { events } = useLoaderData<typeof loader>();
+  const { events, canCreate } = useLoaderData<typeof loader>();
 
   return (
     <div>
       <div className="mb-4 flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Events</h1>
-        <Link
-          to="new"
-          className="rounded bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
-        >
-          Create New Event
-        </Link>
+        {canCreate && (
+          <Link
+            to="new"
+            className="rounded bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            Create New Event
+          </Link>
+        )}
       </div>
 
       {events.length === 0 ? (
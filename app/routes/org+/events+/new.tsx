@@ -4,6 +4,7 @@ import { Form, useActionData, useNavigation } from "@remix-run/react";
 import { z } from "zod";
 import { prisma } from "~/db.server";
 import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
 
 export const meta: MetaFunction = () => {
   return [{ title: "Create New Event" }];
@@ -19,8 +20,9 @@ const EventSchema = z.object({
 });
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  // Ensure user is logged in and associated with an org
-  await requireUser(request);
+  // Ensure user is logged in and may create events in their active org
+  const user = await requireUser(request);
+  await requireOrgPermission(request, user.id, "event:create");
   return json({}); // No specific data needed for the form initially
 }
 
@@ -30,15 +32,8 @@ export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
   const formPayload = Object.fromEntries(formData);
 
-   // Find the organization the user belongs to
-   const orgUser = await prisma.organizationUser.findFirst({
-    where: { userId: user.id },
-    select: { orgId: true },
-  });
-
-  if (!orgUser) {
-    return json({ errors: { form: "User not associated with an organization" } }, { status: 403 });
-  }
+  // New events belong to the user's active organization
+  const { orgId } = await requireOrgPermission(request, user.id, "event:create");
 
   const result = EventSchema.safeParse(formPayload);
 
@@ -53,7 +48,7 @@ export async function action({ request }: ActionFunctionArgs) {
         name: result.data.name,
         dateStart: new Date(result.data.dateStart),
         status: "DRAFT", // Default status
-        orgId: orgUser.orgId,
+        orgId,
         // Add other fields here
       },
     });
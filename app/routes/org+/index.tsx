@@ -1,6 +1,7 @@
 import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
 import { useLoaderData } from "@remix-run/react";
 import { requireUser } from "~/utils/auth.server";
+import { getActiveOrgId } from "~/utils/organizations.server";
 import type { User } from "@prisma/client";
 
 export const meta: MetaFunction = () => {
@@ -9,13 +10,13 @@ export const meta: MetaFunction = () => {
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const user = await requireUser(request);
-  // Fetch organization details associated with the user if needed
-  // const org = await prisma.organization.findFirst({...});
-  return { user };
+  // Individual accounts have no organization until someone invites them
+  const hasOrganization = Boolean(await getActiveOrgId(request, user.id));
+  return { user, hasOrganization };
 }
 
 export default function OrgDashboard() {
-   const { user } = useLoaderData<{ user: User }>();
+   const { user, hasOrganization } = useLoaderData<{ user: User; hasOrganization: boolean }>();
 
   return (
     <div>
@@ -23,7 +24,9 @@ export default function OrgDashboard() {
         Welcome, {user.name || user.email}!
       </h1>
       <p className="text-gray-600 dark:text-gray-300">
-        This is your organization dashboard. Manage your events and photos here.
+        {hasOrganization
+          ? "This is your organization dashboard. Manage your events and photos here."
+          : "You aren't a member of an organization yet. When an organization invites you, the link in the email adds you to it."}
       </p>
       {/* Add dashboard widgets or summaries here */}
     </div>
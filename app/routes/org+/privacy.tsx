@@ -0,0 +1,255 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { format } from "date-fns";
+import { z } from "zod";
+import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
+import type { ErasureSummary } from "~/services/privacy.server";
+import {
+  accountErasureBlocker,
+  eraseDataSubject,
+  findDataSubject,
+  listErasureRecords,
+  verifyErasureChain,
+} from "~/services/privacy.server";
+import { normalizeEmail } from "~/utils/email";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Privacy Requests" }];
+};
+
+const ErasureSchema = z
+  .object({
+    email: z.string().email("Enter a valid email address"),
+    confirmEmail: z.string(),
+  })
+  .refine((data) => normalizeEmail(data.email) === normalizeEmail(data.confirmEmail), {
+    message: "Type the email address again to confirm the erasure",
+    path: ["confirmEmail"],
+  });
+
+async function requireAdminOrg(request: Request) {
+  // Only organization admins can handle data subject requests
+  const user = await requireUser(request);
+  const { orgId } = await requireOrgPermission(request, user.id, "privacy:manage");
+  return { user, orgId };
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { user, orgId } = await requireAdminOrg(request);
+  const email = new URL(request.url).searchParams.get("email")?.trim() ?? "";
+
+  let subject = null;
+  if (email) {
+    const found = await findDataSubject(orgId, email);
+    subject = {
+      email,
+      participants: found.participants.map((participant) => ({
+        id: participant.id,
+        name: participant.name,
+        eventName: participant.event.name,
+        hasReferencePhoto: Boolean(participant.referencePhotoUrl),
+      })),
+      account: found.user && { name: found.user.name, uploadedPhotos: found.user._count.uploadedPhotos },
+      accountBlocker: await accountErasureBlocker(found, orgId, user.id),
+    };
+  }
+
+  const records = await listErasureRecords(orgId);
+  const chain = await verifyErasureChain();
+
+  return json({
+    subject,
+    chain,
+    records: records.map((record) => ({
+      id: record.id,
+      createdAt: format(record.createdAt, "PPP p"),
+      subjectHash: record.subjectHash,
+      summary: JSON.parse(record.summary) as ErasureSummary,
+      verified: record.verified,
+      hash: record.hash,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { user, orgId } = await requireAdminOrg(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // --- Erase Intent ---
+  if (intent === "erase") {
+    const submission = ErasureSchema.safeParse(Object.fromEntries(formData));
+    if (!submission.success) {
+      return json({ intent, error: submission.error.issues[0].message }, { status: 400 });
+    }
+
+    try {
+      const { record, summary } = await eraseDataSubject(orgId, submission.data.email, user.id);
+      return json({ intent, erased: { verified: record.verified, summary } });
+    } catch (error) {
+      console.error("Failed to erase data subject:", error);
+      return json({ intent, error: "Erasure failed. Nothing was recorded; please try again." }, { status: 500 });
+    }
+  }
+
+  return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+export default function PrivacyRequestsPage() {
+  const { subject, chain, records } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const hasData = subject && (subject.participants.length > 0 || subject.account);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Privacy Requests</h1>
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <h2 className="mb-2 text-lg font-semibold text-gray-900 dark:text-white">Find a person</h2>
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Look up everything this organization holds about an email address to answer an access or deletion request.
+        </p>
+        <Form method="get" className="flex gap-2">
+          <input
+            type="email"
+            name="email"
+            required
+            defaultValue={subject?.email ?? ""}
+            placeholder="person@example.com"
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+          />
+          <button type="submit" className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+            Look Up
+          </button>
+        </Form>
+      </div>
+
+      {actionData && "error" in actionData && (
+        <div className="rounded-md bg-red-50 p-4 dark:bg-red-900">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{actionData.error}</p>
+        </div>
+      )}
+      {actionData && "erased" in actionData && (
+        <div className={`rounded-md p-4 ${actionData.erased.verified ? 'bg-green-50 dark:bg-green-900' : 'bg-yellow-50 dark:bg-yellow-900'}`}>
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {actionData.erased.verified ? 'Erasure complete and verified.' : 'Erasure recorded, but some data could not be removed. Check the server log.'}
+          </p>
+          <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+            Deleted {actionData.erased.summary.participants} participant records, {actionData.erased.summary.consentLogs} consent log entries
+            and {actionData.erased.summary.referencePhotos} reference photos.
+            {actionData.erased.summary.accountDeleted && ` The account was deleted; its ${actionData.erased.summary.uploadedPhotos} uploaded photos stay with their events.`}
+            {actionData.erased.summary.accountKeptReason && ` ${actionData.erased.summary.accountKeptReason}`}
+          </p>
+        </div>
+      )}
+
+      {subject && (
+        <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">Data held for {subject.email}</h2>
+          {hasData ? (
+            <>
+              <ul className="mb-4 list-disc space-y-1 pl-5 text-sm text-gray-700 dark:text-gray-300">
+                {subject.participants.map((participant) => (
+                  <li key={participant.id}>
+                    Participant {participant.name ? `"${participant.name}"` : ''} in {participant.eventName}
+                    {participant.hasReferencePhoto && ', with a reference photo'}
+                  </li>
+                ))}
+                {subject.account && (
+                  <li>
+                    User account{subject.account.name ? ` "${subject.account.name}"` : ''} with {subject.account.uploadedPhotos} uploaded photos
+                  </li>
+                )}
+              </ul>
+
+              <a
+                href={`/org/privacy/export?email=${encodeURIComponent(subject.email)}`}
+                download
+                className="inline-block rounded border border-gray-300 bg-white px-3 py-1.5 text-sm font-semibold text-gray-700 shadow-sm hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+              >
+                Download Export (.zip)
+              </a>
+
+              <Form method="post" className="mt-6 space-y-3 border-t border-gray-200 pt-4 dark:border-gray-700">
+                <input type="hidden" name="intent" value="erase" />
+                <input type="hidden" name="email" value={subject.email} />
+                <h3 className="text-sm font-semibold text-red-700 dark:text-red-400">Erase this person&apos;s data</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Deletes the participant records above with their matches, consent history and stored photos. This can&apos;t be undone.
+                  {subject.accountBlocker ? ` ${subject.accountBlocker}` : subject.account ? ' The user account is deleted too; the photos it uploaded stay with their events.' : ''}
+                </p>
+                <label htmlFor="confirmEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Type the email address to confirm
+                </label>
+                <input
+                  type="email"
+                  id="confirmEmail"
+                  name="confirmEmail"
+                  required
+                  autoComplete="off"
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-red-500 focus:outline-none focus:ring-red-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="rounded bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500 disabled:opacity-50"
+                >
+                  {isSubmitting ? "Erasing..." : "Erase Data"}
+                </button>
+              </Form>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">This organization holds no data for this email address.</p>
+          )}
+        </div>
+      )}
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Erasure Log</h2>
+          {chain.ok ? (
+            <span className="text-sm text-green-700 dark:text-green-400">Log intact ({chain.count} records verified)</span>
+          ) : (
+            <span className="text-sm font-semibold text-red-600 dark:text-red-400">Log has been tampered with{chain.brokenAt ? ` at record ${chain.brokenAt}` : ''}</span>
+          )}
+        </div>
+        {chain.ok && chain.head && (
+          <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+            Latest record hash: <span className="font-mono">{chain.head}</span>. Keep a copy outside the app; records removed from the end of the log are only
+            noticed by comparing it.
+          </p>
+        )}
+        {records.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm dark:divide-gray-700">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-300">
+                <th className="py-2">When</th>
+                <th className="py-2">Subject (keyed hash of email)</th>
+                <th className="py-2">Deleted</th>
+                <th className="py-2">Verified</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {records.map((record) => (
+                <tr key={record.id} className="text-gray-700 dark:text-gray-300">
+                  <td className="whitespace-nowrap py-2">{record.createdAt}</td>
+                  <td className="py-2 font-mono text-xs" title={`Record hash ${record.hash}`}>{record.subjectHash.slice(0, 16)}…</td>
+                  <td className="py-2">
+                    {record.summary.participants} participants{record.summary.accountDeleted ? ', account' : ''}
+                  </td>
+                  <td className="py-2">{record.verified ? 'Yes' : 'No'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No erasures yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { format } from "date-fns";
+import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
+import { buildDataSubjectExport } from "~/services/privacy.server";
+
+/**
+ * Resource route downloading a data subject access export as a zip:
+ * GET /org/privacy/export?email=...
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const { orgId } = await requireOrgPermission(request, user.id, "privacy:manage");
+
+  const email = new URL(request.url).searchParams.get("email")?.trim();
+  if (!email) {
+    throw new Response("Missing email", { status: 400 });
+  }
+
+  const archive = await buildDataSubjectExport(orgId, email);
+
+  return new Response(archive, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="data-export-${format(new Date(), "yyyy-MM-dd")}.zip"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { requireActiveMembership } from "~/utils/organizations.server";
+import { can } from "~/utils/permissions";
+import { PhotoReviewQueue } from "~/components/PhotoReviewQueue";
+import {
+  listPhotosForReview,
+  listPhotoUploaders,
+  parsePhotoReviewForm,
+  PHOTO_REVIEW_STATUSES,
+  reviewPhotos,
+} from "~/services/photo-review.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Review Photos" }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const { orgId, role } = await requireActiveMembership(request, user.id);
+
+  const searchParams = new URL(request.url).searchParams;
+  const status = PHOTO_REVIEW_STATUSES.find((value) => value === searchParams.get("status")) ?? "PENDING";
+  const eventId = searchParams.get("event") || undefined;
+  const uploaderUserId = searchParams.get("uploader") || undefined;
+
+  const [queue, uploaders, events] = await Promise.all([
+    listPhotosForReview({ orgId, eventId, status, uploaderUserId }),
+    listPhotoUploaders(orgId),
+    prisma.event.findMany({
+      where: { orgId },
+      orderBy: { dateStart: "desc" },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  return json({
+    status,
+    ...queue,
+    uploaders,
+    events,
+    canReview: can(role, "photo:moderate"),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  const { orgId, role } = await requireActiveMembership(request, user.id);
+  if (!can(role, "photo:moderate")) {
+    return json({ intent, error: "Viewers can't review photos." }, { status: 403 });
+  }
+
+  // --- Approve / Reject Intents ---
+  const submission = parsePhotoReviewForm(formData);
+  if (!submission.success) {
+    return json({ intent, error: submission.error.issues[0]?.message ?? "Invalid request." }, { status: 400 });
+  }
+
+  const approve = submission.data.intent === "approvePhotos";
+  const count = await reviewPhotos({
+    orgId,
+    photoIds: submission.data.photoIds,
+    decision: approve ? "APPROVED" : "REJECTED",
+    rejectionReason: submission.data.rejectionReason,
+    reviewerId: user.id,
+  });
+  return json({ intent, message: `${count} ${count === 1 ? 'photo' : 'photos'} ${approve ? 'approved' : 'rejected'}.` });
+}
+
+export default function PhotoReviewPage() {
+  const { status, photos, counts, uploaders, events, canReview } = useLoaderData<typeof loader>();
+
+  return (
+    <div>
+      <h1 className="mb-2 text-2xl font-bold text-gray-800 dark:text-gray-100">Review Photos</h1>
+      <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+        Uploads from every event in your organization. Only approved photos are used for face matching and shown in participant galleries.
+      </p>
+      <PhotoReviewQueue photos={photos} status={status} counts={counts} uploaders={uploaders} events={events} canReview={canReview} />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { NavLink, Outlet } from "@remix-run/react";
+
+const TABS = [
+  { to: "/org/settings", label: "General", end: true },
+  { to: "/org/settings/members", label: "Members", end: false },
+];
+
+// Tabs shared by the organization settings pages; each page checks its own permission
+export default function SettingsLayout() {
+  return (
+    <div>
+      <h1 className="mb-4 text-2xl font-bold text-gray-800 dark:text-gray-100">Organization Settings</h1>
+      <nav className="mb-4 flex gap-2 border-b border-gray-200 dark:border-gray-700">
+        {TABS.map((tab) => (
+          <NavLink
+            key={tab.to}
+            to={tab.to}
+            end={tab.end}
+            className={({ isActive }) =>
+              `-mb-px border-b-2 px-4 py-2 text-sm font-medium ${
+                isActive
+                  ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+              }`
+            }
+          >
+            {tab.label}
+          </NavLink>
+        ))}
+      </nav>
+      <Outlet />
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { z } from "zod";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Organization Settings" }];
+};
+
+const SettingsSchema = z.object({
+  stripGpsMetadata: z.preprocess((val) => val === 'on' || val === true, z.boolean()), // Handle checkbox value
+  requireAdminTwoFactor: z.preprocess((val) => val === 'on' || val === true, z.boolean()),
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  // Only organization admins can change settings
+  const user = await requireUser(request);
+  const { orgId } = await requireOrgPermission(request, user.id, "organization:manage");
+
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: orgId },
+    select: { id: true, name: true, stripGpsMetadata: true, requireAdminTwoFactor: true },
+  });
+
+  return json({ organization });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const { orgId } = await requireOrgPermission(request, user.id, "organization:manage");
+
+  const result = SettingsSchema.safeParse(Object.fromEntries(await request.formData()));
+
+  if (!result.success) {
+    return json({ error: "Invalid settings.", success: false }, { status: 400 });
+  }
+
+  // Otherwise the admin turning it on would lock themselves out of the organization
+  if (result.data.requireAdminTwoFactor && !user.totpEnabledAt) {
+    return json(
+      { error: "Turn on two-factor authentication for your own account first.", success: false },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await prisma.organization.update({
+      where: { id: orgId },
+      data: { stripGpsMetadata: result.data.stripGpsMetadata, requireAdminTwoFactor: result.data.requireAdminTwoFactor },
+    });
+    return json({ error: null, success: true });
+  } catch (error) {
+    console.error("Failed to update organization settings:", error);
+    return json({ error: "Failed to save settings. Please try again.", success: false }, { status: 500 });
+  }
+}
+
+export default function OrganizationSettingsPage() {
+  const { organization } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div>
+      <Form method="post" className="space-y-6 rounded bg-white p-6 shadow dark:bg-gray-800">
+        {actionData?.error && (
+          <p className="text-sm text-red-600">{actionData.error}</p>
+        )}
+        {actionData?.success && (
+          <p className="text-sm text-green-600 dark:text-green-400">Settings saved.</p>
+        )}
+
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Photo Privacy</h2>
+
+        {/* Strip GPS */}
+        <div className="flex items-start">
+          <input
+            id="stripGpsMetadata"
+            name="stripGpsMetadata"
+            type="checkbox"
+            defaultChecked={organization.stripGpsMetadata}
+            className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:focus:ring-indigo-600 dark:ring-offset-gray-800"
+            aria-describedby="stripGpsMetadata-description"
+          />
+          <div className="ml-2">
+            <label htmlFor="stripGpsMetadata" className="block text-sm text-gray-900 dark:text-gray-300">
+              Strip GPS location from uploaded photos
+            </label>
+            <p id="stripGpsMetadata-description" className="text-xs text-gray-500 dark:text-gray-400">
+              Location data is removed from the stored image and its recorded metadata before the photo is saved.
+              Applies to photos uploaded after this setting is enabled.
+            </p>
+          </div>
+        </div>
+
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Security</h2>
+
+        <div className="flex items-start">
+          <input
+            id="requireAdminTwoFactor"
+            name="requireAdminTwoFactor"
+            type="checkbox"
+            defaultChecked={organization.requireAdminTwoFactor}
+            className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:focus:ring-indigo-600 dark:ring-offset-gray-800"
+            aria-describedby="requireAdminTwoFactor-description"
+          />
+          <div className="ml-2">
+            <label htmlFor="requireAdminTwoFactor" className="block text-sm text-gray-900 dark:text-gray-300">
+              Require two-factor authentication for admins
+            </label>
+            <p id="requireAdminTwoFactor-description" className="text-xs text-gray-500 dark:text-gray-400">
+              Admins without it are sent to their account page to set it up before they can work in this organization.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end border-t border-gray-200 pt-4 dark:border-gray-700">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : "Save Settings"}
+          </button>
+        </div>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { format } from "date-fns";
+import { requireUser } from "~/utils/auth.server";
+import { requireOrgPermission } from "~/utils/organizations.server";
+import { ROLE_LABELS } from "~/utils/permissions";
+import {
+  changeMemberRole,
+  InvitationSchema,
+  inviteMember,
+  listInvitations,
+  listLockedMemberIds,
+  listMembers,
+  MemberRoleSchema,
+  removeMember,
+  resendInvitation,
+  revokeInvitation,
+  unlockMember,
+} from "~/services/members.server";
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from "~/services/user-tokens.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Members" }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  // Only organization admins can manage members
+  const user = await requireUser(request);
+  const { orgId } = await requireOrgPermission(request, user.id, "member:manage");
+
+  const [members, invitations] = await Promise.all([listMembers(orgId), listInvitations(orgId)]);
+  const lockedMemberIds = await listLockedMemberIds(members);
+  const now = new Date();
+
+  return json({
+    currentUserId: user.id,
+    members: members.map((member) => ({ ...member, joined: format(member.createdAt, "PPP"), locked: lockedMemberIds.includes(member.id) })),
+    invitations: invitations.map((invitation) => ({
+      ...invitation,
+      expired: invitation.expiresAt < now,
+      expires: format(invitation.expiresAt, "PPP"),
+      invitedBy: invitation.invitedBy ? invitation.invitedBy.name || invitation.invitedBy.email : null,
+    })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const { orgId } = await requireOrgPermission(request, user.id, "member:manage");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  // Sending invitations needs a confirmed email; managing existing members doesn't
+  if ((intent === "invite" || intent === "resendInvitation") && !(await isEmailVerified(user.id))) {
+    return json({ intent, error: EMAIL_NOT_VERIFIED_MESSAGE }, { status: 403 });
+  }
+
+  // --- Invite Intent ---
+  if (intent === "invite") {
+    const submission = InvitationSchema.safeParse(Object.fromEntries(formData));
+    if (!submission.success) {
+      return json({ intent, error: submission.error.issues[0].message }, { status: 400 });
+    }
+    const result = await inviteMember({ orgId, ...submission.data, invitedByUserId: user.id });
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+    return json({ intent, message: `Invitation sent to ${submission.data.email}.` });
+  }
+
+  // --- Resend / Revoke Invitation Intents ---
+  if (intent === "resendInvitation" || intent === "revokeInvitation") {
+    const invitationId = String(formData.get("invitationId") ?? "");
+    const result = intent === "resendInvitation" ? await resendInvitation(orgId, invitationId) : await revokeInvitation(orgId, invitationId);
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+    return json({ intent, message: intent === "resendInvitation" ? "Invitation sent again with a new link." : "Invitation revoked." });
+  }
+
+  // --- Change Role Intent ---
+  if (intent === "changeRole") {
+    const submission = MemberRoleSchema.safeParse(Object.fromEntries(formData));
+    if (!submission.success) {
+      return json({ intent, error: "Choose a valid role." }, { status: 400 });
+    }
+    const result = await changeMemberRole(orgId, submission.data.memberId, submission.data.role);
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+    return json({ intent, message: "Role updated." });
+  }
+
+  // --- Unlock Member Intent ---
+  if (intent === "unlockMember") {
+    const memberId = String(formData.get("memberId") ?? "");
+    const result = await unlockMember(orgId, memberId, user.id);
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+    return json({ intent, message: "Account unlocked. They can log in again." });
+  }
+
+  // --- Remove Member Intent ---
+  if (intent === "removeMember") {
+    const memberId = String(formData.get("memberId") ?? "");
+    const result = await removeMember(orgId, memberId);
+    if (!result.ok) return json({ intent, error: result.error }, { status: result.status });
+    // Admins who removed themselves can't see this page anymore
+    if (formData.get("self") === "1") return redirect("/org/events");
+    return json({ intent, message: "Member removed." });
+  }
+
+  return json({ intent, error: "Invalid intent" }, { status: 400 });
+}
+
+const ROLE_OPTIONS = Object.entries(ROLE_LABELS);
+
+const selectClassName =
+  "rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white";
+
+export default function OrganizationMembersPage() {
+  const { currentUserId, members, invitations } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="space-y-6">
+      {actionData && "error" in actionData && (
+        <div className="rounded-md bg-red-50 p-4 dark:bg-red-900">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{actionData.error}</p>
+        </div>
+      )}
+      {actionData && "message" in actionData && (
+        <div className="rounded-md bg-green-50 p-4 dark:bg-green-900">
+          <p className="text-sm font-medium text-green-800 dark:text-green-200">{actionData.message}</p>
+        </div>
+      )}
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">Invite someone</h2>
+        <Form method="post" className="flex flex-wrap items-end gap-3">
+          <input type="hidden" name="intent" value="invite" />
+          <div className="flex-grow">
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Email</label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              required
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="role" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Role</label>
+            <select id="role" name="role" defaultValue="VIEWER" className={`mt-1 block ${selectClassName}`}>
+              {ROLE_OPTIONS.map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            Send Invitation
+          </button>
+        </Form>
+      </div>
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">Members ({members.length})</h2>
+        <table className="min-w-full divide-y divide-gray-200 text-sm dark:divide-gray-700">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-300">
+              <th className="py-2">Name</th>
+              <th className="py-2">Email</th>
+              <th className="py-2">Role</th>
+              <th className="py-2">Joined</th>
+              <th className="py-2"><span className="sr-only">Actions</span></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {members.map((member) => {
+              const isSelf = member.user.id === currentUserId;
+              return (
+                <tr key={member.id} className="text-gray-700 dark:text-gray-300">
+                  <td className="py-2">{member.user.name || '-'}{isSelf && ' (you)'}</td>
+                  <td className="py-2">
+                    {member.user.email}
+                    {member.locked && (
+                      <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-800 dark:bg-red-900 dark:text-red-200" title="Locked after too many failed logins">
+                        Locked
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <Form method="post" className="flex items-center gap-2">
+                      <input type="hidden" name="intent" value="changeRole" />
+                      <input type="hidden" name="memberId" value={member.id} />
+                      <select name="role" defaultValue={member.role} key={member.role} aria-label={`Role of ${member.user.email}`} className={selectClassName}>
+                        {ROLE_OPTIONS.map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      <button type="submit" disabled={isSubmitting} className="text-indigo-600 hover:underline disabled:opacity-50 dark:text-indigo-400">Save</button>
+                    </Form>
+                  </td>
+                  <td className="whitespace-nowrap py-2">{member.joined}</td>
+                  <td className="space-x-3 whitespace-nowrap py-2 text-right">
+                    {member.locked && (
+                      <Form method="post" className="inline">
+                        <input type="hidden" name="intent" value="unlockMember" />
+                        <input type="hidden" name="memberId" value={member.id} />
+                        <button type="submit" disabled={isSubmitting} className="text-indigo-600 hover:underline disabled:opacity-50 dark:text-indigo-400">Unlock</button>
+                      </Form>
+                    )}
+                    <Form
+                      method="post"
+                      className="inline"
+                      onSubmit={(e) => {
+                        const question = isSelf ? 'Leave this organization? You will lose access to it.' : `Remove ${member.user.email} from this organization?`;
+                        if (!confirm(question)) e.preventDefault();
+                      }}
+                    >
+                      <input type="hidden" name="intent" value="removeMember" />
+                      <input type="hidden" name="memberId" value={member.id} />
+                      {isSelf && <input type="hidden" name="self" value="1" />}
+                      <button type="submit" disabled={isSubmitting} className="text-red-600 hover:text-red-900 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300">
+                        {isSelf ? 'Leave' : 'Remove'}
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="rounded bg-white p-6 shadow dark:bg-gray-800">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">Invitations</h2>
+        {invitations.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200 text-sm dark:divide-gray-700">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-300">
+                <th className="py-2">Email</th>
+                <th className="py-2">Role</th>
+                <th className="py-2">Invited by</th>
+                <th className="py-2">Expires</th>
+                <th className="py-2"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {invitations.map((invitation) => (
+                <tr key={invitation.id} className="text-gray-700 dark:text-gray-300">
+                  <td className="py-2">{invitation.email}</td>
+                  <td className="py-2">{ROLE_LABELS[invitation.role]}</td>
+                  <td className="py-2">{invitation.invitedBy ?? '-'}</td>
+                  <td className="whitespace-nowrap py-2">
+                    {invitation.expired ? <span className="text-red-600 dark:text-red-400">Expired</span> : invitation.expires}
+                  </td>
+                  <td className="space-x-3 whitespace-nowrap py-2 text-right">
+                    <Form method="post" className="inline">
+                      <input type="hidden" name="intent" value="resendInvitation" />
+                      <input type="hidden" name="invitationId" value={invitation.id} />
+                      <button type="submit" disabled={isSubmitting} className="text-indigo-600 hover:underline disabled:opacity-50 dark:text-indigo-400">Resend</button>
+                    </Form>
+                    <Form method="post" className="inline">
+                      <input type="hidden" name="intent" value="revokeInvitation" />
+                      <input type="hidden" name="invitationId" value={invitation.id} />
+                      <button type="submit" disabled={isSubmitting} className="text-red-600 hover:text-red-900 disabled:opacity-50 dark:text-red-400 dark:hover:text-red-300">Revoke</button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No open invitations.</p>
+        )}
+      </div>
+    </div>
+  );
+}
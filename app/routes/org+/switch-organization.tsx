@@ -0,0 +1,22 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { requireUser } from "~/utils/auth.server";
+import { setActiveOrganization } from "~/utils/organizations.server";
+
+// Posted by the organization switcher in the /org layout
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const formData = await request.formData();
+
+  const cookie = await setActiveOrganization(request, user.id, String(formData.get("orgId") ?? ""));
+  if (!cookie) {
+    return json({ error: "You are not a member of that organization." }, { status: 403 });
+  }
+
+  // Pages of the previous organization's events don't exist in the new one
+  return redirect("/org/events", { headers: { "Set-Cookie": cookie } });
+}
+
+export async function loader() {
+  return redirect("/org");
+}
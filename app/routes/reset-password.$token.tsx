@@ -0,0 +1,97 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, useActionData, useNavigation } from "@remix-run/react";
+import invariant from "tiny-invariant";
+import { assertResetLinkAllowed, recordInvalidResetLink } from "~/services/auth-throttle.server";
+import { isPasswordResetTokenValid, resetPassword } from "~/services/user-tokens.server";
+import { NewPasswordSchema, PASSWORD_HINT } from "~/utils/auth-validation";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Choose a new password" }, { name: "robots", content: "noindex, nofollow" }];
+};
+
+const INVALID_LINK = "This reset link is no longer valid. Request a new one.";
+
+type ResetPasswordErrors = Partial<Record<"password" | "confirmPassword" | "form", string>>;
+
+// Answers with a 429 while the client has tried too many invalid links
+async function requireResetLinkAllowed(request: Request) {
+  try {
+    await assertResetLinkAllowed(request);
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      throw new Response(error.message, { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } });
+    }
+    throw error;
+  }
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  invariant(params.token, "Missing token param");
+  await requireResetLinkAllowed(request);
+
+  if (!(await isPasswordResetTokenValid(params.token))) {
+    await recordInvalidResetLink(request);
+    throw new Response(INVALID_LINK, { status: 404 });
+  }
+  return json(null, { headers: { "Cache-Control": "private, no-store", "Referrer-Policy": "no-referrer" } });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  invariant(params.token, "Missing token param");
+  await requireResetLinkAllowed(request);
+
+  const submission = NewPasswordSchema.safeParse(Object.fromEntries(await request.formData()));
+  if (!submission.success) {
+    const fieldErrors = submission.error.flatten().fieldErrors;
+    const errors: ResetPasswordErrors = { password: fieldErrors.password?.[0], confirmPassword: fieldErrors.confirmPassword?.[0] };
+    return json({ errors }, { status: 400 });
+  }
+
+  if (!(await resetPassword(params.token, submission.data.password))) {
+    await recordInvalidResetLink(request);
+    const errors: ResetPasswordErrors = { form: INVALID_LINK };
+    return json({ errors }, { status: 404 });
+  }
+  return redirect("/login?reset=1");
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm";
+
+export default function ResetPasswordPage() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const errors = actionData?.errors;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 dark:bg-gray-900">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-md dark:bg-gray-800">
+        <h1 className="mb-6 text-center text-2xl font-bold text-gray-800 dark:text-gray-100">Choose a new password</h1>
+        <Form method="post" className="space-y-5">
+          {errors?.form && <p className="text-sm text-red-600">{errors.form}</p>}
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">New password</label>
+            <input id="password" name="password" type="password" required autoComplete="new-password" aria-describedby="password-hint" className={inputClassName} />
+            <p id="password-hint" className="mt-1 text-xs text-gray-500 dark:text-gray-400">{PASSWORD_HINT}</p>
+            {errors?.password && <p className="mt-1 text-sm text-red-600">{errors.password}</p>}
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Confirm new password</label>
+            <input id="confirmPassword" name="confirmPassword" type="password" required autoComplete="new-password" className={inputClassName} />
+            {errors?.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword}</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : "Set Password"}
+          </button>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, Link, useActionData, useNavigation } from "@remix-run/react";
+import { useState } from "react";
+import { authenticator } from "~/services/auth.server";
+import { commitSession } from "~/services/session.server";
+import { signUp } from "~/services/signup.server";
+import { sendEmailVerification } from "~/services/user-tokens.server";
+import { startUserSession } from "~/utils/auth.server";
+import { PASSWORD_HINT } from "~/utils/auth-validation";
+import { rememberActiveOrganization } from "~/utils/organizations.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Sign up" }];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  // Signed-in users don't need a new account
+  return await authenticator.isAuthenticated(request, {
+    successRedirect: "/org",
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const result = await signUp(await request.formData());
+  if (!result.ok) {
+    return json({ errors: result.errors }, { status: result.status });
+  }
+
+  await sendEmailVerification(result.user.id);
+
+  const session = await startUserSession(request, result.user);
+  if (result.orgId) rememberActiveOrganization(session, result.orgId);
+  return redirect("/org", { headers: { "Set-Cookie": await commitSession(session) } });
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm";
+
+export default function SignupPage() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const [accountType, setAccountType] = useState<"INDIVIDUAL" | "ORGANIZATION">("INDIVIDUAL");
+  const errors = actionData?.errors;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 px-4 py-8 dark:bg-gray-900">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-md dark:bg-gray-800">
+        <h1 className="mb-6 text-center text-2xl font-bold text-gray-800 dark:text-gray-100">
+          Create your account
+        </h1>
+        <Form method="post" className="space-y-5">
+          {errors?.form && <p className="text-sm text-red-600">{errors.form}</p>}
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300">I&apos;m signing up</legend>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {([
+                { value: "INDIVIDUAL", label: "For myself", description: "View photos from events you take part in" },
+                { value: "ORGANIZATION", label: "For an organization", description: "Run events and share their photos" },
+              ] as const).map((option) => (
+                <label
+                  key={option.value}
+                  className={`cursor-pointer rounded-md border p-3 text-sm ${
+                    accountType === option.value
+                      ? 'border-indigo-500 ring-1 ring-indigo-500'
+                      : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="accountType"
+                    value={option.value}
+                    checked={accountType === option.value}
+                    onChange={() => setAccountType(option.value)}
+                    className="sr-only"
+                  />
+                  <span className="block font-medium text-gray-900 dark:text-white">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                </label>
+              ))}
+            </div>
+            {errors?.accountType && <p className="mt-1 text-sm text-red-600">{errors.accountType}</p>}
+          </fieldset>
+
+          {accountType === "ORGANIZATION" && (
+            <div>
+              <label htmlFor="organizationName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Organization name</label>
+              <input id="organizationName" name="organizationName" type="text" required className={inputClassName} />
+              {errors?.organizationName && <p className="mt-1 text-sm text-red-600">{errors.organizationName}</p>}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Your name</label>
+            <input id="name" name="name" type="text" required autoComplete="name" className={inputClassName} />
+            {errors?.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Email address</label>
+            <input id="email" name="email" type="email" required autoComplete="email" className={inputClassName} />
+            {errors?.email && <p className="mt-1 text-sm text-red-600">{errors.email}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Password</label>
+            <input id="password" name="password" type="password" required autoComplete="new-password" aria-describedby="password-hint" className={inputClassName} />
+            <p id="password-hint" className="mt-1 text-xs text-gray-500 dark:text-gray-400">{PASSWORD_HINT}</p>
+            {errors?.password && <p className="mt-1 text-sm text-red-600">{errors.password}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Confirm password</label>
+            <input id="confirmPassword" name="confirmPassword" type="password" required autoComplete="new-password" className={inputClassName} />
+            {errors?.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword}</p>}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+          >
+            {isSubmitting ? "Creating account..." : "Sign up"}
+          </button>
+          <div className="text-center text-sm text-gray-500 dark:text-gray-400">
+            Already have an account?{" "}
+            <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+              Log in
+            </Link>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { prisma } from "~/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { requireActiveMembership } from "~/utils/organizations.server";
+import { getStorageDriver } from "~/utils/storage.server";
+
+// Resource route serving stored objects at /storage/<key>.
+// Only users working in the organization that owns the event may read its files.
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const key = params["*"];
+
+  // Every key we hand out lives below events/<eventId>/
+  const match = key?.match(/^events\/([^/]+)\/.+$/);
+  if (!key || !match) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const event = await prisma.event.findUnique({
+    where: { id: match[1] },
+    select: { orgId: true },
+  });
+
+  if (!event) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  // Also refuses admins who still have to set up required two-factor authentication
+  const { orgId } = await requireActiveMembership(request, user.id);
+  if (event.orgId !== orgId) {
+    throw new Response("Forbidden", { status: 403 });
+  }
+
+  let object;
+  try {
+    object = await getStorageDriver().getObject(key);
+  } catch (error) {
+    // Invalid keys (e.g. containing "..") are treated as missing
+    console.error("Failed to read stored object:", error);
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  if (!object) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const headers = new Headers({
+    "Content-Type": object.contentType,
+    // Keys are unique per upload, so the content never changes
+    "Cache-Control": "private, max-age=31536000, immutable",
+    "X-Content-Type-Options": "nosniff",
+  });
+  if (object.size !== undefined) {
+    headers.set("Content-Length", String(object.size));
+  }
+
+  return new Response(object.body, { headers });
+}
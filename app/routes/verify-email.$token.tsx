@@ -0,0 +1,42 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import invariant from "tiny-invariant";
+import { recordInvalidTokenLookup, requireTokenLookupAllowed } from "~/services/auth-throttle.server";
+import { verifyEmail } from "~/services/user-tokens.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Confirm email" }, { name: "robots", content: "noindex, nofollow" }];
+};
+
+// Opening the emailed link is the confirmation
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  invariant(params.token, "Missing token param");
+  await requireTokenLookupAllowed(request);
+
+  const verified = await verifyEmail(params.token);
+  if (!verified) await recordInvalidTokenLookup(request);
+  return json({ verified }, { headers: { "Cache-Control": "private, no-store", "Referrer-Policy": "no-referrer" } });
+}
+
+export default function VerifyEmailPage() {
+  const { verified } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gray-100 dark:bg-gray-900">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 text-center shadow-md dark:bg-gray-800">
+        <h1 className="mb-2 text-2xl font-bold text-gray-800 dark:text-gray-100">
+          {verified ? "Email confirmed" : "Link no longer valid"}
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {verified
+            ? "Thanks, your email address is confirmed."
+            : "This confirmation link has expired or was already used. Sign in to send a new one."}
+        </p>
+        <Link to="/org" className="mt-6 inline-block rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+          Continue
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { sendEmailVerification } from "~/services/user-tokens.server";
+import { requireUser } from "~/utils/auth.server";
+
+// Resource route sending the signed-in user a new email confirmation link
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  await sendEmailVerification(user.id);
+  return json({ message: `We've sent a confirmation link to ${user.email}.` });
+}
+
+export async function loader() {
+  return redirect("/org");
+}
@@ -0,0 +1,30 @@
+import { prisma } from "~/db.server";
+
+/**
+ * Append-only log of security-relevant events (AuditEvent), such as
+ * account lockouts and unlocks.
+ */
+
+export type AuditAction = "auth.account_locked" | "auth.ip_locked" | "auth.account_unlocked";
+
+export interface AuditEventInput {
+  action: AuditAction;
+  userId?: string | null;
+  actorUserId?: string | null;
+  orgId?: string | null;
+  ipAddress?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  await prisma.auditEvent.create({
+    data: {
+      action: event.action,
+      userId: event.userId ?? null,
+      actorUserId: event.actorUserId ?? null,
+      orgId: event.orgId ?? null,
+      ipAddress: event.ipAddress ?? null,
+      details: event.details ? JSON.stringify(event.details) : null,
+    },
+  });
+}
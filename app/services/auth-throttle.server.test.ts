@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  assertLoginAllowed,
+  clearFailedLogins,
+  isAccountLocked,
+  recordFailedLogin,
+  recordInvalidTokenLookup,
+  requireTokenLookupAllowed,
+  throttlePasswordResetRequest,
+  throttleRegistration,
+  unlockAccount,
+} from "~/services/auth-throttle.server";
+import { resetDb, rows } from "~/test/fake-db";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+
+vi.hoisted(() => {
+  // One reverse proxy in front of the app; read when request.server loads
+  process.env.TRUSTED_PROXY_COUNT = "1";
+});
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+
+const auditActions = () => rows<{ action: string }>("auditEvent").map((event) => event.action);
+
+// Counters stay in the memory store for the whole file, so each test uses its own emails and addresses
+function requestFrom(forwardedFor?: string): Request {
+  return new Request("http://localhost/login", { headers: forwardedFor ? { "X-Forwarded-For": forwardedFor } : {} });
+}
+
+async function fail(email: string, request: Request, times: number) {
+  for (let i = 0; i < times; i++) await recordFailedLogin(email, request);
+}
+
+describe("login throttling", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    resetDb();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets a few attempts through, then makes each further one wait", async () => {
+    const request = requestFrom("198.51.100.1");
+    await fail("wait@example.com", request, 3);
+    await expect(assertLoginAllowed("wait@example.com", request)).resolves.toBeUndefined();
+
+    await fail("wait@example.com", request, 1);
+    await expect(assertLoginAllowed("wait@example.com", request)).rejects.toBeInstanceOf(RateLimitedError);
+
+    vi.advanceTimersByTime(1000);
+    await expect(assertLoginAllowed("wait@example.com", request)).resolves.toBeUndefined();
+  });
+
+  it("counts differently typed emails as the same account", async () => {
+    const request = requestFrom("198.51.100.2");
+    await fail("Case@Example.com", request, 2);
+    await fail(" case@example.com", request, 2);
+
+    await expect(assertLoginAllowed("CASE@example.com", request)).rejects.toBeInstanceOf(RateLimitedError);
+  });
+
+  it("locks the account after too many failures and records it once", async () => {
+    const request = requestFrom("198.51.100.3");
+    rows("user").push({ id: "user-1", email: "locked@example.com" });
+    await fail("locked@example.com", request, 10);
+
+    expect(await isAccountLocked("locked@example.com")).toBe(true);
+    expect(auditActions().filter((action) => action === "auth.account_locked")).toHaveLength(1);
+
+    await unlockAccount({ userId: "user-1", email: "locked@example.com", actorUserId: "admin-1", orgId: "org-1" });
+    expect(await isAccountLocked("locked@example.com")).toBe(false);
+    expect(auditActions().at(-1)).toBe("auth.account_unlocked");
+  });
+
+  it("forgets failures after a successful login", async () => {
+    const request = requestFrom("198.51.100.4");
+    await fail("cleared@example.com", request, 4);
+    await clearFailedLogins("cleared@example.com");
+
+    await expect(assertLoginAllowed("cleared@example.com", request)).resolves.toBeUndefined();
+  });
+
+  it("limits an address however the client fills in X-Forwarded-For", async () => {
+    for (let i = 0; i < 21; i++) {
+      await recordFailedLogin(`spray-${i}@example.com`, requestFrom(`10.0.0.${i}, 203.0.113.9`));
+    }
+
+    await expect(assertLoginAllowed("someone-else@example.com", requestFrom("192.0.2.200, 203.0.113.9"))).rejects.toBeInstanceOf(RateLimitedError);
+    await expect(assertLoginAllowed("someone-else@example.com", requestFrom("203.0.113.10"))).resolves.toBeUndefined();
+  });
+
+  it("doesn't let clients with an unknown address lock each other out", async () => {
+    for (let i = 0; i < 101; i++) {
+      await recordFailedLogin(`unknown-${i}@example.com`, requestFrom());
+    }
+
+    await expect(assertLoginAllowed("another@example.com", requestFrom())).resolves.toBeUndefined();
+  });
+});
+
+describe("password reset throttling", () => {
+  it("limits reset emails per address", async () => {
+    for (let i = 0; i < 4; i++) {
+      await throttlePasswordResetRequest("reset@example.com", requestFrom(`198.51.100.${20 + i}`));
+    }
+
+    await expect(throttlePasswordResetRequest("reset@example.com", requestFrom("198.51.100.30"))).rejects.toBeInstanceOf(RateLimitedError);
+  });
+});
+
+describe("secret link throttling", () => {
+  it("answers with a 429 after too many invalid links", async () => {
+    const request = requestFrom("198.51.100.40");
+    for (let i = 0; i < 10; i++) await recordInvalidTokenLookup(request);
+    await expect(requireTokenLookupAllowed(request)).resolves.toBeUndefined();
+
+    await recordInvalidTokenLookup(request);
+    const response = await requireTokenLookupAllowed(request).catch((error: unknown) => error);
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).status).toBe(429);
+    expect((response as Response).headers.get("Retry-After")).toBe("1");
+  });
+});
+
+describe("registration throttling", () => {
+  it("limits registrations per event and IP address", async () => {
+    const request = requestFrom("198.51.100.50");
+    for (let i = 0; i < 21; i++) await throttleRegistration("event-1", request);
+
+    await expect(throttleRegistration("event-1", request)).rejects.toBeInstanceOf(RateLimitedError);
+    await expect(throttleRegistration("event-2", request)).resolves.toBeUndefined();
+    await expect(throttleRegistration("event-1", requestFrom("198.51.100.51"))).resolves.toBeUndefined();
+  });
+
+  it("doesn't limit clients whose address is unknown", async () => {
+    for (let i = 0; i < 30; i++) await throttleRegistration("event-3", requestFrom());
+    await expect(throttleRegistration("event-3", requestFrom())).resolves.toBeUndefined();
+  });
+});
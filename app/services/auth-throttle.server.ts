@@ -0,0 +1,206 @@
+import { prisma } from "~/db.server";
+import { recordAuditEvent } from "~/services/audit.server";
+import { emailVariants, normalizeEmail } from "~/utils/email";
+import type { RateLimitPolicy, RateLimitStatus } from "~/utils/rate-limit.server";
+import { checkRateLimit, clearRateLimit, formatRetryAfter, RateLimitedError, registerAttempt } from "~/utils/rate-limit.server";
+import { getClientIp } from "~/utils/request.server";
+
+/**
+ * Brute-force protection for the login form, password reset, secret links
+ * and public event registration. Failed logins are counted per account and per IP address; once the
+ * account counter locks, an admin can unlock it from the members page.
+ * Limits per IP address only apply when the address is known (see
+ * getClientIp); otherwise every client would share one counter and could
+ * lock out everyone else.
+ */
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const LOGIN_MAX_ATTEMPTS = Number(process.env.LOGIN_MAX_ATTEMPTS ?? 10);
+const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15);
+
+const LOGIN_ACCOUNT: RateLimitPolicy = {
+  name: "login-account",
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxAttempts: LOGIN_MAX_ATTEMPTS,
+  lockoutMs: LOGIN_LOCKOUT_MINUTES * MINUTE_MS,
+  windowMs: HOUR_MS,
+};
+
+// Generous, since many people can share an address (offices, mobile networks)
+const LOGIN_IP: RateLimitPolicy = {
+  name: "login-ip",
+  freeAttempts: 20,
+  baseDelayMs: 1000,
+  maxAttempts: 100,
+  lockoutMs: HOUR_MS,
+  windowMs: HOUR_MS,
+};
+
+// Reset emails per address, so the form can't be used to flood an inbox
+const PASSWORD_RESET_EMAIL: RateLimitPolicy = {
+  name: "password-reset-email",
+  freeAttempts: 3,
+  baseDelayMs: MINUTE_MS,
+  maxAttempts: 5,
+  lockoutMs: HOUR_MS,
+  windowMs: HOUR_MS,
+};
+
+// Reset requests and invalid reset links per IP address
+const PASSWORD_RESET_IP: RateLimitPolicy = {
+  name: "password-reset-ip",
+  freeAttempts: 10,
+  baseDelayMs: 1000,
+  maxAttempts: 30,
+  lockoutMs: HOUR_MS,
+  windowMs: HOUR_MS,
+};
+
+// Invalid secret links (galleries, consent pages, invitations, email confirmations) per IP address
+const TOKEN_LOOKUP_IP: RateLimitPolicy = {
+  name: "token-lookup-ip",
+  freeAttempts: 10,
+  baseDelayMs: 1000,
+  maxAttempts: 50,
+  lockoutMs: HOUR_MS,
+  windowMs: HOUR_MS,
+};
+
+// Public registrations per event and IP address; each one may carry a selfie upload
+const REGISTRATION_IP: RateLimitPolicy = {
+  name: "registration-ip",
+  freeAttempts: 20,
+  baseDelayMs: 1000,
+  maxAttempts: 60,
+  lockoutMs: HOUR_MS,
+  windowMs: HOUR_MS,
+};
+
+async function checkIpLimit(policy: RateLimitPolicy, request: Request): Promise<RateLimitStatus> {
+  const ip = getClientIp(request);
+  return ip ? checkRateLimit(policy, ip) : { allowed: true };
+}
+
+async function registerIpAttempt(policy: RateLimitPolicy, request: Request): Promise<{ lockedOut: boolean }> {
+  const ip = getClientIp(request);
+  return ip ? registerAttempt(policy, ip) : { lockedOut: false };
+}
+
+function tooManyAttempts(what: string, retryAfterSeconds: number): RateLimitedError {
+  return new RateLimitedError(`Too many ${what}. Try again ${formatRetryAfter(retryAfterSeconds)}.`, retryAfterSeconds);
+}
+
+// Throws a RateLimitedError while the account or the client's IP address has to wait
+export async function assertLoginAllowed(email: string, request: Request): Promise<void> {
+  const [account, address] = await Promise.all([
+    checkRateLimit(LOGIN_ACCOUNT, normalizeEmail(email)),
+    checkIpLimit(LOGIN_IP, request),
+  ]);
+
+  for (const status of [account, address]) {
+    if (!status.allowed) throw tooManyAttempts("login attempts", status.retryAfterSeconds);
+  }
+}
+
+export async function recordFailedLogin(email: string, request: Request): Promise<void> {
+  const ip = getClientIp(request);
+  const [account, address] = await Promise.all([
+    registerAttempt(LOGIN_ACCOUNT, normalizeEmail(email)),
+    registerIpAttempt(LOGIN_IP, request),
+  ]);
+
+  if (account.lockedOut) {
+    const user = await prisma.user.findFirst({ where: { email: { in: emailVariants(email) } }, select: { id: true } });
+    await recordAuditEvent({
+      action: "auth.account_locked",
+      userId: user?.id,
+      ipAddress: ip,
+      details: { email: normalizeEmail(email), attempts: LOGIN_ACCOUNT.maxAttempts, lockoutMinutes: LOGIN_LOCKOUT_MINUTES },
+    });
+  }
+  if (address.lockedOut) {
+    await recordAuditEvent({ action: "auth.ip_locked", ipAddress: ip, details: { attempts: LOGIN_IP.maxAttempts } });
+  }
+}
+
+export async function clearFailedLogins(email: string): Promise<void> {
+  await clearRateLimit(LOGIN_ACCOUNT, normalizeEmail(email));
+}
+
+// Whether the account is locked out, as opposed to waiting out a short backoff
+export async function isAccountLocked(email: string): Promise<boolean> {
+  const status = await checkRateLimit(LOGIN_ACCOUNT, normalizeEmail(email));
+  return !status.allowed && status.locked;
+}
+
+export async function unlockAccount({
+  userId,
+  email,
+  actorUserId,
+  orgId,
+}: {
+  userId: string;
+  email: string;
+  actorUserId: string;
+  orgId: string;
+}): Promise<void> {
+  await clearFailedLogins(email);
+  await recordAuditEvent({ action: "auth.account_unlocked", userId, actorUserId, orgId });
+}
+
+/**
+ * Counts a password reset request for the email and the client's IP
+ * address. Throws a RateLimitedError instead of counting it while either
+ * has to wait.
+ */
+export async function throttlePasswordResetRequest(email: string, request: Request): Promise<void> {
+  const [inbox, address] = await Promise.all([
+    checkRateLimit(PASSWORD_RESET_EMAIL, normalizeEmail(email)),
+    checkIpLimit(PASSWORD_RESET_IP, request),
+  ]);
+  for (const status of [inbox, address]) {
+    if (!status.allowed) throw tooManyAttempts("reset requests", status.retryAfterSeconds);
+  }
+
+  await Promise.all([registerAttempt(PASSWORD_RESET_EMAIL, normalizeEmail(email)), registerIpAttempt(PASSWORD_RESET_IP, request)]);
+}
+
+// Throws a RateLimitedError while the client's IP address has to wait after invalid reset links
+export async function assertResetLinkAllowed(request: Request): Promise<void> {
+  const status = await checkIpLimit(PASSWORD_RESET_IP, request);
+  if (!status.allowed) throw tooManyAttempts("attempts", status.retryAfterSeconds);
+}
+
+export async function recordInvalidResetLink(request: Request): Promise<void> {
+  await registerIpAttempt(PASSWORD_RESET_IP, request);
+}
+
+// Answers with a 429 while the client's IP address has to wait after opening invalid links
+export async function requireTokenLookupAllowed(request: Request): Promise<void> {
+  const status = await checkIpLimit(TOKEN_LOOKUP_IP, request);
+  if (!status.allowed) {
+    const error = tooManyAttempts("invalid links", status.retryAfterSeconds);
+    throw new Response(error.message, { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } });
+  }
+}
+
+export async function recordInvalidTokenLookup(request: Request): Promise<void> {
+  await registerIpAttempt(TOKEN_LOOKUP_IP, request);
+}
+
+/**
+ * Counts a registration attempt on the event's public page for the client's
+ * IP address. Throws a RateLimitedError instead of counting it while the
+ * address has to wait.
+ */
+export async function throttleRegistration(eventId: string, request: Request): Promise<void> {
+  const ip = getClientIp(request);
+  if (!ip) return;
+  const key = `${eventId}:${ip}`;
+  const status = await checkRateLimit(REGISTRATION_IP, key);
+  if (!status.allowed) throw tooManyAttempts("registrations from your network", status.retryAfterSeconds);
+  await registerAttempt(REGISTRATION_IP, key);
+}
@@ -1,29 +1,52 @@
 import { Authenticator } from "remix-auth";
 import { FormStrategy } from "remix-auth-form";
-import { sessionStorage } from "~/services/session.server.ts";
+import { SESSION_USER_KEY, sessionStorage } from "~/services/session.server.ts";
 import { prisma } from "~/db.server";
 import bcrypt from "bcryptjs";
 import type { User } from "@prisma/client";
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin } from "~/services/auth-throttle.server";
+import { emailVariants } from "~/utils/email";
+import { LoginSchema } from "~/utils/auth-validation";
+
+// What the session and loaders see of a user: everything but the secrets
+export type SessionUser = Omit<User, "passwordHash" | "totpSecret" | "totpLastUsedStep">;
+
+export function toSessionUser(user: User): SessionUser {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { passwordHash, totpSecret, totpLastUsedStep, ...sessionUser } = user;
+  return sessionUser;
+}
 
 // Create an instance of the authenticator, pass a generic with what
 // strategies will return and will store in the session
-export const authenticator = new Authenticator<User>(sessionStorage);
+export const authenticator = new Authenticator<SessionUser>(sessionStorage, { sessionKey: SESSION_USER_KEY });
+
+const BCRYPT_ROUNDS = 10;
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
 
 authenticator.use(
-  new FormStrategy(async ({ form }) => {
-    const email = form.get("email") as string;
-    const password = form.get("password") as string;
+  new FormStrategy(async ({ form, request }) => {
+    const submission = LoginSchema.safeParse({ email: form.get("email"), password: form.get("password") });
 
     // Basic validation
-    if (!email || !password) {
+    if (!submission.success) {
       throw new Error("Email and password are required.");
     }
+    const { email, password } = submission.data;
+
+    // Refuses the attempt (before comparing hashes) while it has to wait
+    await assertLoginAllowed(email, request);
 
-    const user = await prisma.user.findUnique({
-      where: { email },
+    const user = await prisma.user.findFirst({
+      where: { email: { in: emailVariants(email) } },
     });
 
     if (!user) {
+      // Count it like a wrong password so unknown and known emails look alike
+      await recordFailedLogin(email, request);
       // Use a generic message to prevent email enumeration
       throw new Error("Invalid login credentials.");
     }
@@ -31,14 +54,14 @@ authenticator.use(
     const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
 
     if (!isPasswordValid) {
+      await recordFailedLogin(email, request);
       throw new Error("Invalid login credentials.");
     }
+    await clearFailedLogins(email);
 
     // The user object will be stored in the session.
     // Don't store sensitive data like the password hash!
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { passwordHash, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+    return toSessionUser(user);
   }),
   // each strategy has a name and can be changed to use another one
   // same strategy multiple times, the name is the key to use to
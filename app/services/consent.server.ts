@@ -0,0 +1,175 @@
+import type { ConsentActionStatus, ConsentType } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { enqueueNotification } from "~/services/mail/outbox.server";
+import { consentUrl, createConsentToken } from "~/utils/participant-links.server";
+
+/**
+ * Consent is stored as an append-only log; the most recent entry for a
+ * participant and consent type decides whether consent is currently given.
+ */
+
+export const CONSENT_TYPES: ConsentType[] = ["PHOTO_STORAGE", "FACIAL_RECOGNITION", "DATA_SHARING"];
+
+// Version of the consent wording participants agree to; bump CONSENT_POLICY_VERSION when it changes
+export function getConsentPolicyVersion(): string {
+  return process.env.CONSENT_POLICY_VERSION ?? "1";
+}
+
+// Returns the participants among participantIds whose latest entry of this type is GRANTED
+export async function getParticipantsWithConsent(participantIds: string[], type: ConsentType): Promise<Set<string>> {
+  const logs = await prisma.consentLog.findMany({
+    where: { participantId: { in: participantIds }, type },
+    orderBy: { timestamp: "desc" },
+    select: { participantId: true, status: true },
+  });
+
+  const latest = new Map<string, ConsentActionStatus>();
+  for (const log of logs) {
+    if (log.participantId && !latest.has(log.participantId)) {
+      latest.set(log.participantId, log.status);
+    }
+  }
+
+  return new Set([...latest].filter(([, status]) => status === "GRANTED").map(([participantId]) => participantId));
+}
+
+export async function hasParticipantConsent(participantId: string, type: ConsentType): Promise<boolean> {
+  return (await getParticipantsWithConsent([participantId], type)).has(participantId);
+}
+
+export type ConsentState = Record<
+  ConsentType,
+  { status: ConsentActionStatus; timestamp: Date; policyVersion: string | null } | null
+>;
+
+/**
+ * Current choice for every consent type, from the latest log entry of each.
+ * Null means the participant was never asked.
+ */
+export async function getConsentState(participantId: string): Promise<ConsentState> {
+  const logs = await prisma.consentLog.findMany({
+    where: { participantId },
+    orderBy: { timestamp: "desc" },
+    select: { type: true, status: true, timestamp: true, policyVersion: true },
+  });
+
+  const state = Object.fromEntries(CONSENT_TYPES.map((type) => [type, null])) as ConsentState;
+  for (const log of logs) {
+    state[log.type] ??= { status: log.status, timestamp: log.timestamp, policyVersion: log.policyVersion };
+  }
+  return state;
+}
+
+/**
+ * Appends a consent decision to the log. Photo storage consent is mirrored
+ * to `Participant.consentStatus`. Revoking facial recognition deletes
+ * everything face matching derived for the participant: all their matches
+ * (reviewed or not) and their reference embedding.
+ */
+export async function recordParticipantConsent({
+  participantId,
+  type,
+  status,
+  details,
+  ipAddress,
+  policyVersion = getConsentPolicyVersion(),
+}: {
+  participantId: string;
+  type: ConsentType;
+  status: ConsentActionStatus;
+  details?: string;
+  ipAddress?: string | null;
+  policyVersion?: string;
+}) {
+  const participant = await prisma.participant.findUniqueOrThrow({
+    where: { id: participantId },
+    select: { eventId: true, userId: true },
+  });
+
+  const [log] = await prisma.$transaction([
+    prisma.consentLog.create({
+      data: {
+        participantId,
+        eventId: participant.eventId,
+        userId: participant.userId,
+        type,
+        status,
+        policyVersion,
+        ipAddress,
+        details,
+      },
+    }),
+    ...(type === "PHOTO_STORAGE"
+      ? [prisma.participant.update({ where: { id: participantId }, data: { consentStatus: status === "GRANTED" } })]
+      : []),
+    ...(type === "FACIAL_RECOGNITION" && status === "REVOKED"
+      ? [
+          prisma.photoParticipantMatch.deleteMany({ where: { participantId } }),
+          prisma.faceMatchingTaskParticipant.deleteMany({ where: { participantId } }),
+          prisma.participant.update({ where: { id: participantId }, data: { referenceFaceDescriptor: null } }),
+        ]
+      : []),
+  ]);
+  return log;
+}
+
+/**
+ * Records the participant's choices from a consent form, one log entry per
+ * type whose state actually changes. Returns the types that changed.
+ */
+export async function updateParticipantConsents(
+  participantId: string,
+  choices: Partial<Record<ConsentType, boolean>>,
+  { details, ipAddress }: { details?: string; ipAddress?: string | null } = {}
+): Promise<ConsentType[]> {
+  const current = await getConsentState(participantId);
+  const changed: ConsentType[] = [];
+
+  for (const type of CONSENT_TYPES) {
+    const granted = choices[type];
+    if (granted === undefined) continue;
+    // A first answer is always logged, even a "no"
+    const previous = current[type];
+    if (previous && (previous.status === "GRANTED") === granted) continue;
+
+    await recordParticipantConsent({ participantId, type, status: granted ? "GRANTED" : "REVOKED", details, ipAddress });
+    changed.push(type);
+  }
+  return changed;
+}
+
+// Full consent history of a participant, newest first
+export async function listParticipantConsentLogs(participantId: string) {
+  return prisma.consentLog.findMany({
+    where: { participantId },
+    orderBy: { timestamp: "desc" },
+    select: { id: true, type: true, status: true, timestamp: true, policyVersion: true, ipAddress: true, details: true },
+  });
+}
+
+/**
+ * Emails the participant a link to the page where they manage their
+ * consent. Returns false for participants without an email address.
+ */
+export async function requestParticipantConsent(participantId: string): Promise<boolean> {
+  const participant = await prisma.participant.findUniqueOrThrow({
+    where: { id: participantId },
+    select: { id: true, name: true, email: true, event: { select: { name: true, organization: { select: { name: true } } } } },
+  });
+  if (!participant.email) return false;
+
+  const { token, expiresAt } = createConsentToken(participant.id);
+  await enqueueNotification({
+    template: "consent-request",
+    data: {
+      participantName: participant.name,
+      eventName: participant.event.name,
+      organizationName: participant.event.organization.name,
+      consentUrl: consentUrl(token),
+    },
+    to: { email: participant.email, name: participant.name },
+    participantId: participant.id,
+    secretExpiresAt: expiresAt,
+  });
+  return true;
+}
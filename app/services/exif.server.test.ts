@@ -0,0 +1,45 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { extractExifData, stripImageMetadata } from "~/services/exif.server";
+
+// A small image tagged with a camera and a location in Berlin
+function taggedImage(format: "jpeg" | "png" | "avif") {
+  return sharp({ create: { width: 32, height: 24, channels: 3, background: "#336699" } })
+    .withExif({
+      IFD0: { Make: "Acme", Model: "Snap 1" },
+      IFD3: { GPSLatitudeRef: "N", GPSLatitude: "52/1 30/1 0/1", GPSLongitudeRef: "E", GPSLongitude: "13/1 24/1 0/1" },
+    })
+    .toFormat(format)
+    .toBuffer();
+}
+
+describe("extractExifData", () => {
+  it("reads the camera, dimensions and location", async () => {
+    const metadata = await extractExifData(await taggedImage("jpeg"));
+
+    expect(metadata).toMatchObject({ cameraMake: "Acme", cameraModel: "Snap 1", width: 32, height: 24 });
+    expect(metadata.gps).toMatchObject({ latitude: 52.5, longitude: 13.4 });
+  });
+
+  it("returns nulls for data that isn't an image", async () => {
+    const metadata = await extractExifData(Buffer.from("not an image"));
+    expect(metadata).toMatchObject({ cameraMake: null, width: null, gps: null });
+  });
+});
+
+describe("stripImageMetadata", () => {
+  it("removes the location and keeps the format", async () => {
+    const { buffer, format } = await stripImageMetadata(await taggedImage("png"));
+
+    expect(format).toBe("png");
+    expect((await sharp(buffer).metadata()).format).toBe("png");
+    expect((await extractExifData(buffer)).gps).toBeNull();
+  });
+
+  it("reports formats it converts to JPEG", async () => {
+    const { buffer, format } = await stripImageMetadata(await taggedImage("avif"));
+
+    expect(format).toBe("jpeg");
+    expect((await sharp(buffer).metadata()).format).toBe("jpeg");
+  });
+});
@@ -0,0 +1,80 @@
+import { parse } from "exifr/dist/full.esm.mjs";
+import sharp from "sharp";
+
+// Shape of the JSON stored in EventPhoto.metadata
+export interface PhotoMetadata {
+  cameraMake: string | null;
+  cameraModel: string | null;
+  capturedAt: string | null; // ISO timestamp from DateTimeOriginal
+  orientation: number | null; // EXIF orientation (1-8)
+  width: number | null; // Display dimensions, i.e. after applying orientation
+  height: number | null;
+  gps: { latitude: number; longitude: number; altitude: number | null } | null;
+}
+
+function toStringOrNull(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Extracts camera, capture time, orientation, dimensions and GPS data from
+ * an image. Missing or unreadable tags come back as null rather than failing.
+ */
+export async function extractExifData(image: Buffer): Promise<PhotoMetadata> {
+  // exifr throws on formats it doesn't understand (e.g. GIF); treat as no EXIF.
+  const tags = await parse(image, { tiff: true, exif: true, gps: true, translateValues: false })
+    .catch(() => undefined);
+  const info = await sharp(image, { failOn: "none" }).metadata().catch(() => undefined);
+
+  const orientation = toNumberOrNull(tags?.Orientation ?? info?.orientation);
+  // Orientations 5-8 are rotated by 90 degrees, so width and height swap
+  const rotated = orientation !== null && orientation >= 5;
+  const rawWidth = toNumberOrNull(info?.width ?? tags?.ExifImageWidth);
+  const rawHeight = toNumberOrNull(info?.height ?? tags?.ExifImageHeight);
+
+  const capturedAt = tags?.DateTimeOriginal ?? tags?.CreateDate;
+  const latitude = toNumberOrNull(tags?.latitude);
+  const longitude = toNumberOrNull(tags?.longitude);
+
+  return {
+    cameraMake: toStringOrNull(tags?.Make),
+    cameraModel: toStringOrNull(tags?.Model),
+    capturedAt: capturedAt instanceof Date && !isNaN(capturedAt.getTime()) ? capturedAt.toISOString() : null,
+    orientation,
+    width: rotated ? rawHeight : rawWidth,
+    height: rotated ? rawWidth : rawHeight,
+    gps:
+      latitude !== null && longitude !== null
+        ? { latitude, longitude, altitude: toNumberOrNull(tags?.GPSAltitude) }
+        : null,
+  };
+}
+
+// Formats stripImageMetadata writes; anything else is converted to JPEG
+export type StrippedImageFormat = "jpeg" | "png" | "webp" | "gif";
+
+/**
+ * Re-encodes an image without any embedded metadata, so location tags can't
+ * leak through the stored file. Orientation is baked into the pixels and the
+ * colour profile is kept. Returns the format written, which differs from the
+ * input for HEIC, AVIF, TIFF and other formats that become JPEG.
+ */
+export async function stripImageMetadata(image: Buffer): Promise<{ buffer: Buffer; format: StrippedImageFormat }> {
+  const pipeline = sharp(image, { failOn: "none" }).rotate().keepIccProfile();
+  const { format } = await pipeline.metadata();
+
+  switch (format) {
+    case "png":
+      return { buffer: await pipeline.png().toBuffer(), format };
+    case "webp":
+      return { buffer: await pipeline.webp({ quality: 95 }).toBuffer(), format };
+    case "gif":
+      return { buffer: await pipeline.gif().toBuffer(), format };
+    default:
+      return { buffer: await pipeline.jpeg({ quality: 95, mozjpeg: true }).toBuffer(), format: "jpeg" };
+  }
+}
@@ -0,0 +1,28 @@
+// Helpers for storing and comparing face descriptors (embeddings)
+
+export function encodeDescriptor(descriptor: Float32Array): Buffer {
+  return Buffer.from(descriptor.buffer, descriptor.byteOffset, descriptor.byteLength);
+}
+
+export function decodeDescriptor(data: Uint8Array): Float32Array {
+  // Copy into a fresh, aligned buffer; Float32Array needs 4-byte alignment
+  const copy = new Uint8Array(data);
+  return new Float32Array(copy.buffer, 0, Math.floor(copy.byteLength / 4));
+}
+
+/**
+ * Cosine similarity between two descriptors, from -1 to 1 (1 = identical).
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
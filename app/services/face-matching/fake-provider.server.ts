@@ -0,0 +1,71 @@
+import { createHash } from "node:crypto";
+import sharp from "sharp";
+import type { FaceRecognitionProvider } from "~/services/face-matching/provider.server";
+
+const DESCRIPTOR_LENGTH = 128;
+
+// Small seeded PRNG (mulberry32) so results are reproducible across runs
+function seededRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Side of the greyscale grid the image is reduced to before hashing
+const HASH_GRID_SIZE = 8;
+
+/**
+ * Average hash of the image: one bit per grid cell, set when the cell is
+ * brighter than the mean. Unlike hashing the file bytes it survives resizing
+ * and re-encoding, so a photo's web rendition hashes like its original.
+ */
+async function averageHash(image: Buffer): Promise<Buffer> {
+  const pixels = await sharp(image, { failOn: "none" })
+    .rotate()
+    .resize(HASH_GRID_SIZE, HASH_GRID_SIZE, { fit: "fill" })
+    .greyscale()
+    .raw()
+    .toBuffer();
+  const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+  const bits = Buffer.alloc(pixels.length / 8);
+  pixels.forEach((value, i) => {
+    if (value > mean) bits[i >> 3] |= 1 << (i & 7);
+  });
+  return bits;
+}
+
+/**
+ * Deterministic stand-in for a real face recognition service, for local
+ * development and offline testing. It "finds" one to three faces per image
+ * based on a perceptual hash of the picture, so the same image always yields
+ * the same faces and descriptors: a participant whose reference photo is a
+ * copy of an event photo will match that photo (even after resizing or
+ * re-encoding), and unrelated images won't match.
+ */
+export function createFakeFaceProvider(): FaceRecognitionProvider {
+  return {
+    name: "fake",
+
+    async detectFaces(image) {
+      const hash = createHash("sha256").update(await averageHash(image)).digest();
+      const faceCount = (hash[0] % 3) + 1;
+
+      return Array.from({ length: faceCount }, (_, index) => {
+        const random = seededRandom(hash.readUInt32BE(4 * (index + 1)));
+        const descriptor = new Float32Array(DESCRIPTOR_LENGTH);
+        for (let i = 0; i < DESCRIPTOR_LENGTH; i++) {
+          descriptor[i] = random() * 2 - 1;
+        }
+        // Lay faces out left to right so bounding boxes don't overlap
+        const width = 0.8 / faceCount;
+        return {
+          boundingBox: { x: 0.1 + index * width, y: 0.2 + random() * 0.2, width: width * 0.8, height: 0.3 },
+          descriptor,
+        };
+      });
+    },
+  };
+}
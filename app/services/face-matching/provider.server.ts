@@ -0,0 +1,48 @@
+import { createFakeFaceProvider } from "~/services/face-matching/fake-provider.server";
+
+// Face position relative to the image size, each value between 0 and 1
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedFaceResult {
+  boundingBox: BoundingBox;
+  descriptor: Float32Array; // Embedding used to compare faces
+}
+
+// Every face detection/embedding backend implements this interface
+export interface FaceRecognitionProvider {
+  readonly name: string;
+  detectFaces(image: Buffer): Promise<DetectedFaceResult[]>;
+}
+
+type ProviderFactory = () => FaceRecognitionProvider;
+
+const providerFactories: Record<string, ProviderFactory> = {
+  fake: createFakeFaceProvider,
+};
+
+/**
+ * Makes an additional provider available under FACE_RECOGNITION_PROVIDER=<name>.
+ */
+export function registerFaceRecognitionProvider(name: string, factory: ProviderFactory) {
+  providerFactories[name] = factory;
+}
+
+let provider: FaceRecognitionProvider | undefined;
+
+// Returns the configured provider ("fake" unless FACE_RECOGNITION_PROVIDER says otherwise)
+export function getFaceRecognitionProvider(): FaceRecognitionProvider {
+  if (!provider) {
+    const name = process.env.FACE_RECOGNITION_PROVIDER ?? "fake";
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown FACE_RECOGNITION_PROVIDER: ${name}`);
+    }
+    provider = factory();
+  }
+  return provider;
+}
@@ -0,0 +1,120 @@
+import type { FaceMatchingTaskStatus } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { findMatchableParticipantIds } from "~/services/participants.server";
+import { APPROVED_PHOTO } from "~/services/photos.server";
+import { COVERED_BY_COMPLETED_TASK, notifyFaceMatchingWorker } from "~/services/face-matching/worker.server";
+
+// Statuses that mean a task is queued or running
+const ACTIVE_TASK_STATUSES: FaceMatchingTaskStatus[] = ["PENDING", "PROCESSING"];
+
+/**
+ * Returns the event's queued or running task, if any. Only one may exist at a time.
+ */
+export async function findActiveTask(eventId: string) {
+  return prisma.faceMatchingTask.findFirst({
+    where: { eventId, status: { in: ACTIVE_TASK_STATUSES } },
+    select: { id: true, status: true },
+  });
+}
+
+/**
+ * Counts the approved photos and participants an incremental run would process.
+ */
+export async function countUnprocessedItems(eventId: string) {
+  const [photos, participants] = await Promise.all([
+    prisma.eventPhoto.count({ where: { eventId, ...APPROVED_PHOTO, matchingTasks: { none: COVERED_BY_COMPLETED_TASK } } }),
+    prisma.participant.count({
+      where: {
+        id: { in: await findMatchableParticipantIds(eventId) },
+        matchingTasks: { none: COVERED_BY_COMPLETED_TASK },
+      },
+    }),
+  ]);
+  return { photos, participants };
+}
+
+/**
+ * Queues a task for the event. Incremental runs (the default) only process
+ * photos and participants added since the last completed task; a full
+ * re-run discards existing matches and processes everything again.
+ */
+export async function queueFaceMatchingTask(
+  eventId: string,
+  options: { fullRun: boolean }
+): Promise<{ ok: true; taskId: string } | { ok: false; status: 400 | 409; error: string }> {
+  const activeTask = await findActiveTask(eventId);
+  if (activeTask) {
+    return {
+      ok: false,
+      status: 409,
+      error: `A face matching task is already ${activeTask.status === "PROCESSING" ? "running" : "queued"} for this event.`,
+    };
+  }
+
+  if (!options.fullRun) {
+    const unprocessed = await countUnprocessedItems(eventId);
+    if (unprocessed.photos === 0 && unprocessed.participants === 0) {
+      return {
+        ok: false,
+        status: 400,
+        error: "All photos and participants have already been matched. Request a full re-run to start over.",
+      };
+    }
+  }
+
+  const task = await prisma.faceMatchingTask.create({
+    data: { eventId, status: "PENDING", fullRun: options.fullRun },
+  });
+  notifyFaceMatchingWorker();
+  return { ok: true, taskId: task.id };
+}
+
+export async function listFaceMatchingTasks(eventId: string) {
+  return prisma.faceMatchingTask.findMany({
+    where: { eventId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      status: true,
+      createdAt: true,
+      startTime: true,
+      completionTime: true,
+      errorDetails: true,
+      fullRun: true,
+      _count: { select: { photos: true, participants: true } },
+    },
+  });
+}
+
+/**
+ * Cancels a task that hasn't been picked up yet. Returns false if it was
+ * already running or finished.
+ */
+export async function cancelFaceMatchingTask(eventId: string, taskId: string): Promise<boolean> {
+  const { count } = await prisma.faceMatchingTask.updateMany({
+    where: { id: taskId, eventId, status: "PENDING" },
+    data: { status: "CANCELLED", completionTime: new Date() },
+  });
+  return count === 1;
+}
+
+/**
+ * Puts a failed or cancelled task back in the queue. Returns an error
+ * message instead if that isn't possible.
+ */
+export async function retryFaceMatchingTask(eventId: string, taskId: string): Promise<string | null> {
+  if (await findActiveTask(eventId)) {
+    return "Another face matching task is already queued or running for this event.";
+  }
+
+  const { count } = await prisma.faceMatchingTask.updateMany({
+    where: { id: taskId, eventId, status: { in: ["FAILED", "CANCELLED"] } },
+    data: { status: "PENDING", startTime: null, completionTime: null, errorDetails: null },
+  });
+  if (count === 0) {
+    return "Only failed or cancelled tasks can be retried.";
+  }
+
+  notifyFaceMatchingWorker();
+  return null;
+}
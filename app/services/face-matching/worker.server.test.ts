@@ -0,0 +1,134 @@
+import type { FaceMatchingTask } from "@prisma/client";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { failStaleTasks, processFaceMatchingTask } from "~/services/face-matching/worker.server";
+import { prisma, resetDb, rows } from "~/test/fake-db";
+
+const files = vi.hoisted(() => new Map<string, Buffer>());
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/utils/storage.server", () => ({ readFileFromStorage: async (url: string) => files.get(url) ?? null }));
+// The fake provider, where detecting faces in a photo takes a minute and a half
+vi.mock("~/services/face-matching/provider.server", async () => {
+  const { createFakeFaceProvider } = await import("~/services/face-matching/fake-provider.server");
+  const provider = createFakeFaceProvider();
+  return {
+    getFaceRecognitionProvider: () => ({
+      name: "slow-fake",
+      detectFaces: async (image: Buffer) => {
+        vi.advanceTimersByTime(90_000);
+        return provider.detectFaces(image);
+      },
+    }),
+  };
+});
+
+const MINUTE_MS = 60_000;
+
+// A picture of its own: stripes whose spacing depends on the seed, so the fake provider finds different faces in it
+function picture(seed: number): Promise<Buffer> {
+  const size = 32;
+  const pixels = Buffer.alloc(size * size);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = ((i * seed) >> 3) % 2 ? 230 : 20;
+  return sharp(pixels, { raw: { width: size, height: size, channels: 1 } }).png().toBuffer();
+}
+
+function seedTask(overrides: Partial<FaceMatchingTask> = {}): FaceMatchingTask {
+  const task: FaceMatchingTask = {
+    id: "task-1",
+    eventId: "event-1",
+    status: "PROCESSING",
+    startTime: new Date(),
+    completionTime: null,
+    awsRequestId: null,
+    errorDetails: null,
+    fullRun: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+  rows<FaceMatchingTask>("faceMatchingTask").push(task);
+  return { ...task };
+}
+
+async function seedPhoto(id: string, seed: number) {
+  files.set(`/uploads/${id}.png`, await picture(seed));
+  rows("eventPhoto").push({ id, eventId: "event-1", reviewStatus: "APPROVED", imageUrl: `/uploads/${id}.png`, webUrl: null, uploadTime: new Date(), matchingTasks: [] });
+}
+
+// A participant ready for matching, whose reference photo is the given picture
+async function seedParticipant(id: string, seed: number) {
+  files.set(`/uploads/${id}-reference.png`, await picture(seed));
+  rows("participant").push({ id, eventId: "event-1", referencePhotoUrl: `/uploads/${id}-reference.png`, referenceFaceDescriptor: null, matchingTasks: [] });
+  rows("consentLog").push({ id: `consent-${id}`, participantId: id, type: "FACIAL_RECOGNITION", status: "GRANTED", timestamp: new Date() });
+}
+
+describe("face matching worker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    resetDb();
+    files.clear();
+    rows("event").push({ id: "event-1", autoAcceptThreshold: null });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("matches a participant to the photo their reference picture shows", async () => {
+    await seedParticipant("participant-1", 5);
+    await seedPhoto("photo-1", 5);
+    await seedPhoto("photo-2", 11);
+
+    await processFaceMatchingTask(seedTask());
+
+    expect(rows("faceMatchingTask")[0]).toMatchObject({ status: "COMPLETED" });
+    expect(rows("photoParticipantMatch")).toMatchObject([{ photoId: "photo-1", participantId: "participant-1", status: "SUGGESTED" }]);
+    expect(rows("faceMatchingTaskPhoto")).toHaveLength(2);
+  });
+
+  it("beats the heartbeat while it works through the photos", async () => {
+    await seedPhoto("photo-1", 5);
+    await seedPhoto("photo-2", 11);
+    await seedPhoto("photo-3", 13);
+    const updateMany = vi.spyOn(prisma.faceMatchingTask, "updateMany");
+
+    await processFaceMatchingTask(seedTask());
+
+    // Each photo takes a minute and a half, so the run beats before the second and the third
+    const beats = updateMany.mock.calls.filter(([{ data }]) => Object.keys(data).join() === "updatedAt");
+    expect(beats).toHaveLength(2);
+  });
+
+  it("stops when the task was failed as stale in the meantime", async () => {
+    await seedPhoto("photo-1", 5);
+    await seedPhoto("photo-2", 11);
+    const task = seedTask();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // Another worker already gave up on the task; the run notices at its next heartbeat
+    const stored = rows<FaceMatchingTask>("faceMatchingTask")[0];
+    stored.status = "FAILED";
+
+    await processFaceMatchingTask(task);
+
+    expect(rows("faceMatchingTaskPhoto")).toHaveLength(1);
+    expect(stored).toMatchObject({ status: "FAILED", errorDetails: "The task was stopped while it was running." });
+  });
+
+  describe("failStaleTasks", () => {
+    it("fails running tasks whose heartbeat stopped, however long ago they started", async () => {
+      seedTask({ id: "beating", startTime: new Date(Date.now() - 3 * 60 * MINUTE_MS), updatedAt: new Date(Date.now() - MINUTE_MS) });
+      seedTask({ id: "stopped", startTime: new Date(Date.now() - 10 * MINUTE_MS), updatedAt: new Date(Date.now() - 6 * MINUTE_MS) });
+      seedTask({ id: "pending", status: "PENDING", updatedAt: new Date(Date.now() - 60 * MINUTE_MS) });
+
+      expect(await failStaleTasks()).toBe(1);
+      expect(rows<FaceMatchingTask>("faceMatchingTask").map(({ id, status }) => [id, status])).toEqual([
+        ["beating", "PROCESSING"],
+        ["stopped", "FAILED"],
+        ["pending", "PENDING"],
+      ]);
+    });
+  });
+});
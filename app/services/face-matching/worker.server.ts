@@ -0,0 +1,344 @@
+import type { FaceMatchingTask, Prisma } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { cosineSimilarity, decodeDescriptor, encodeDescriptor } from "~/services/face-matching/descriptors.server";
+import type { DetectedFaceResult } from "~/services/face-matching/provider.server";
+import { getFaceRecognitionProvider } from "~/services/face-matching/provider.server";
+import { automaticMatchStatus, UNREVIEWED_MATCH } from "~/services/matches.server";
+import { findMatchableParticipantIds } from "~/services/participants.server";
+import { APPROVED_PHOTO } from "~/services/photos.server";
+import { readFileFromStorage } from "~/utils/storage.server";
+
+// Minimum cosine similarity for a face to count as a participant match
+const MATCH_THRESHOLD = Number(process.env.FACE_MATCH_THRESHOLD ?? 0.8);
+
+// A running task touches its updatedAt at most this often, as a heartbeat
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// PROCESSING tasks that missed this many heartbeats are assumed to belong to a crashed worker
+const STALE_TASK_MS = 5 * HEARTBEAT_INTERVAL_MS;
+
+/**
+ * Atomically moves the oldest PENDING task to PROCESSING. Returns null when
+ * there is nothing to do. Safe to call from several workers at once.
+ */
+export async function claimNextTask(): Promise<FaceMatchingTask | null> {
+  for (;;) {
+    const candidate = await prisma.faceMatchingTask.findFirst({
+      // Never run two tasks for the same event at once
+      where: { status: "PENDING", event: { matchingTasks: { none: { status: "PROCESSING" } } } },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+    if (!candidate) return null;
+
+    const { count } = await prisma.faceMatchingTask.updateMany({
+      where: { id: candidate.id, status: "PENDING" },
+      data: { status: "PROCESSING", startTime: new Date(), errorDetails: null },
+    });
+    if (count === 1) {
+      return prisma.faceMatchingTask.findUnique({ where: { id: candidate.id } });
+    }
+    // Another worker claimed it first; try the next one
+  }
+}
+
+/**
+ * Fails tasks left in PROCESSING by a worker that stopped mid-task, i.e.
+ * tasks whose heartbeat stopped.
+ */
+export async function failStaleTasks(): Promise<number> {
+  const { count } = await prisma.faceMatchingTask.updateMany({
+    where: { status: "PROCESSING", updatedAt: { lt: new Date(Date.now() - STALE_TASK_MS) } },
+    data: {
+      status: "FAILED",
+      completionTime: new Date(),
+      errorDetails: "The worker stopped before the task finished.",
+    },
+  });
+  return count;
+}
+
+/**
+ * Returns a function that records the task's progress, called after each
+ * step of a run. Throws once the task is no longer PROCESSING, e.g. because
+ * another worker failed it as stale, so the run stops.
+ */
+function createHeartbeat(taskId: string) {
+  // Claiming the task just set updatedAt
+  let lastBeat = Date.now();
+  return async () => {
+    if (Date.now() - lastBeat < HEARTBEAT_INTERVAL_MS) return;
+    lastBeat = Date.now();
+    const { count } = await prisma.faceMatchingTask.updateMany({
+      where: { id: taskId, status: "PROCESSING" },
+      data: { updatedAt: new Date() },
+    });
+    if (count === 0) throw new Error("The task was stopped while it was running.");
+  };
+}
+
+// Picks the most prominent face, used for participants' reference photos
+function largestFace(faces: DetectedFaceResult[]): DetectedFaceResult | undefined {
+  return [...faces].sort(
+    (a, b) => b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height
+  )[0];
+}
+
+// Matches a photo or participant that a finished task already covered
+export const COVERED_BY_COMPLETED_TASK = { task: { status: "COMPLETED" } } satisfies Prisma.FaceMatchingTaskPhotoWhereInput;
+
+// How many stored faces to load at once when matching new participants
+const STORED_FACE_BATCH_SIZE = 500;
+
+type Reference = { participantId: string; descriptor: Float32Array; isNew: boolean };
+
+type BestMatch = { score: number; faceId: string };
+
+// Keeps the best-scoring face per participant at or above the match threshold
+function recordScore(bestMatches: Map<string, BestMatch>, participantId: string, score: number, faceId: string) {
+  if (score >= MATCH_THRESHOLD && score > (bestMatches.get(participantId)?.score ?? -1)) {
+    bestMatches.set(participantId, { score, faceId });
+  }
+}
+
+/**
+ * Stores a photo's matches. Matches a reviewer has decided on are left as
+ * they are, and an existing match is only replaced by a better score.
+ */
+async function saveMatches(
+  tx: Prisma.TransactionClient,
+  photoId: string,
+  bestMatches: Map<string, BestMatch>,
+  autoAcceptThreshold: number | null
+) {
+  for (const [participantId, { score, faceId }] of bestMatches) {
+    const existing = await tx.photoParticipantMatch.findUnique({
+      where: { photoId_participantId: { photoId, participantId } },
+      select: { id: true, confidenceScore: true, reviewedAt: true, detectedFaceId: true },
+    });
+    if (existing?.reviewedAt) continue;
+    // Faces of a photo that still exist can arrive in separate batches; keep the better one
+    if (existing?.detectedFaceId && (existing.confidenceScore ?? 0) >= score) continue;
+
+    const data = {
+      confidenceScore: score,
+      detectedFaceId: faceId,
+      status: automaticMatchStatus(score, autoAcceptThreshold),
+    };
+    if (existing) {
+      await tx.photoParticipantMatch.update({ where: { id: existing.id }, data: { ...data, matchTime: new Date() } });
+    } else {
+      await tx.photoParticipantMatch.create({ data: { photoId, participantId, ...data } });
+    }
+  }
+}
+
+/**
+ * Runs face matching for one event. Incremental runs only embed reference
+ * photos of participants and detect faces in photos that no completed task
+ * has covered yet; new participants are compared against the descriptors
+ * already stored for older photos. Existing matches are left alone unless
+ * the task is a full re-run, which rebuilds all matches nobody has reviewed.
+ */
+async function runTask(task: FaceMatchingTask): Promise<void> {
+  const provider = getFaceRecognitionProvider();
+  const heartbeat = createHeartbeat(task.id);
+  const { eventId, fullRun } = task;
+  const { autoAcceptThreshold } = await prisma.event.findUniqueOrThrow({
+    where: { id: eventId },
+    select: { autoAcceptThreshold: true },
+  });
+
+  // A retried task records its coverage again from scratch
+  await prisma.$transaction([
+    prisma.faceMatchingTaskPhoto.deleteMany({ where: { taskId: task.id } }),
+    prisma.faceMatchingTaskParticipant.deleteMany({ where: { taskId: task.id } }),
+  ]);
+  if (fullRun) {
+    // Reviewed matches are kept; everything else is rebuilt below
+    await prisma.photoParticipantMatch.deleteMany({ where: { photo: { eventId }, ...UNREVIEWED_MATCH } });
+  }
+
+  // 1. Reference descriptors for participants, embedding only new ones. Participants
+  // without a reference photo or facial recognition consent are left out entirely.
+  const participants = await prisma.participant.findMany({
+    where: { id: { in: await findMatchableParticipantIds(eventId) } },
+    select: {
+      id: true,
+      referencePhotoUrl: true,
+      referenceFaceDescriptor: true,
+      matchingTasks: { where: COVERED_BY_COMPLETED_TASK, select: { taskId: true }, take: 1 },
+    },
+  });
+
+  const references: Reference[] = [];
+  for (const participant of participants) {
+    await heartbeat();
+    const isNew = fullRun || participant.matchingTasks.length === 0;
+    if (!isNew) {
+      if (participant.referenceFaceDescriptor) {
+        references.push({ participantId: participant.id, descriptor: decodeDescriptor(participant.referenceFaceDescriptor), isNew });
+      }
+      continue;
+    }
+
+    const image = await readFileFromStorage(participant.referencePhotoUrl!);
+    const face = image ? largestFace(await provider.detectFaces(image)) : undefined;
+
+    await prisma.$transaction([
+      prisma.participant.update({
+        where: { id: participant.id },
+        data: { referenceFaceDescriptor: face ? encodeDescriptor(face.descriptor) : null },
+      }),
+      prisma.faceMatchingTaskParticipant.create({ data: { taskId: task.id, participantId: participant.id } }),
+    ]);
+    if (face) {
+      references.push({ participantId: participant.id, descriptor: face.descriptor, isNew });
+    }
+  }
+
+  // 2. Faces in new photos, compared against every reference. Photos still
+  // awaiting review, or rejected, are left for a later task.
+  const photos = await prisma.eventPhoto.findMany({
+    where: { eventId, ...APPROVED_PHOTO, ...(fullRun ? {} : { matchingTasks: { none: COVERED_BY_COMPLETED_TASK } }) },
+    orderBy: { uploadTime: "asc" },
+    select: { id: true, imageUrl: true, webUrl: true },
+  });
+
+  for (const photo of photos) {
+    await heartbeat();
+    // The web rendition is plenty for detection and much cheaper to read
+    const image = (photo.webUrl && (await readFileFromStorage(photo.webUrl))) || (await readFileFromStorage(photo.imageUrl));
+    if (!image) {
+      console.warn(`[Face Matching] Skipping photo ${photo.id}: file not found`);
+      continue;
+    }
+
+    const faces = await provider.detectFaces(image);
+    const bestMatches = new Map<string, BestMatch>();
+
+    await prisma.$transaction(async (tx) => {
+      await tx.detectedFace.deleteMany({ where: { photoId: photo.id } });
+      for (const face of faces) {
+        const { id: faceId } = await tx.detectedFace.create({
+          data: {
+            photoId: photo.id,
+            boundingBox: { ...face.boundingBox },
+            faceDescriptor: encodeDescriptor(face.descriptor),
+          },
+        });
+        for (const reference of references) {
+          recordScore(bestMatches, reference.participantId, cosineSimilarity(face.descriptor, reference.descriptor), faceId);
+        }
+      }
+
+      await saveMatches(tx, photo.id, bestMatches, autoAcceptThreshold);
+      await tx.faceMatchingTaskPhoto.create({ data: { taskId: task.id, photoId: photo.id } });
+    });
+  }
+
+  // 3. New participants against faces already stored for previously processed photos
+  const newReferences = references.filter((reference) => reference.isNew);
+  if (fullRun || newReferences.length === 0) return;
+
+  let cursor: string | undefined;
+  for (;;) {
+    await heartbeat();
+    const storedFaces = await prisma.detectedFace.findMany({
+      where: {
+        faceDescriptor: { not: null },
+        photo: { eventId, ...APPROVED_PHOTO, matchingTasks: { some: COVERED_BY_COMPLETED_TASK } },
+      },
+      orderBy: { id: "asc" },
+      take: STORED_FACE_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true, photoId: true, faceDescriptor: true },
+    });
+    if (storedFaces.length === 0) break;
+    cursor = storedFaces[storedFaces.length - 1].id;
+
+    const matchesByPhoto = new Map<string, Map<string, BestMatch>>();
+    for (const face of storedFaces) {
+      const descriptor = decodeDescriptor(face.faceDescriptor!);
+      const bestMatches = matchesByPhoto.get(face.photoId) ?? new Map<string, BestMatch>();
+      for (const reference of newReferences) {
+        recordScore(bestMatches, reference.participantId, cosineSimilarity(descriptor, reference.descriptor), face.id);
+      }
+      matchesByPhoto.set(face.photoId, bestMatches);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const [photoId, bestMatches] of matchesByPhoto) {
+        await saveMatches(tx, photoId, bestMatches, autoAcceptThreshold);
+      }
+    });
+  }
+}
+
+/**
+ * Processes a claimed task and records the outcome on it.
+ */
+export async function processFaceMatchingTask(task: FaceMatchingTask): Promise<void> {
+  console.log(`[Face Matching] Processing task ${task.id} for event ${task.eventId}`);
+  try {
+    await runTask(task);
+    await prisma.faceMatchingTask.update({
+      where: { id: task.id },
+      data: { status: "COMPLETED", completionTime: new Date() },
+    });
+    console.log(`[Face Matching] Task ${task.id} completed`);
+  } catch (error) {
+    console.error(`[Face Matching] Task ${task.id} failed:`, error);
+    await prisma.faceMatchingTask.update({
+      where: { id: task.id },
+      data: {
+        status: "FAILED",
+        completionTime: new Date(),
+        errorDetails: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+      },
+    });
+  }
+}
+
+/**
+ * Claims and processes tasks until none are pending. Returns how many ran.
+ * Stale tasks are failed first, since they block their event's queue.
+ */
+export async function drainPendingTasks(): Promise<number> {
+  const stale = await failStaleTasks();
+  if (stale > 0) console.warn(`[Face Matching] Marked ${stale} stale task(s) as failed`);
+
+  let processed = 0;
+  for (let task = await claimNextTask(); task; task = await claimNextTask()) {
+    await processFaceMatchingTask(task);
+    processed++;
+  }
+  return processed;
+}
+
+let inProcessRun: Promise<unknown> | null = null;
+let rerunRequested = false;
+
+/**
+ * Called after a task is queued. With FACE_MATCHING_WORKER=inline (the
+ * default) the task runs in the background of this server process; with
+ * "external" it is left for `npm run face-matching:worker` to pick up.
+ */
+export function notifyFaceMatchingWorker(): void {
+  if ((process.env.FACE_MATCHING_WORKER ?? "inline") !== "inline") return;
+  if (inProcessRun) {
+    // A task queued while the loop is finishing up must not be missed
+    rerunRequested = true;
+    return;
+  }
+
+  inProcessRun = drainPendingTasks()
+    .catch((error) => console.error("[Face Matching] In-process worker crashed:", error))
+    .finally(() => {
+      inProcessRun = null;
+      if (rerunRequested) {
+        rerunRequested = false;
+        notifyFaceMatchingWorker();
+      }
+    });
+}
@@ -0,0 +1,90 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { enqueueNotification } from "~/services/mail/outbox.server";
+import { APPROVED_PHOTO } from "~/services/photos.server";
+import { createGalleryToken, galleryUrl, verifyGalleryToken } from "~/utils/participant-links.server";
+
+/**
+ * A participant's personal gallery: approved photos they've been confirmed
+ * in, reachable through a signed link without an account.
+ */
+
+// Photos a participant may see in their gallery
+function galleryPhotoWhere(participantId: string) {
+  return {
+    ...APPROVED_PHOTO,
+    matches: { some: { participantId, status: "CONFIRMED" } },
+  } satisfies Prisma.EventPhotoWhereInput;
+}
+
+// Looks up the participant a gallery token was issued for; null if the link is invalid or expired
+export async function getGalleryParticipant(token: string) {
+  const verified = verifyGalleryToken(token);
+  if (!verified) return null;
+
+  const participant = await prisma.participant.findUnique({
+    where: { id: verified.participantId },
+    select: {
+      id: true,
+      name: true,
+      event: { select: { name: true, dateStart: true, organization: { select: { name: true } } } },
+    },
+  });
+  return participant && { ...participant, linkExpiresAt: verified.expiresAt };
+}
+
+export async function listGalleryPhotos(participantId: string) {
+  return prisma.eventPhoto.findMany({
+    where: galleryPhotoWhere(participantId),
+    orderBy: [{ capturedAt: { sort: "asc", nulls: "last" } }, { uploadTime: "asc" }],
+    select: { id: true, capturedAt: true },
+  });
+}
+
+export async function findGalleryPhoto(participantId: string, photoId: string) {
+  return prisma.eventPhoto.findFirst({
+    where: { id: photoId, ...galleryPhotoWhere(participantId) },
+    select: { id: true, imageUrl: true, thumbnailUrl: true, webUrl: true },
+  });
+}
+
+/**
+ * Issues gallery links for the given participants of an event. Participants
+ * of other events are ignored.
+ */
+export async function createGalleryLinks(eventId: string, participantIds: string[] | "all") {
+  const participants = await prisma.participant.findMany({
+    where: { eventId, ...(participantIds === "all" ? {} : { id: { in: participantIds } }) },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, name: true, email: true },
+  });
+
+  return participants.map((participant) => {
+    const { token, expiresAt } = createGalleryToken(participant.id);
+    return { ...participant, url: galleryUrl(token), expiresAt };
+  });
+}
+
+/**
+ * Issues gallery links and emails them to the participants ("your photos
+ * are ready"). Participants without an email address are skipped.
+ * Returns how many emails were queued.
+ */
+export async function emailGalleryLinks(eventId: string, participantIds: string[] | "all") {
+  const event = await prisma.event.findUniqueOrThrow({ where: { id: eventId }, select: { name: true } });
+  const links = await createGalleryLinks(eventId, participantIds);
+
+  let queued = 0;
+  for (const link of links) {
+    if (!link.email) continue;
+    await enqueueNotification({
+      template: "photos-ready",
+      data: { participantName: link.name, eventName: event.name, galleryUrl: link.url, expiresAt: link.expiresAt },
+      to: { email: link.email, name: link.name },
+      participantId: link.id,
+      secretExpiresAt: link.expiresAt,
+    });
+    queued++;
+  }
+  return queued;
+}
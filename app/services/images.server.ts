@@ -0,0 +1,49 @@
+import sharp from "sharp";
+
+// Longest edge, in pixels, of each generated rendition
+const THUMBNAIL_SIZE = 400;
+const WEB_SIZE = 1600;
+
+export interface ImageDerivatives {
+  thumbnail: Buffer; // small WebP used for gallery tiles
+  web: Buffer; // medium JPEG used for on-screen viewing
+}
+
+/**
+ * Generates the thumbnail and web-size renditions of an uploaded photo.
+ * EXIF orientation is applied and all metadata is dropped from the output.
+ */
+export async function generateDerivatives(original: Buffer): Promise<ImageDerivatives> {
+  // rotate() with no arguments auto-orients based on EXIF
+  const base = sharp(original, { failOn: "none" }).rotate();
+
+  const [thumbnail, web] = await Promise.all([
+    base
+      .clone()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer(),
+    base
+      .clone()
+      .resize(WEB_SIZE, WEB_SIZE, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 82, mozjpeg: true })
+      .toBuffer(),
+  ]);
+
+  return { thumbnail, web };
+}
+
+// Longest edge of a stored participant reference photo
+const REFERENCE_PHOTO_SIZE = 1024;
+
+/**
+ * Normalizes a participant's reference selfie: applies EXIF orientation,
+ * caps the size and drops all metadata. Throws if the file isn't an image.
+ */
+export async function prepareReferencePhoto(image: Buffer): Promise<Buffer> {
+  return sharp(image)
+    .rotate()
+    .resize(REFERENCE_PHOTO_SIZE, REFERENCE_PHOTO_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 90, mozjpeg: true })
+    .toBuffer();
+}
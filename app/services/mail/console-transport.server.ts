@@ -0,0 +1,14 @@
+import type { MailTransport } from "~/services/mail/transport.server";
+
+// Prints messages to the server log instead of sending them
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+
+    async send(message) {
+      console.log(
+        [`[Mail] To: ${message.to.name ? `${message.to.name} <${message.to.address}>` : message.to.address}`, `[Mail] Subject: ${message.subject}`, "", message.text, ""].join("\n")
+      );
+    },
+  };
+}
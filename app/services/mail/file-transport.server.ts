@@ -0,0 +1,25 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import type { MailTransport } from "~/services/mail/transport.server";
+
+/**
+ * Writes each message to <dir>/<timestamp>-<n>.eml instead of sending it,
+ * for local development. The files open in any mail client.
+ */
+export function createFileTransport({ dir }: { dir: string }): MailTransport {
+  // Only builds the MIME message; nothing leaves the machine
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  let counter = 0;
+
+  return {
+    name: "file",
+
+    async send(message) {
+      const { message: raw } = await builder.sendMail(message);
+      await fs.mkdir(dir, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${counter++}.eml`;
+      await fs.writeFile(path.join(dir, fileName), raw);
+    },
+  };
+}
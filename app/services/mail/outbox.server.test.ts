@@ -0,0 +1,150 @@
+import type { Notification } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { drainOutbox, enqueueNotification, eraseExpiredSecrets, releaseStaleNotifications } from "~/services/mail/outbox.server";
+import { resetDb, rows } from "~/test/fake-db";
+
+const send = vi.hoisted(() => vi.fn(async () => {}));
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/utils/mail.server", () => ({ getMailTransport: () => ({ send }), getMailFrom: () => "Photos <no-reply@example.com>" }));
+
+const MINUTE_MS = 60_000;
+
+const ERASED = "[Removed: this message contained a secret link.]";
+
+function seedNotification(overrides: Partial<Notification> = {}): Notification {
+  const notification: Notification = {
+    id: `notification-${rows("notification").length + 1}`,
+    template: "invite",
+    toEmail: "ana@example.com",
+    toName: "Ana",
+    subject: "You're invited",
+    textBody: "Hello Ana",
+    htmlBody: "<p>Hello Ana</p>",
+    secretExpiresAt: null,
+    status: "PENDING",
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastError: null,
+    sentAt: null,
+    participantId: null,
+    userId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+  rows<Notification>("notification").push(notification);
+  return notification;
+}
+
+describe("outbox", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    resetDb();
+    send.mockReset();
+    vi.stubEnv("MAIL_SENDER", "external");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("queues the rendered message without sending it here when an external sender delivers", async () => {
+    const notification = await enqueueNotification({
+      template: "invite",
+      data: { participantName: "Ana", eventName: "Spring Gala", organizationName: "Acme" },
+      to: { email: "ana@example.com", name: "Ana" },
+      participantId: "participant-1",
+    });
+
+    expect(notification).toMatchObject({ template: "invite", toEmail: "ana@example.com", participantId: "participant-1" });
+    expect(notification.subject).toContain("Spring Gala");
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("sends the due messages and leaves the rest for later", async () => {
+    const due = seedNotification();
+    const later = seedNotification({ nextAttemptAt: new Date(Date.now() + MINUTE_MS) });
+
+    expect(await drainOutbox()).toBe(1);
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ to: { address: "ana@example.com", name: "Ana" }, text: "Hello Ana" }));
+    expect(due).toMatchObject({ status: "SENT", attempts: 1, sentAt: expect.any(Date), textBody: "Hello Ana" });
+    expect(later).toMatchObject({ status: "PENDING", attempts: 0 });
+  });
+
+  it("retries a failed message later, waiting longer each time", async () => {
+    send.mockRejectedValue(new Error("Connection refused"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const first = seedNotification();
+    const third = seedNotification({ attempts: 2 });
+
+    await drainOutbox();
+
+    expect(first).toMatchObject({ status: "PENDING", attempts: 1, lastError: "Connection refused" });
+    expect(first.nextAttemptAt.getTime()).toBe(Date.now() + MINUTE_MS);
+    expect(third.nextAttemptAt.getTime()).toBe(Date.now() + 30 * MINUTE_MS);
+  });
+
+  it("gives up after the fifth attempt", async () => {
+    send.mockRejectedValue(new Error("Mailbox unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const notification = seedNotification({ attempts: 4 });
+
+    await drainOutbox();
+
+    expect(notification).toMatchObject({ status: "FAILED", attempts: 5, lastError: "Mailbox unavailable" });
+  });
+
+  it("puts messages left sending by a stopped sender back in the queue", async () => {
+    const stopped = seedNotification({ status: "SENDING", updatedAt: new Date(Date.now() - 11 * MINUTE_MS) });
+    const sending = seedNotification({ status: "SENDING", updatedAt: new Date(Date.now() - MINUTE_MS) });
+
+    expect(await releaseStaleNotifications()).toBe(1);
+    expect([stopped.status, sending.status]).toEqual(["PENDING", "SENDING"]);
+  });
+
+  describe("secret links", () => {
+    it("erases the body once the message is sent", async () => {
+      const notification = seedNotification({ secretExpiresAt: new Date(Date.now() + 60 * MINUTE_MS) });
+
+      await drainOutbox();
+
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ text: "Hello Ana" }));
+      expect(notification).toMatchObject({ status: "SENT", textBody: ERASED, htmlBody: null });
+    });
+
+    it("keeps the body for a retry, but erases it when giving up", async () => {
+      send.mockRejectedValue(new Error("Connection refused"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const retried = seedNotification({ secretExpiresAt: new Date(Date.now() + 60 * MINUTE_MS) });
+      const failed = seedNotification({ secretExpiresAt: new Date(Date.now() + 60 * MINUTE_MS), attempts: 4 });
+
+      await drainOutbox();
+
+      expect(retried).toMatchObject({ status: "PENDING", textBody: "Hello Ana" });
+      expect(failed).toMatchObject({ status: "FAILED", textBody: ERASED, htmlBody: null });
+    });
+
+    it("doesn't send a link that expired while the message waited", async () => {
+      const notification = seedNotification({ secretExpiresAt: new Date(Date.now() + MINUTE_MS), nextAttemptAt: new Date(Date.now() + MINUTE_MS) });
+      vi.advanceTimersByTime(2 * MINUTE_MS);
+
+      await drainOutbox();
+
+      expect(send).not.toHaveBeenCalled();
+      expect(notification).toMatchObject({ status: "FAILED", lastError: "The link expired before the message could be sent.", textBody: ERASED });
+    });
+
+    it("erases expired links from messages that are still queued", async () => {
+      const expired = seedNotification({ secretExpiresAt: new Date(Date.now() - MINUTE_MS), nextAttemptAt: new Date(Date.now() + MINUTE_MS) });
+      const valid = seedNotification({ secretExpiresAt: new Date(Date.now() + MINUTE_MS) });
+      seedNotification();
+
+      expect(await eraseExpiredSecrets()).toBe(1);
+      expect([expired.textBody, valid.textBody]).toEqual([ERASED, "Hello Ana"]);
+    });
+  });
+});
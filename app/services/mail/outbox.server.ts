@@ -0,0 +1,212 @@
+import type { Notification } from "@prisma/client";
+import { prisma } from "~/db.server";
+import type { NotificationTemplate, TemplateDataFor } from "~/services/mail/templates.server";
+import { renderTemplate } from "~/services/mail/templates.server";
+import { getMailFrom, getMailTransport } from "~/utils/mail.server";
+
+// Delay before each retry; after the last one the notification is marked FAILED
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// SENDING notifications older than this are assumed to belong to a crashed sender
+const STALE_SENDING_MS = 10 * 60_000;
+
+// Replaces the body of a message with a secret link once it isn't needed anymore
+const ERASED_BODY = { textBody: "[Removed: this message contained a secret link.]", htmlBody: null };
+
+/**
+ * Renders a template and queues the message for delivery. Pass
+ * `secretExpiresAt` when the message carries a link with a secret token
+ * (password reset, invitation...): the stored body is erased after sending,
+ * after giving up, or once the link expires, so the Notification table
+ * doesn't keep working links.
+ */
+export async function enqueueNotification<T extends NotificationTemplate>({
+  template,
+  data,
+  to,
+  participantId,
+  userId,
+  secretExpiresAt,
+}: {
+  template: T;
+  data: TemplateDataFor<T>;
+  to: { email: string; name?: string | null };
+  participantId?: string;
+  userId?: string;
+  secretExpiresAt?: Date;
+}): Promise<Notification> {
+  const rendered = renderTemplate(template, data);
+  const notification = await prisma.notification.create({
+    data: {
+      template,
+      toEmail: to.email,
+      toName: to.name,
+      subject: rendered.subject,
+      textBody: rendered.text,
+      htmlBody: rendered.html,
+      secretExpiresAt,
+      participantId,
+      userId,
+    },
+  });
+  notifyMailSender();
+  return notification;
+}
+
+/**
+ * Atomically moves the next due PENDING notification to SENDING. Returns
+ * null when nothing is due. Safe to call from several senders at once.
+ */
+async function claimNextNotification(): Promise<Notification | null> {
+  for (;;) {
+    const candidate = await prisma.notification.findFirst({
+      where: { status: "PENDING", nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: "asc" },
+      select: { id: true },
+    });
+    if (!candidate) return null;
+
+    const { count } = await prisma.notification.updateMany({
+      where: { id: candidate.id, status: "PENDING" },
+      data: { status: "SENDING" },
+    });
+    if (count === 1) {
+      return prisma.notification.findUnique({ where: { id: candidate.id } });
+    }
+    // Another sender claimed it first; try the next one
+  }
+}
+
+async function deliver(notification: Notification): Promise<void> {
+  const attempts = notification.attempts + 1;
+  const erase = notification.secretExpiresAt ? ERASED_BODY : {};
+
+  // A dead link isn't worth sending
+  if (notification.secretExpiresAt && notification.secretExpiresAt <= new Date()) {
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: { status: "FAILED", lastError: "The link expired before the message could be sent.", ...ERASED_BODY },
+    });
+    return;
+  }
+
+  try {
+    await getMailTransport().send({
+      from: getMailFrom(),
+      to: { address: notification.toEmail, name: notification.toName ?? undefined },
+      subject: notification.subject,
+      text: notification.textBody,
+      html: notification.htmlBody ?? undefined,
+    });
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: { status: "SENT", attempts, sentAt: new Date(), lastError: null, ...erase },
+    });
+  } catch (error) {
+    const gaveUp = attempts >= MAX_ATTEMPTS;
+    console.error(`[Mail] Sending notification ${notification.id} failed (attempt ${attempts}):`, error);
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        status: gaveUp ? "FAILED" : "PENDING",
+        attempts,
+        lastError: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+        nextAttemptAt: gaveUp ? undefined : new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]),
+        ...(gaveUp ? erase : {}),
+      },
+    });
+  }
+}
+
+/**
+ * Puts notifications left in SENDING by a sender that stopped mid-way back in the queue.
+ */
+export async function releaseStaleNotifications(): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { status: "SENDING", updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) } },
+    data: { status: "PENDING" },
+  });
+  return count;
+}
+
+// Erases secret links that expired while their message waited for a retry
+export async function eraseExpiredSecrets(): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { secretExpiresAt: { lte: new Date() }, textBody: { not: ERASED_BODY.textBody } },
+    data: ERASED_BODY,
+  });
+  return count;
+}
+
+/**
+ * Sends notifications until none are due. Returns how many were attempted.
+ */
+export async function drainOutbox(): Promise<number> {
+  await eraseExpiredSecrets();
+  let attempted = 0;
+  for (let notification = await claimNextNotification(); notification; notification = await claimNextNotification()) {
+    await deliver(notification);
+    attempted++;
+  }
+  return attempted;
+}
+
+// When the next retry is due, if any
+async function nextRetryAt(): Promise<Date | null> {
+  const next = await prisma.notification.findFirst({
+    where: { status: "PENDING" },
+    orderBy: { nextAttemptAt: "asc" },
+    select: { nextAttemptAt: true },
+  });
+  return next?.nextAttemptAt ?? null;
+}
+
+let inProcessRun: Promise<unknown> | null = null;
+let rerunRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Called after a notification is queued. With MAIL_SENDER=inline (the
+ * default) it is sent in the background of this server process, and a
+ * timer picks up retries; with "external" it is left for
+ * `npm run mail:sender` to deliver.
+ */
+export function notifyMailSender(): void {
+  if ((process.env.MAIL_SENDER ?? "inline") !== "inline") return;
+  if (inProcessRun) {
+    // A message queued while the loop is finishing up must not be missed
+    rerunRequested = true;
+    return;
+  }
+
+  inProcessRun = drainOutbox()
+    .then(nextRetryAt)
+    .then((retryAt) => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = retryAt
+        ? setTimeout(notifyMailSender, Math.max(retryAt.getTime() - Date.now(), 1000)).unref()
+        : null;
+    })
+    .catch((error) => console.error("[Mail] In-process sender crashed:", error))
+    .finally(() => {
+      inProcessRun = null;
+      if (rerunRequested) {
+        rerunRequested = false;
+        notifyMailSender();
+      }
+    });
+}
+
+/**
+ * Latest notification sent to each participant of the event, for showing delivery status.
+ */
+export async function getLatestNotificationsByParticipant(eventId: string) {
+  const notifications = await prisma.notification.findMany({
+    where: { participant: { eventId } },
+    orderBy: { createdAt: "desc" },
+    distinct: ["participantId"],
+    select: { participantId: true, template: true, status: true, lastError: true, sentAt: true, createdAt: true },
+  });
+  return new Map(notifications.map((notification) => [notification.participantId!, notification]));
+}
@@ -0,0 +1,35 @@
+import nodemailer from "nodemailer";
+import type { MailTransport } from "~/services/mail/transport.server";
+
+/**
+ * Sends through an SMTP server. For local testing, point it at something
+ * like Mailpit or MailHog (e.g. SMTP_HOST=localhost SMTP_PORT=1025).
+ */
+export function createSmtpTransport({
+  host,
+  port,
+  secure,
+  user,
+  password,
+}: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass: password } : undefined,
+  });
+
+  return {
+    name: "smtp",
+
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Email templates. Each renders a subject plus plain-text and HTML bodies
+ * from its data; the outbox stores the rendered result.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface TemplateData {
+  invite: { participantName: string | null; eventName: string; organizationName: string };
+  "photos-ready": { participantName: string | null; eventName: string; galleryUrl: string; expiresAt: Date };
+  "consent-request": { participantName: string | null; eventName: string; organizationName: string; consentUrl: string };
+  "password-reset": { userName: string | null; resetUrl: string; expiresInMinutes: number };
+  "verify-email": { userName: string | null; verifyUrl: string; expiresInHours: number };
+  "organization-invite": { organizationName: string; inviterName: string | null; roleLabel: string; acceptUrl: string; expiresAt: Date };
+}
+
+export type NotificationTemplate = keyof TemplateData;
+export type TemplateDataFor<T extends NotificationTemplate> = TemplateData[T];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function greeting(name: string | null) {
+  return name ? `Hi ${name},` : "Hi,";
+}
+
+// Wraps paragraphs (and an optional button) in minimal, mail-client-safe HTML
+function layout(paragraphs: string[], action?: { label: string; url: string }): string {
+  const body = paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("\n");
+  const button = action
+    ? `<p><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:10px 16px;background:#4f46e5;color:#fff;text-decoration:none;border-radius:6px">${escapeHtml(action.label)}</a></p>`
+    : "";
+  return `<!doctype html><html><body style="font-family:sans-serif;line-height:1.5;color:#111827">\n${body}\n${button}\n</body></html>`;
+}
+
+const templates: { [T in NotificationTemplate]: (data: TemplateData[T]) => RenderedEmail } = {
+  invite: (data) => {
+    const paragraphs = [
+      greeting(data.participantName),
+      `${data.organizationName} has added you as a participant of ${data.eventName}.`,
+      "Once the event photos you appear in are ready, we'll email you a private link to view and download them.",
+    ];
+    return { subject: `You're invited: ${data.eventName}`, text: paragraphs.join("\n\n"), html: layout(paragraphs) };
+  },
+
+  "photos-ready": (data) => {
+    const paragraphs = [
+      greeting(data.participantName),
+      `Your photos from ${data.eventName} are ready.`,
+      `This link is personal to you and works until ${data.expiresAt.toDateString()}.`,
+    ];
+    return {
+      subject: `Your photos from ${data.eventName} are ready`,
+      text: [...paragraphs, data.galleryUrl].join("\n\n"),
+      html: layout(paragraphs, { label: "View your photos", url: data.galleryUrl }),
+    };
+  },
+
+  "consent-request": (data) => {
+    const paragraphs = [
+      greeting(data.participantName),
+      `${data.organizationName} would like to use facial recognition to find the photos of you taken at ${data.eventName}.`,
+      "Please let us know whether you agree. You can change your mind at any time.",
+    ];
+    return {
+      subject: `Your consent for ${data.eventName} photos`,
+      text: [...paragraphs, data.consentUrl].join("\n\n"),
+      html: layout(paragraphs, { label: "Review consent", url: data.consentUrl }),
+    };
+  },
+
+  "password-reset": (data) => {
+    const paragraphs = [
+      greeting(data.userName),
+      `Someone asked to reset your password. The link below works for ${data.expiresInMinutes} minutes.`,
+      "If this wasn't you, you can ignore this email; your password won't change.",
+    ];
+    return {
+      subject: "Reset your password",
+      text: [...paragraphs, data.resetUrl].join("\n\n"),
+      html: layout(paragraphs, { label: "Reset password", url: data.resetUrl }),
+    };
+  },
+
+  "verify-email": (data) => {
+    const paragraphs = [
+      greeting(data.userName),
+      `Please confirm this is your email address. The link below works for ${data.expiresInHours} hours.`,
+      "If you didn't create an account, you can ignore this email.",
+    ];
+    return {
+      subject: "Confirm your email address",
+      text: [...paragraphs, data.verifyUrl].join("\n\n"),
+      html: layout(paragraphs, { label: "Confirm email", url: data.verifyUrl }),
+    };
+  },
+
+  "organization-invite": (data) => {
+    const paragraphs = [
+      greeting(null),
+      `${data.inviterName ?? "Someone"} has invited you to join ${data.organizationName} with the ${data.roleLabel} role.`,
+      `The invitation works until ${data.expiresAt.toDateString()}. If you don't have an account yet, you can create one when you accept.`,
+    ];
+    return {
+      subject: `Join ${data.organizationName}`,
+      text: [...paragraphs, data.acceptUrl].join("\n\n"),
+      html: layout(paragraphs, { label: "Accept invitation", url: data.acceptUrl }),
+    };
+  },
+};
+
+export function renderTemplate<T extends NotificationTemplate>(template: T, data: TemplateData[T]): RenderedEmail {
+  return templates[template](data);
+}
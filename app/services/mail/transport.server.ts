@@ -0,0 +1,14 @@
+export interface MailMessage {
+  from: string;
+  to: { address: string; name?: string };
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Every way of delivering email implements this interface
+export interface MailTransport {
+  readonly name: string;
+  // Throws if the message could not be handed over; the outbox retries later
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,158 @@
+import type { MatchStatus, Prisma } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { APPROVED_PHOTO } from "~/services/photos.server";
+
+/**
+ * Review of face matching results. A match that a person has confirmed,
+ * rejected or tagged by hand has `reviewedAt` set; face matching never
+ * changes or deletes those, so manual decisions survive re-runs.
+ */
+
+// Matches face matching may still revise
+export const UNREVIEWED_MATCH = { reviewedAt: null } satisfies Prisma.PhotoParticipantMatchWhereInput;
+
+// Status for a new or updated automatic match, given the event's auto-accept threshold
+export function automaticMatchStatus(confidenceScore: number, autoAcceptThreshold: number | null): MatchStatus {
+  return autoAcceptThreshold !== null && confidenceScore >= autoAcceptThreshold ? "CONFIRMED" : "SUGGESTED";
+}
+
+export async function listMatchesForReview(eventId: string, status: MatchStatus) {
+  return prisma.participant.findMany({
+    where: { eventId, matches: { some: { status, photo: APPROVED_PHOTO } } },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      referencePhotoUrl: true,
+      matches: {
+        where: { status, photo: APPROVED_PHOTO },
+        orderBy: [{ confidenceScore: { sort: "desc", nulls: "first" } }, { createdAt: "asc" }],
+        select: {
+          id: true,
+          confidenceScore: true,
+          source: true,
+          reviewedAt: true,
+          photo: { select: { id: true, thumbnailUrl: true, imageUrl: true } },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Confirms or rejects matches in bulk. Only matches on the event's photos
+ * are touched. Returns how many were updated.
+ */
+export async function reviewMatches({
+  eventId,
+  matchIds,
+  status,
+  reviewerId,
+}: {
+  eventId: string;
+  matchIds: string[];
+  status: Extract<MatchStatus, "CONFIRMED" | "REJECTED">;
+  reviewerId: string;
+}): Promise<number> {
+  const { count } = await prisma.photoParticipantMatch.updateMany({
+    where: { id: { in: matchIds }, photo: { eventId } },
+    data: { status, reviewedByUserId: reviewerId, reviewedAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Tags a participant on a detected face by hand. Replaces whatever match
+ * the participant already had on that photo. Returns false if the face or
+ * participant doesn't belong to the event.
+ */
+export async function tagDetectedFace({
+  eventId,
+  faceId,
+  participantId,
+  reviewerId,
+}: {
+  eventId: string;
+  faceId: string;
+  participantId: string;
+  reviewerId: string;
+}): Promise<boolean> {
+  const [face, participant] = await Promise.all([
+    prisma.detectedFace.findFirst({ where: { id: faceId, photo: { eventId } }, select: { photoId: true } }),
+    prisma.participant.findFirst({ where: { id: participantId, eventId }, select: { id: true } }),
+  ]);
+  if (!face || !participant) return false;
+
+  const decision = {
+    detectedFaceId: faceId,
+    status: "CONFIRMED",
+    source: "MANUAL",
+    confidenceScore: null,
+    reviewedByUserId: reviewerId,
+    reviewedAt: new Date(),
+  } satisfies Prisma.PhotoParticipantMatchUncheckedUpdateInput;
+
+  await prisma.$transaction([
+    // A face shows one person: confirmed tags of other participants on this face are rejected
+    prisma.photoParticipantMatch.updateMany({
+      where: { detectedFaceId: faceId, participantId: { not: participantId }, status: { not: "REJECTED" } },
+      data: { status: "REJECTED", reviewedByUserId: reviewerId, reviewedAt: new Date() },
+    }),
+    prisma.photoParticipantMatch.upsert({
+      where: { photoId_participantId: { photoId: face.photoId, participantId } },
+      create: { photoId: face.photoId, participantId, ...decision },
+      update: { ...decision, matchTime: new Date() },
+    }),
+  ]);
+  return true;
+}
+
+/**
+ * Saves the event's auto-accept threshold and re-applies it to matches
+ * nobody has reviewed yet (null turns auto-accept off).
+ */
+export async function setAutoAcceptThreshold(eventId: string, threshold: number | null): Promise<void> {
+  const unreviewed = { photo: { eventId }, source: "AUTOMATIC", ...UNREVIEWED_MATCH } satisfies Prisma.PhotoParticipantMatchWhereInput;
+
+  await prisma.$transaction([
+    prisma.event.update({ where: { id: eventId }, data: { autoAcceptThreshold: threshold } }),
+    prisma.photoParticipantMatch.updateMany({
+      where: { ...unreviewed, status: "CONFIRMED", ...(threshold === null ? {} : { confidenceScore: { lt: threshold } }) },
+      data: { status: "SUGGESTED" },
+    }),
+    ...(threshold === null
+      ? []
+      : [
+          prisma.photoParticipantMatch.updateMany({
+            where: { ...unreviewed, status: "SUGGESTED", confidenceScore: { gte: threshold } },
+            data: { status: "CONFIRMED" },
+          }),
+        ]),
+  ]);
+}
+
+/**
+ * A photo with its detected faces and who is tagged on each, for manual tagging.
+ */
+export async function getPhotoForTagging(eventId: string, photoId: string) {
+  return prisma.eventPhoto.findFirst({
+    where: { id: photoId, eventId },
+    select: {
+      id: true,
+      imageUrl: true,
+      webUrl: true,
+      detectedFaces: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          boundingBox: true,
+          matches: {
+            where: { status: { not: "REJECTED" } },
+            select: { participantId: true, status: true },
+          },
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,295 @@
+import type { OrganizationRole } from "@prisma/client";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { prisma } from "~/db.server";
+import type { SessionUser } from "~/services/auth.server";
+import { hashPassword, toSessionUser } from "~/services/auth.server";
+import { assertLoginAllowed, clearFailedLogins, isAccountLocked, recordFailedLogin, unlockAccount } from "~/services/auth-throttle.server";
+import { enqueueNotification } from "~/services/mail/outbox.server";
+import { PasswordSchema } from "~/utils/auth-validation";
+import { emailVariants, normalizeEmail } from "~/utils/email";
+import { ROLE_LABELS } from "~/utils/permissions";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+import { absoluteUrl } from "~/utils/request.server";
+import { createSecretToken, hashSecretToken } from "~/utils/tokens.server";
+
+/**
+ * Organization members and invitations. Admins invite people by email; the
+ * link in the email carries a random token, of which only a hash is stored.
+ * Accepting creates the account if there isn't one yet and adds the
+ * membership with the invited role.
+ */
+
+// How long an invitation link stays valid; resending starts the period again
+const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS ?? 7);
+
+const ORGANIZATION_ROLES = ["ADMIN", "EDITOR", "VIEWER"] as const satisfies readonly OrganizationRole[];
+
+export const InvitationSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+  role: z.enum(ORGANIZATION_ROLES),
+});
+
+export const MemberRoleSchema = z.object({
+  memberId: z.string().min(1),
+  role: z.enum(ORGANIZATION_ROLES),
+});
+
+// Details asked from invitees without an account
+export const NewAccountSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    password: PasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "The passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+export type MemberResult = { ok: true } | { ok: false; status: 400 | 404 | 409; error: string };
+
+function newInvitationToken() {
+  return { ...createSecretToken(), expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 86_400_000) };
+}
+
+export function invitationUrl(token: string): string {
+  return absoluteUrl(`/invitations/${token}`);
+}
+
+export async function listMembers(orgId: string) {
+  return prisma.organizationUser.findMany({
+    where: { orgId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, role: true, createdAt: true, user: { select: { id: true, name: true, email: true } } },
+  });
+}
+
+export async function listInvitations(orgId: string) {
+  return prisma.organizationInvitation.findMany({
+    where: { orgId },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, email: true, role: true, expiresAt: true, createdAt: true, invitedBy: { select: { name: true, email: true } } },
+  });
+}
+
+async function sendInvitation(invitationId: string, token: string) {
+  const invitation = await prisma.organizationInvitation.findUniqueOrThrow({
+    where: { id: invitationId },
+    select: { email: true, role: true, expiresAt: true, org: { select: { name: true } }, invitedBy: { select: { name: true, email: true } } },
+  });
+  await enqueueNotification({
+    template: "organization-invite",
+    to: { email: invitation.email },
+    data: {
+      organizationName: invitation.org.name,
+      inviterName: invitation.invitedBy ? invitation.invitedBy.name || invitation.invitedBy.email : null,
+      roleLabel: ROLE_LABELS[invitation.role],
+      acceptUrl: invitationUrl(token),
+      expiresAt: invitation.expiresAt,
+    },
+    secretExpiresAt: invitation.expiresAt,
+  });
+}
+
+/**
+ * Invites `email` to the organization with `role` and emails them the link.
+ * Inviting someone who already has an open invitation replaces it, so the
+ * old link stops working.
+ */
+export async function inviteMember({
+  orgId,
+  email,
+  role,
+  invitedByUserId,
+}: {
+  orgId: string;
+  email: string;
+  role: OrganizationRole;
+  invitedByUserId: string;
+}): Promise<MemberResult> {
+  const normalized = normalizeEmail(email);
+
+  const existingUser = await prisma.user.findFirst({ where: { email: { in: emailVariants(email) } }, select: { id: true, email: true } });
+  if (existingUser) {
+    const membership = await prisma.organizationUser.findUnique({
+      where: { userId_orgId: { userId: existingUser.id, orgId } },
+      select: { id: true },
+    });
+    if (membership) {
+      return { ok: false, status: 409, error: `${existingUser.email} is already a member of this organization.` };
+    }
+  }
+
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+  const invitation = await prisma.organizationInvitation.upsert({
+    where: { orgId_email: { orgId, email: normalized } },
+    create: { orgId, email: normalized, role, tokenHash, expiresAt, invitedByUserId },
+    update: { role, tokenHash, expiresAt, invitedByUserId },
+    select: { id: true },
+  });
+  await sendInvitation(invitation.id, token);
+  return { ok: true };
+}
+
+// Sends the invitation again with a new link and a fresh expiry
+export async function resendInvitation(orgId: string, invitationId: string): Promise<MemberResult> {
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+  const { count } = await prisma.organizationInvitation.updateMany({
+    where: { id: invitationId, orgId },
+    data: { tokenHash, expiresAt },
+  });
+  if (count === 0) return { ok: false, status: 404, error: "Invitation not found." };
+
+  await sendInvitation(invitationId, token);
+  return { ok: true };
+}
+
+export async function revokeInvitation(orgId: string, invitationId: string): Promise<MemberResult> {
+  const { count } = await prisma.organizationInvitation.deleteMany({ where: { id: invitationId, orgId } });
+  return count > 0 ? { ok: true } : { ok: false, status: 404, error: "Invitation not found." };
+}
+
+/**
+ * Loads the invitation a link points to, with whether its email already has
+ * an account. Null if the token is unknown (revoked, replaced or accepted)
+ * or expired.
+ */
+export async function getInvitation(token: string) {
+  const invitation = await prisma.organizationInvitation.findUnique({
+    where: { tokenHash: hashSecretToken(token) },
+    select: { id: true, orgId: true, email: true, role: true, expiresAt: true, org: { select: { name: true } } },
+  });
+  if (!invitation || invitation.expiresAt < new Date()) return null;
+
+  const accounts = await prisma.user.count({ where: { email: { in: emailVariants(invitation.email) } } });
+  return { ...invitation, hasAccount: accounts > 0 };
+}
+
+export type AcceptInvitationResult =
+  | { ok: true; user: SessionUser; orgId: string }
+  | { ok: false; status: 400 | 401 | 403 | 404 | 429; errors: Partial<Record<"form" | "name" | "password" | "confirmPassword", string>> };
+
+/**
+ * Accepts an invitation and adds the membership. The invitee proves who they
+ * are in one of three ways: they are signed in with the invited email
+ * (`signedInUserId`), they enter the password of the existing account with
+ * that email, or there is no account yet and they choose a name and password
+ * to create one. The invitation can only be used once.
+ */
+export async function acceptInvitation(
+  token: string,
+  formData: FormData,
+  signedInUserId: string | null,
+  request: Request
+): Promise<AcceptInvitationResult> {
+  const invitation = await getInvitation(token);
+  if (!invitation) {
+    return { ok: false, status: 404, errors: { form: "This invitation is no longer valid. Ask for a new one." } };
+  }
+
+  const account = await prisma.user.findFirst({ where: { email: { in: emailVariants(invitation.email) } } });
+
+  let userId: string;
+  if (signedInUserId) {
+    if (!account || account.id !== signedInUserId) {
+      return { ok: false, status: 403, errors: { form: `This invitation was sent to ${invitation.email}. Sign in with that account to accept it.` } };
+    }
+    userId = account.id;
+  } else if (account) {
+    // Checking the password here counts like a login attempt
+    try {
+      await assertLoginAllowed(account.email, request);
+    } catch (error) {
+      if (!(error instanceof RateLimitedError)) throw error;
+      return { ok: false, status: 429, errors: { form: error.message } };
+    }
+    const password = formData.get("password");
+    if (typeof password !== "string" || !(await bcrypt.compare(password, account.passwordHash))) {
+      await recordFailedLogin(account.email, request);
+      return { ok: false, status: 401, errors: { password: "Wrong password." } };
+    }
+    await clearFailedLogins(account.email);
+    userId = account.id;
+  } else {
+    const submission = NewAccountSchema.safeParse(Object.fromEntries(formData));
+    if (!submission.success) {
+      const fieldErrors = submission.error.flatten().fieldErrors;
+      return {
+        ok: false,
+        status: 400,
+        errors: { name: fieldErrors.name?.[0], password: fieldErrors.password?.[0], confirmPassword: fieldErrors.confirmPassword?.[0] },
+      };
+    }
+    const created = await prisma.user.create({
+      data: {
+        email: invitation.email,
+        name: submission.data.name,
+        passwordHash: await hashPassword(submission.data.password),
+        // The invitation link reached this inbox
+        emailVerifiedAt: new Date(),
+      },
+      select: { id: true },
+    });
+    userId = created.id;
+  }
+
+  // Deleting the invitation first makes a second, concurrent accept fail
+  const { count } = await prisma.organizationInvitation.deleteMany({ where: { id: invitation.id } });
+  if (count === 0) {
+    return { ok: false, status: 404, errors: { form: "This invitation is no longer valid. Ask for a new one." } };
+  }
+  await prisma.organizationUser.upsert({
+    where: { userId_orgId: { userId, orgId: invitation.orgId } },
+    create: { userId, orgId: invitation.orgId, role: invitation.role },
+    update: {},
+  });
+  await prisma.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  return { ok: true, user: toSessionUser(user), orgId: invitation.orgId };
+}
+
+// Every organization keeps at least one admin
+export async function isLastAdmin(orgId: string, memberId: string): Promise<boolean> {
+  const admins = await prisma.organizationUser.findMany({ where: { orgId, role: "ADMIN" }, select: { id: true } });
+  return admins.length === 1 && admins[0].id === memberId;
+}
+
+export async function changeMemberRole(orgId: string, memberId: string, role: OrganizationRole): Promise<MemberResult> {
+  const member = await prisma.organizationUser.findFirst({ where: { id: memberId, orgId }, select: { id: true, role: true } });
+  if (!member) return { ok: false, status: 404, error: "Member not found." };
+
+  if (member.role === "ADMIN" && role !== "ADMIN" && (await isLastAdmin(orgId, member.id))) {
+    return { ok: false, status: 400, error: "The organization needs at least one admin. Make someone else an admin first." };
+  }
+
+  await prisma.organizationUser.update({ where: { id: member.id }, data: { role } });
+  return { ok: true };
+}
+
+export async function removeMember(orgId: string, memberId: string): Promise<MemberResult> {
+  const member = await prisma.organizationUser.findFirst({ where: { id: memberId, orgId }, select: { id: true, role: true } });
+  if (!member) return { ok: false, status: 404, error: "Member not found." };
+
+  if (member.role === "ADMIN" && (await isLastAdmin(orgId, member.id))) {
+    return { ok: false, status: 400, error: "The last admin can't be removed. Make someone else an admin first." };
+  }
+
+  await prisma.organizationUser.delete({ where: { id: member.id } });
+  return { ok: true };
+}
+
+// Members whose accounts are locked after too many failed logins
+export async function listLockedMemberIds(members: { id: string; user: { email: string } }[]): Promise<string[]> {
+  const locked = await Promise.all(members.map((member) => isAccountLocked(member.user.email)));
+  return members.filter((_, index) => locked[index]).map((member) => member.id);
+}
+
+export async function unlockMember(orgId: string, memberId: string, actorUserId: string): Promise<MemberResult> {
+  const member = await prisma.organizationUser.findFirst({ where: { id: memberId, orgId }, select: { user: { select: { id: true, email: true } } } });
+  if (!member) return { ok: false, status: 404, error: "Member not found." };
+
+  await unlockAccount({ userId: member.user.id, email: member.user.email, actorUserId, orgId });
+  return { ok: true };
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { commitParticipantImport, detectColumnMapping, MAX_IMPORT_ROWS, previewParticipantImport } from "~/services/participant-import.server";
+import { resetDb, rows } from "~/test/fake-db";
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+
+describe("participant import", () => {
+  beforeEach(() => {
+    resetDb();
+  });
+
+  it("detects columns from common header names", () => {
+    expect(detectColumnMapping(["E-Mail", "Full Name", "notes", "Ticket_Status"])).toEqual({ name: 1, email: 0, registrationStatus: 3 });
+    expect(detectColumnMapping(["name"])).toEqual({ name: 0, email: null, registrationStatus: null });
+  });
+
+  it("marks invalid rows and duplicates within the file and against the event", async () => {
+    // Stored as typed, like participants added before emails were normalized
+    rows("participant").push({ id: "participant-1", eventId: "event-1", email: "Ben@Example.com" });
+    const csv = ["Name;Email;Status", "Ana;ANA@example.com ;Paid", "Ana again;ana@example.com;", ";cy@example.com;", "Ben;ben@example.com;", "Dee;not-an-email;"].join("\n");
+
+    const preview = await previewParticipantImport("event-1", csv);
+
+    expect(preview.ok).toBe(true);
+    if (!preview.ok) return;
+    expect(preview.rows.map(({ line, email, status, registrationStatus }) => [line, email, status, registrationStatus])).toEqual([
+      [2, "ana@example.com", "NEW", "Paid"],
+      [3, "ana@example.com", "DUPLICATE", "Invited"],
+      [4, "cy@example.com", "INVALID", "Invited"],
+      [5, "ben@example.com", "DUPLICATE", "Invited"],
+      [6, "not-an-email", "INVALID", "Invited"],
+    ]);
+    expect(preview.rows[2].errors).toEqual(["Name is required"]);
+  });
+
+  it("uses a mapping chosen by the user", async () => {
+    const preview = await previewParticipantImport("event-1", "a,b\nana@example.com,Ana", { name: 1, email: 0, registrationStatus: null });
+    expect(preview.ok && preview.rows[0]).toMatchObject({ name: "Ana", email: "ana@example.com", status: "NEW" });
+  });
+
+  it("refuses files with too many rows", async () => {
+    const csv = ["name,email", ...Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `P${i},p${i}@example.com`)].join("\n");
+    expect(await previewParticipantImport("event-1", csv)).toMatchObject({ ok: false });
+  });
+
+  it("creates only the new rows", async () => {
+    const preview = await previewParticipantImport("event-1", "name,email\nAna,ana@example.com\nAna,ana@example.com");
+    if (!preview.ok) throw new Error(preview.error);
+
+    const ids = await commitParticipantImport("event-1", preview.rows);
+
+    expect(ids).toHaveLength(1);
+    expect(rows("participant")).toMatchObject([{ id: ids[0], eventId: "event-1", name: "Ana", email: "ana@example.com", registrationStatus: "Invited" }]);
+  });
+});
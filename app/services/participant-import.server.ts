@@ -0,0 +1,113 @@
+import { prisma } from "~/db.server";
+import { ParticipantSchema } from "~/services/participants.server";
+import { parseCsv } from "~/utils/csv";
+import { normalizeEmail } from "~/utils/email";
+
+// Limits that keep an import within a single request/transaction
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+
+export const IMPORT_FIELDS = ["name", "email", "registrationStatus"] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Column index for each field; null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// Header names recognised automatically for each field (compared lowercased, without spaces/underscores)
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "fullname", "participant", "attendee", "attendeename"],
+  email: ["email", "emailaddress", "mail", "e-mail"],
+  registrationStatus: ["registrationstatus", "status", "ticketstatus"],
+};
+
+export type ImportRow = {
+  line: number; // Line in the file, counting the header as line 1
+  name: string;
+  email: string;
+  registrationStatus: string;
+  status: "NEW" | "DUPLICATE" | "INVALID";
+  errors: string[];
+};
+
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[\s_]/g, ""));
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+/**
+ * Parses and validates an import without writing anything. Rows are checked
+ * with the same rules as the add-participant form; emails that already
+ * exist for the event, or appear earlier in the file, are duplicates.
+ * Emails are compared and imported normalized (trimmed, lowercase).
+ */
+export async function previewParticipantImport(eventId: string, csv: string, requestedMapping?: ColumnMapping) {
+  const [headers = [], ...records] = parseCsv(csv);
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { ok: false as const, error: `Files can have at most ${MAX_IMPORT_ROWS} rows.` };
+  }
+
+  const mapping = requestedMapping ?? detectColumnMapping(headers);
+  const cell = (record: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : (record[index] ?? "").trim();
+  };
+
+  const existing = await prisma.participant.findMany({
+    where: { eventId, email: { not: null } },
+    select: { email: true },
+  });
+  // Older participants may have been stored as typed
+  const seenEmails = new Set(existing.map((participant) => normalizeEmail(participant.email ?? "")));
+
+  const rows: ImportRow[] = records.map((record, index) => {
+    const values = {
+      name: cell(record, "name"),
+      email: normalizeEmail(cell(record, "email")),
+      registrationStatus: cell(record, "registrationStatus") || "Invited",
+    };
+    const row = { line: index + 2, ...values, status: "NEW" as ImportRow["status"], errors: [] as string[] };
+
+    const submission = ParticipantSchema.safeParse(values);
+    if (!submission.success) {
+      row.status = "INVALID";
+      row.errors = submission.error.issues.map((issue) => issue.message);
+    } else if (seenEmails.has(values.email)) {
+      row.status = "DUPLICATE";
+      row.errors = ["A participant with this email already exists for this event."];
+    } else {
+      seenEmails.add(values.email);
+    }
+    return row;
+  });
+
+  return { ok: true as const, headers, mapping, rows };
+}
+
+/**
+ * Creates the participants for every NEW row of a fresh preview in one
+ * transaction. Returns the created participants' ids.
+ */
+export async function commitParticipantImport(eventId: string, rows: ImportRow[]): Promise<string[]> {
+  const created = await prisma.$transaction(
+    rows
+      .filter((row) => row.status === "NEW")
+      .map((row) =>
+        prisma.participant.create({
+          data: {
+            eventId,
+            name: row.name,
+            email: row.email,
+            registrationStatus: row.registrationStatus,
+            consentStatus: false,
+          },
+          select: { id: true },
+        })
+      )
+  );
+  return created.map((participant) => participant.id);
+}
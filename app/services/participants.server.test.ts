@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { isParticipantEmailTaken, ParticipantSchema } from "~/services/participants.server";
+import { resetDb, rows } from "~/test/fake-db";
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+
+describe("ParticipantSchema", () => {
+  it("normalizes the email", () => {
+    const result = ParticipantSchema.parse({ name: "Ana", email: "  Ana@Example.COM " });
+    expect(result.email).toBe("ana@example.com");
+  });
+
+  it("rejects an invalid email", () => {
+    expect(ParticipantSchema.safeParse({ name: "Ana", email: "not an email" }).success).toBe(false);
+  });
+});
+
+describe("isParticipantEmailTaken", () => {
+  beforeEach(() => {
+    resetDb();
+    // Stored as typed, like participants added before emails were normalized
+    rows("participant").push({ id: "participant-1", eventId: "event-1", email: "Ana@Example.com" });
+  });
+
+  it("finds the email in any letter case", async () => {
+    expect(await isParticipantEmailTaken("event-1", "ana@example.com")).toBe(true);
+    expect(await isParticipantEmailTaken("event-1", " ANA@example.com")).toBe(true);
+  });
+
+  it("only looks at the given event", async () => {
+    expect(await isParticipantEmailTaken("event-2", "ana@example.com")).toBe(false);
+  });
+
+  it("ignores the participant being edited", async () => {
+    expect(await isParticipantEmailTaken("event-1", "ana@example.com", "participant-1")).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { prisma } from "~/db.server";
+import { getParticipantsWithConsent } from "~/services/consent.server";
+import { enqueueNotification } from "~/services/mail/outbox.server";
+import { prepareReferencePhoto } from "~/services/images.server";
+import { UNREVIEWED_MATCH } from "~/services/matches.server";
+import { normalizeEmail } from "~/utils/email";
+import { checkEventAccess } from "~/utils/events.server";
+import type { Permission } from "~/utils/permissions";
+import { can } from "~/utils/permissions";
+import { deleteFileFromStorage, uploadBufferToStorage } from "~/utils/storage.server";
+
+// Validation shared by the participant forms, self-registration and the CSV import. Emails come out normalized
+export const ParticipantSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  email: z.string().trim().email("Invalid email format").transform(normalizeEmail),
+  registrationStatus: z.string().max(50, "Registration status is too long").optional(),
+});
+
+/**
+ * Loads a participant of the event after checking the event belongs to the
+ * user's active organization, and that their role there grants `permission`
+ * when one is given. Throws a Response for loaders and actions to return.
+ */
+export async function requireParticipant(
+  request: Request,
+  userId: string,
+  eventId: string,
+  participantId: string,
+  permission?: Permission
+) {
+  const access = await checkEventAccess(request, userId, eventId);
+  if (!access.ok) {
+    throw new Response(access.error, { status: access.status });
+  }
+  if (permission && !can(access.role, permission)) {
+    throw new Response("You don't have permission to do this in this organization.", { status: 403 });
+  }
+
+  const participant = await prisma.participant.findFirst({
+    where: { id: participantId, eventId },
+    select: {
+      id: true,
+      eventId: true,
+      name: true,
+      email: true,
+      registrationStatus: true,
+      referencePhotoUrl: true,
+      createdAt: true,
+    },
+  });
+
+  if (!participant) {
+    throw new Response("Participant not found", { status: 404 });
+  }
+  return participant;
+}
+
+// Whether another participant of the event already uses this email, in any letter case
+export async function isParticipantEmailTaken(eventId: string, email: string, exceptParticipantId?: string): Promise<boolean> {
+  // Older rows were stored as typed, so compare normalized values here rather than in the query
+  const existing = await prisma.participant.findMany({
+    where: { eventId, email: { not: null }, ...(exceptParticipantId ? { id: { not: exceptParticipantId } } : {}) },
+    select: { email: true },
+  });
+  const normalized = normalizeEmail(email);
+  return existing.some((participant) => normalizeEmail(participant.email ?? "") === normalized);
+}
+
+// Largest reference photo organizers can upload
+export const MAX_REFERENCE_PHOTO_BYTES = 10 * 1024 * 1024;
+
+// Checks an uploaded reference photo before it's processed; returns an error message or null
+export function validateReferencePhotoFile(file: File): string | null {
+  if (!file.type.startsWith("image/")) return "Reference photo must be an image.";
+  if (file.size > MAX_REFERENCE_PHOTO_BYTES) return "Reference photo must be 10MB or smaller.";
+  return null;
+}
+
+export type MatchingReadiness = "READY" | "NO_REFERENCE_PHOTO" | "NO_CONSENT";
+
+/**
+ * Works out which of the event's participants can be included in face
+ * matching: they need a reference photo and facial recognition consent.
+ */
+export async function getMatchingReadiness(eventId: string): Promise<Map<string, MatchingReadiness>> {
+  const participants = await prisma.participant.findMany({
+    where: { eventId },
+    select: { id: true, referencePhotoUrl: true },
+  });
+  const consented = await getParticipantsWithConsent(
+    participants.map((participant) => participant.id),
+    "FACIAL_RECOGNITION"
+  );
+
+  return new Map(
+    participants.map((participant) => [
+      participant.id,
+      !participant.referencePhotoUrl ? "NO_REFERENCE_PHOTO" : consented.has(participant.id) ? "READY" : "NO_CONSENT",
+    ])
+  );
+}
+
+export async function findMatchableParticipantIds(eventId: string): Promise<string[]> {
+  const readiness = await getMatchingReadiness(eventId);
+  return [...readiness].filter(([, status]) => status === "READY").map(([participantId]) => participantId);
+}
+
+/**
+ * Forgets everything face matching derived from a participant's reference
+ * photo, so the next run embeds and matches them again from scratch.
+ * Matches a reviewer decided on are kept.
+ */
+async function resetParticipantMatching(participantId: string) {
+  await prisma.$transaction([
+    prisma.photoParticipantMatch.deleteMany({ where: { participantId, ...UNREVIEWED_MATCH } }),
+    prisma.faceMatchingTaskParticipant.deleteMany({ where: { participantId } }),
+    prisma.participant.update({ where: { id: participantId }, data: { referenceFaceDescriptor: null } }),
+  ]);
+}
+
+type ReferencePhotoOwner = { id: string; eventId: string; referencePhotoUrl: string | null };
+
+/**
+ * Stores a new reference photo for the participant, replacing any previous one.
+ * Throws if the file isn't a readable image.
+ */
+export async function setReferencePhoto(participant: ReferencePhotoOwner, file: File): Promise<string> {
+  const photo = await prepareReferencePhoto(Buffer.from(await file.arrayBuffer()));
+  const url = await uploadBufferToStorage(photo, {
+    pathPrefix: `events/${participant.eventId}/participants/${participant.id}`,
+    fileName: "reference.jpg",
+    contentType: "image/jpeg",
+  });
+
+  await prisma.participant.update({ where: { id: participant.id }, data: { referencePhotoUrl: url } });
+  await resetParticipantMatching(participant.id);
+
+  if (participant.referencePhotoUrl) {
+    await deleteFileFromStorage(participant.referencePhotoUrl).catch((error) =>
+      console.error(`Failed to delete old reference photo for participant ${participant.id}:`, error)
+    );
+  }
+  return url;
+}
+
+export async function removeReferencePhoto(participant: ReferencePhotoOwner): Promise<void> {
+  await prisma.participant.update({ where: { id: participant.id }, data: { referencePhotoUrl: null } });
+  await resetParticipantMatching(participant.id);
+
+  if (participant.referencePhotoUrl) {
+    await deleteFileFromStorage(participant.referencePhotoUrl).catch((error) =>
+      console.error(`Failed to delete reference photo for participant ${participant.id}:`, error)
+    );
+  }
+}
+
+/**
+ * Removes a participant together with their matches and stored reference
+ * photo. Consent history is kept, detached from the deleted participant.
+ */
+export async function deleteParticipant(participant: ReferencePhotoOwner): Promise<void> {
+  // Matches, task coverage and queued emails cascade with the participant
+  await prisma.participant.delete({ where: { id: participant.id } });
+
+  if (participant.referencePhotoUrl) {
+    await deleteFileFromStorage(participant.referencePhotoUrl).catch((error) =>
+      console.error(`Failed to delete reference photo for removed participant ${participant.id}:`, error)
+    );
+  }
+}
+
+/**
+ * Emails the participant an invitation to the event. Does nothing for
+ * participants without an email address.
+ */
+export async function sendParticipantInvite(participantId: string): Promise<void> {
+  const participant = await prisma.participant.findUniqueOrThrow({
+    where: { id: participantId },
+    select: { id: true, name: true, email: true, event: { select: { name: true, organization: { select: { name: true } } } } },
+  });
+  if (!participant.email) return;
+
+  await enqueueNotification({
+    template: "invite",
+    data: {
+      participantName: participant.name,
+      eventName: participant.event.name,
+      organizationName: participant.event.organization.name,
+    },
+    to: { email: participant.email, name: participant.name },
+    participantId: participant.id,
+  });
+}
@@ -0,0 +1,144 @@
+import type { PhotoReviewStatus, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "~/db.server";
+import { UNREVIEWED_MATCH } from "~/services/matches.server";
+
+/**
+ * Moderation of uploaded photos. Every upload starts PENDING; only APPROVED
+ * photos reach face matching and participant galleries.
+ */
+
+// Most photos shown on one page of the queue
+const REVIEW_PAGE_SIZE = 120;
+
+export const PHOTO_REVIEW_STATUSES: PhotoReviewStatus[] = ["PENDING", "APPROVED", "REJECTED"];
+
+// Form submitted by the review queue, for both approving and rejecting
+export const PhotoReviewSchema = z.object({
+  intent: z.enum(["approvePhotos", "rejectPhotos"]),
+  photoIds: z.array(z.string().min(1)).min(1, "Select at least one photo."),
+  rejectionReason: z.string().trim().max(200, "Keep the reason under 200 characters.").optional(),
+});
+
+// Reads a review queue submission; photo ids arrive as repeated `photoId` fields
+export function parsePhotoReviewForm(formData: FormData) {
+  return PhotoReviewSchema.safeParse({
+    intent: formData.get("intent"),
+    photoIds: formData.getAll("photoId").map(String),
+    rejectionReason: formData.get("rejectionReason") ?? undefined,
+  });
+}
+
+export type PhotoReviewFilters = {
+  orgId: string;
+  eventId?: string;
+  status: PhotoReviewStatus;
+  uploaderUserId?: string;
+};
+
+function reviewQueueWhere({ orgId, eventId, uploaderUserId }: Omit<PhotoReviewFilters, "status">) {
+  return {
+    event: { orgId },
+    ...(eventId ? { eventId } : {}),
+    ...(uploaderUserId ? { uploaderUserId } : {}),
+  } satisfies Prisma.EventPhotoWhereInput;
+}
+
+/**
+ * Lists the photos in a review queue, along with how many photos each status
+ * holds under the same filters. Pending photos come oldest first so nothing
+ * waits forever; reviewed ones newest first.
+ */
+export async function listPhotosForReview(filters: PhotoReviewFilters) {
+  const where = reviewQueueWhere(filters);
+
+  const [photos, statusCounts] = await Promise.all([
+    prisma.eventPhoto.findMany({
+      where: { ...where, reviewStatus: filters.status },
+      orderBy: { uploadTime: filters.status === "PENDING" ? "asc" : "desc" },
+      take: REVIEW_PAGE_SIZE,
+      select: {
+        id: true,
+        imageUrl: true,
+        thumbnailUrl: true,
+        webUrl: true,
+        uploadTime: true,
+        rejectionReason: true,
+        reviewedAt: true,
+        event: { select: { id: true, name: true } },
+        uploader: { select: { name: true, email: true } },
+        reviewedBy: { select: { name: true, email: true } },
+      },
+    }),
+    prisma.eventPhoto.groupBy({ by: ["reviewStatus"], where, _count: { _all: true } }),
+  ]);
+
+  const counts = Object.fromEntries(statusCounts.map((group) => [group.reviewStatus, group._count._all]));
+  return { photos, counts: counts as Partial<Record<PhotoReviewStatus, number>> };
+}
+
+/**
+ * People who uploaded photos to the organization (or one of its events),
+ * for filtering the queue by uploader.
+ */
+export async function listPhotoUploaders(orgId: string, eventId?: string) {
+  return prisma.user.findMany({
+    where: { uploadedPhotos: { some: reviewQueueWhere({ orgId, eventId }) } },
+    orderBy: [{ name: "asc" }, { email: "asc" }],
+    select: { id: true, name: true, email: true },
+  });
+}
+
+export async function countPendingPhotos(eventId: string) {
+  return prisma.eventPhoto.count({ where: { eventId, reviewStatus: "PENDING" } });
+}
+
+/**
+ * Approves or rejects photos in bulk. Only photos of the organization's
+ * events (and of `eventId`, when given) are touched. Rejecting a photo drops
+ * the matches nobody has reviewed and its face matching coverage, so it is
+ * matched again if it is approved later. Returns how many were updated.
+ */
+export async function reviewPhotos({
+  orgId,
+  eventId,
+  photoIds,
+  decision,
+  rejectionReason,
+  reviewerId,
+}: {
+  orgId: string;
+  eventId?: string;
+  photoIds: string[];
+  decision: Extract<PhotoReviewStatus, "APPROVED" | "REJECTED">;
+  rejectionReason?: string | null;
+  reviewerId: string;
+}): Promise<number> {
+  const photos = await prisma.eventPhoto.findMany({
+    where: { id: { in: photoIds }, ...reviewQueueWhere({ orgId, eventId }) },
+    select: { id: true },
+  });
+  const ids = photos.map((photo) => photo.id);
+  if (ids.length === 0) return 0;
+
+  const approved = decision === "APPROVED";
+  await prisma.$transaction([
+    prisma.eventPhoto.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        reviewStatus: decision,
+        isPublic: approved,
+        rejectionReason: approved ? null : rejectionReason || null,
+        reviewedByUserId: reviewerId,
+        reviewedAt: new Date(),
+      },
+    }),
+    ...(approved
+      ? []
+      : [
+          prisma.photoParticipantMatch.deleteMany({ where: { photoId: { in: ids }, ...UNREVIEWED_MATCH } }),
+          prisma.faceMatchingTaskPhoto.deleteMany({ where: { photoId: { in: ids } } }),
+        ]),
+  ]);
+  return ids.length;
+}
@@ -0,0 +1,56 @@
+import sharp from "sharp";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createEventPhoto } from "~/services/photos.server";
+import { resetDb, rows } from "~/test/fake-db";
+import { uploadBufferToStorage } from "~/utils/storage.server";
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/utils/storage.server", () => ({
+  uploadBufferToStorage: vi.fn(async (_body: Buffer, { pathPrefix, fileName }: { pathPrefix: string; fileName: string }) => `/uploads/${pathPrefix}/${fileName}`),
+  deleteFileFromStorage: vi.fn(async () => {}),
+  readFileFromStorage: vi.fn(async () => null),
+}));
+// Phones tag HEIC and AVIF photos with a location, which sharp can't write into the test images; every photo reports one here
+vi.mock("~/services/exif.server", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("~/services/exif.server")>();
+  return {
+    ...actual,
+    extractExifData: async (image: Buffer) => ({ ...(await actual.extractExifData(image)), gps: { latitude: 52.5, longitude: 13.4, altitude: null } }),
+  };
+});
+
+async function avifUpload(): Promise<File> {
+  const image = await sharp({ create: { width: 40, height: 30, channels: 3, background: "#884422" } }).avif().toBuffer();
+  return new File([image], "IMG_0001.avif", { type: "image/avif" });
+}
+
+// The content type and file name the original was stored with
+function storedOriginal() {
+  const call = vi.mocked(uploadBufferToStorage).mock.calls.find(([, options]) => options.pathPrefix === "events/event-1/photos");
+  return call?.[1];
+}
+
+describe("createEventPhoto", () => {
+  beforeEach(() => {
+    resetDb();
+    vi.clearAllMocks();
+  });
+
+  it("stores a converted original under the format it was converted to", async () => {
+    rows("event").push({ id: "event-1", organization: { stripGpsMetadata: true } });
+    const photo = await createEventPhoto({ eventId: "event-1", uploaderUserId: "user-1", file: await avifUpload() });
+
+    expect(storedOriginal()).toMatchObject({ fileName: "IMG_0001.jpg", contentType: "image/jpeg" });
+    expect(photo.imageUrl).toBe("/uploads/events/event-1/photos/IMG_0001.jpg");
+    expect(photo.metadata).toMatchObject({ gps: null });
+    expect(photo).toMatchObject({ reviewStatus: "PENDING", thumbnailUrl: expect.stringMatching(/\.webp$/) });
+  });
+
+  it("stores the original as uploaded when locations are kept", async () => {
+    rows("event").push({ id: "event-1", organization: { stripGpsMetadata: false } });
+    const photo = await createEventPhoto({ eventId: "event-1", uploaderUserId: "user-1", file: await avifUpload() });
+
+    expect(storedOriginal()).toMatchObject({ fileName: "IMG_0001.avif", contentType: "image/avif" });
+    expect(photo.metadata).toMatchObject({ gps: { latitude: 52.5, longitude: 13.4 } });
+  });
+});
@@ -0,0 +1,148 @@
+import path from "node:path";
+import type { EventPhoto, Prisma } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { extractExifData, stripImageMetadata } from "~/services/exif.server";
+import { generateDerivatives } from "~/services/images.server";
+import {
+  deleteFileFromStorage,
+  readFileFromStorage,
+  uploadBufferToStorage,
+} from "~/utils/storage.server";
+
+// Photos a moderator approved: the only ones face matching processes and galleries show
+export const APPROVED_PHOTO = { reviewStatus: "APPROVED" } satisfies Prisma.EventPhotoWhereInput;
+
+interface DerivativeUrls {
+  thumbnailUrl: string;
+  webUrl: string;
+}
+
+// Generates and stores the thumbnail and web renditions for an original
+async function storeDerivatives(
+  eventId: string,
+  original: Buffer,
+  originalName: string
+): Promise<DerivativeUrls> {
+  const { thumbnail, web } = await generateDerivatives(original);
+  const baseName = path.parse(originalName).name;
+
+  const thumbnailUrl = await uploadBufferToStorage(thumbnail, {
+    pathPrefix: `events/${eventId}/photos/thumbnails`,
+    fileName: `${baseName}.webp`,
+    contentType: "image/webp",
+  });
+  const webUrl = await uploadBufferToStorage(web, {
+    pathPrefix: `events/${eventId}/photos/web`,
+    fileName: `${baseName}.jpg`,
+    contentType: "image/jpeg",
+  });
+
+  return { thumbnailUrl, webUrl };
+}
+
+/**
+ * Stores an uploaded photo with its derivatives and EXIF metadata and creates
+ * the EventPhoto record. Derivative failures are logged but don't fail the
+ * upload; the backfill script can regenerate them later.
+ */
+export async function createEventPhoto({
+  eventId,
+  uploaderUserId,
+  file,
+}: {
+  eventId: string;
+  uploaderUserId: string;
+  file: File;
+}): Promise<EventPhoto> {
+  const event = await prisma.event.findUniqueOrThrow({
+    where: { id: eventId },
+    select: { organization: { select: { stripGpsMetadata: true } } },
+  });
+
+  let original = Buffer.from(await file.arrayBuffer());
+  let fileName = file.name;
+  let contentType = file.type || "application/octet-stream";
+  const metadata = await extractExifData(original);
+
+  // Organizations can opt out of keeping location data on their photos
+  if (event.organization.stripGpsMetadata && metadata.gps) {
+    metadata.gps = null;
+    const stripped = await stripImageMetadata(original);
+    original = stripped.buffer;
+    // The file may have been converted, e.g. from HEIC to JPEG
+    fileName = `${path.parse(file.name).name}.${stripped.format === "jpeg" ? "jpg" : stripped.format}`;
+    contentType = `image/${stripped.format}`;
+  }
+
+  const imageUrl = await uploadBufferToStorage(original, {
+    pathPrefix: `events/${eventId}/photos`,
+    fileName,
+    contentType,
+  });
+
+  let derivatives: DerivativeUrls | null = null;
+  try {
+    derivatives = await storeDerivatives(eventId, original, file.name);
+  } catch (error) {
+    console.error(`Failed to generate derivatives for ${file.name}:`, error);
+  }
+
+  try {
+    return await prisma.eventPhoto.create({
+      data: {
+        eventId,
+        uploaderUserId,
+        imageUrl,
+        thumbnailUrl: derivatives?.thumbnailUrl,
+        webUrl: derivatives?.webUrl,
+        uploadTime: new Date(),
+        capturedAt: metadata.capturedAt ? new Date(metadata.capturedAt) : null,
+        metadata: { ...metadata },
+        reviewStatus: 'PENDING', // Held back from matching and galleries until a moderator approves it
+        isPublic: false, // Set when the photo is approved
+      },
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind if the record couldn't be created
+    await deletePhotoFiles({ imageUrl, ...derivatives });
+    throw error;
+  }
+}
+
+/**
+ * (Re)generates derivatives for an existing photo from its stored original.
+ * Returns false if the original could not be read.
+ */
+export async function regeneratePhotoDerivatives(
+  photo: Pick<EventPhoto, "id" | "eventId" | "imageUrl" | "thumbnailUrl" | "webUrl">
+): Promise<boolean> {
+  const original = await readFileFromStorage(photo.imageUrl);
+  if (!original) return false;
+
+  const derivatives = await storeDerivatives(photo.eventId, original, path.basename(photo.imageUrl));
+  await prisma.eventPhoto.update({
+    where: { id: photo.id },
+    data: derivatives,
+  });
+
+  // Remove any previous renditions now that the record points at the new ones
+  await deletePhotoFiles({ thumbnailUrl: photo.thumbnailUrl, webUrl: photo.webUrl });
+  return true;
+}
+
+/**
+ * Deletes the original and every derivative of a photo from storage.
+ * Individual failures are logged so one missing file doesn't block the rest.
+ */
+export async function deletePhotoFiles(
+  urls: { imageUrl?: string | null; thumbnailUrl?: string | null; webUrl?: string | null }
+): Promise<void> {
+  for (const url of [urls.imageUrl, urls.thumbnailUrl, urls.webUrl]) {
+    if (!url) continue;
+    try {
+      await deleteFileFromStorage(url);
+    } catch (error) {
+      console.error(`Failed to delete stored file ${url}:`, error);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { createHash } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eraseDataSubject, verifyErasureChain } from "~/services/privacy.server";
+import { db, prisma, resetDb, rows, uniqueFields } from "~/test/fake-db";
+import { deleteFileFromStorage } from "~/utils/storage.server";
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/utils/storage.server", () => ({ deleteFileFromStorage: vi.fn(async () => {}), readFileFromStorage: vi.fn() }));
+
+// A member of org-1 with three uploads; relations the lookups filter on are stored on the rows
+function seedAccount(role: "ADMIN" | "MEMBER") {
+  rows("user").push({
+    id: "user-1",
+    email: "ana@example.com",
+    name: "Ana",
+    organizationMemberships: [{ id: "member-1", orgId: "org-1", role }],
+    participations: [],
+    _count: { uploadedPhotos: 3 },
+  });
+  rows("organizationUser").push({ id: "member-1", orgId: "org-1", userId: "user-1", role });
+}
+
+describe("erasure log", () => {
+  beforeEach(() => {
+    resetDb();
+    uniqueFields.erasureRecord = ["previousHash"];
+  });
+
+  it("starts the chain from a fixed genesis hash and links each record to the previous one", async () => {
+    const first = await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+    const second = await eraseDataSubject("org-1", "ben@example.com", "admin-1");
+
+    expect(first.record.previousHash).toBe("0".repeat(64));
+    expect(second.record.previousHash).toBe(first.record.hash);
+    expect(first.record.verified).toBe(true);
+    await expect(verifyErasureChain()).resolves.toEqual({ ok: true, count: 2, head: second.record.hash });
+  });
+
+  it("stores a hash of the normalized email instead of the email", async () => {
+    const { record } = await eraseDataSubject("org-1", " Ana@Example.com ", "admin-1");
+    const again = await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+
+    expect(record.subjectHash).toBe(again.record.subjectHash);
+    expect(JSON.stringify(db.erasureRecord)).not.toContain("ana@example.com");
+    // Keyed, so it can't be recomputed from a guessed email
+    expect(record.subjectHash).not.toBe(createHash("sha256").update("ana@example.com").digest("hex"));
+  });
+
+  it("detects a record whose contents were changed", async () => {
+    await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+    const { record } = await eraseDataSubject("org-1", "ben@example.com", "admin-1");
+    rows("erasureRecord")[1].verified = false;
+
+    await expect(verifyErasureChain()).resolves.toEqual({ ok: false, brokenAt: record.id });
+  });
+
+  it("detects a removed record", async () => {
+    await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+    const { record } = await eraseDataSubject("org-1", "ben@example.com", "admin-1");
+    await eraseDataSubject("org-1", "cy@example.com", "admin-1");
+    await prisma.erasureRecord.delete({ where: { id: record.id } });
+
+    await expect(verifyErasureChain()).resolves.toMatchObject({ ok: false });
+  });
+
+  it("reports a new head when the newest record is removed", async () => {
+    await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+    const { record } = await eraseDataSubject("org-1", "ben@example.com", "admin-1");
+    await prisma.erasureRecord.delete({ where: { id: record.id } });
+
+    const chain = await verifyErasureChain();
+    expect(chain).toMatchObject({ ok: true, count: 1 });
+    expect(chain.ok && chain.head).not.toBe(record.hash);
+  });
+
+  it("retries when another erasure appended first", async () => {
+    await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+    vi.spyOn(prisma.erasureRecord, "create").mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "test" })
+    );
+    await eraseDataSubject("org-1", "ben@example.com", "admin-1");
+
+    await expect(verifyErasureChain()).resolves.toMatchObject({ ok: true, count: 2 });
+  });
+});
+
+describe("eraseDataSubject", () => {
+  beforeEach(() => {
+    resetDb();
+    vi.clearAllMocks();
+  });
+
+  it("deletes the participant records and their reference photos", async () => {
+    rows("participant").push(
+      { id: "participant-1", email: "ana@example.com", referencePhotoUrl: "/uploads/ref-1.jpg", event: { id: "event-1", name: "Gala", orgId: "org-1" } },
+      { id: "participant-2", email: "ana@example.com", referencePhotoUrl: null, event: { id: "event-2", name: "Other", orgId: "org-2" } }
+    );
+    rows("consentLog").push({ id: "log-1", participantId: "participant-1", userId: null });
+
+    const { summary, record } = await eraseDataSubject("org-1", "Ana@Example.com", "admin-1");
+
+    expect(rows("participant").map((participant) => participant.id)).toEqual(["participant-2"]);
+    expect(rows("consentLog")).toEqual([]);
+    expect(deleteFileFromStorage).toHaveBeenCalledWith("/uploads/ref-1.jpg");
+    expect(summary).toMatchObject({ participants: 1, consentLogs: 1, referencePhotos: 1, accountDeleted: false });
+    expect(record.verified).toBe(true);
+  });
+
+  it("deletes the account and keeps the photos it uploaded", async () => {
+    seedAccount("MEMBER");
+    const { summary, record } = await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+
+    expect(rows("user")).toEqual([]);
+    expect(deleteFileFromStorage).not.toHaveBeenCalled();
+    expect(summary).toMatchObject({ accountDeleted: true, uploadedPhotos: 3 });
+    expect(record.verified).toBe(true);
+  });
+
+  it("keeps the organization's last admin", async () => {
+    seedAccount("ADMIN");
+    const { summary, record } = await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+
+    expect(rows("user")).toHaveLength(1);
+    expect(rows("organizationUser")).toHaveLength(1);
+    expect(summary).toMatchObject({ accountDeleted: false, uploadedPhotos: 0 });
+    expect(summary.accountKeptReason).toMatch(/last admin/);
+    expect(record.verified).toBe(true);
+  });
+
+  it("deletes an admin when another admin is left", async () => {
+    seedAccount("ADMIN");
+    rows("organizationUser").push({ id: "member-2", orgId: "org-1", userId: "admin-1", role: "ADMIN" });
+    const { summary } = await eraseDataSubject("org-1", "ana@example.com", "admin-1");
+
+    expect(summary.accountDeleted).toBe(true);
+  });
+});
@@ -0,0 +1,332 @@
+import { createHmac } from "node:crypto";
+import path from "node:path";
+import { Prisma } from "@prisma/client";
+import type { ErasureRecord } from "@prisma/client";
+import { strToU8, zipSync } from "fflate";
+import type { Zippable } from "fflate";
+import invariant from "tiny-invariant";
+import { prisma } from "~/db.server";
+import { isLastAdmin } from "~/services/members.server";
+import { emailVariants, normalizeEmail } from "~/utils/email";
+import { deleteFileFromStorage, readFileFromStorage } from "~/utils/storage.server";
+
+/**
+ * Data subject requests (access and erasure) for an organization. A data
+ * subject is identified by email: the organization's participants with that
+ * email, and the user account with that email if it is linked to the
+ * organization through a membership or a participation.
+ */
+
+export async function findDataSubject(orgId: string, email: string) {
+  const emails = emailVariants(email);
+
+  const participants = await prisma.participant.findMany({
+    where: { email: { in: emails }, event: { orgId } },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, name: true, email: true, referencePhotoUrl: true, event: { select: { id: true, name: true } } },
+  });
+
+  const user = await prisma.user.findFirst({
+    where: {
+      email: { in: emails },
+      OR: [{ organizationMemberships: { some: { orgId } } }, { participations: { some: { event: { orgId } } } }],
+    },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      organizationMemberships: { select: { id: true, orgId: true, role: true } },
+      _count: { select: { uploadedPhotos: true } },
+    },
+  });
+
+  return { participants, user };
+}
+
+export type DataSubject = Awaited<ReturnType<typeof findDataSubject>>;
+
+type AccountErasure = {
+  // delete the account, only remove it from this organization, or keep it
+  action: "delete" | "leave" | "keep";
+  reason: string | null;
+};
+
+async function planAccountErasure(subject: DataSubject, orgId: string, requestedByUserId: string): Promise<AccountErasure> {
+  if (!subject.user) return { action: "keep", reason: null };
+  if (subject.user.id === requestedByUserId) return { action: "keep", reason: "You can't erase your own account." };
+  const membership = subject.user.organizationMemberships.find((membership) => membership.orgId === orgId);
+  if (membership?.role === "ADMIN" && (await isLastAdmin(orgId, membership.id))) {
+    return { action: "keep", reason: "The account is the organization's last admin. Make someone else an admin first." };
+  }
+  if (subject.user.organizationMemberships.some((membership) => membership.orgId !== orgId)) {
+    return { action: "leave", reason: "The account also belongs to another organization, so it is only removed from this one." };
+  }
+  return { action: "delete", reason: null };
+}
+
+// Why the account can't be deleted from this organization, or null if it can
+export async function accountErasureBlocker(subject: DataSubject, orgId: string, requestedByUserId: string): Promise<string | null> {
+  return (await planAccountErasure(subject, orgId, requestedByUserId)).reason;
+}
+
+const CONSENT_LOG_EXPORT_FIELDS = {
+  eventId: true,
+  type: true,
+  status: true,
+  timestamp: true,
+  policyVersion: true,
+  ipAddress: true,
+  details: true,
+} satisfies Prisma.ConsentLogSelect;
+
+/**
+ * Builds a zip archive of everything the organization holds about the data
+ * subject: `data.json` with their records, plus reference photos, photos
+ * they are confirmed in and photos they uploaded to the organization's events.
+ */
+export async function buildDataSubjectExport(orgId: string, email: string): Promise<Uint8Array> {
+  const emails = emailVariants(email);
+  const files: Zippable = {};
+
+  // Adds a stored file to the archive; returns its path there, or null if it's gone
+  const addFile = async (folder: string, name: string, fileUrl: string | null) => {
+    if (!fileUrl) return null;
+    const buffer = await readFileFromStorage(fileUrl);
+    if (!buffer) return null;
+    const archivePath = `${folder}/${name}${path.extname(new URL(fileUrl, "http://localhost").pathname) || ".jpg"}`;
+    // Images are already compressed
+    files[archivePath] = [new Uint8Array(buffer), { level: 0 }];
+    return archivePath;
+  };
+
+  const participants = await prisma.participant.findMany({
+    where: { email: { in: emails }, event: { orgId } },
+    orderBy: { createdAt: "asc" },
+    include: {
+      event: { select: { id: true, name: true, dateStart: true } },
+      consentLogs: { orderBy: { timestamp: "asc" }, select: CONSENT_LOG_EXPORT_FIELDS },
+      matches: {
+        orderBy: { matchTime: "asc" },
+        select: {
+          photoId: true,
+          status: true,
+          source: true,
+          confidenceScore: true,
+          matchTime: true,
+          photo: { select: { webUrl: true, imageUrl: true } },
+        },
+      },
+      notifications: { orderBy: { createdAt: "asc" }, select: { template: true, subject: true, status: true, createdAt: true, sentAt: true } },
+    },
+  });
+
+  const participations = [];
+  for (const participant of participants) {
+    const matches = [];
+    for (const match of participant.matches) {
+      const { photo, ...rest } = match;
+      const file = match.status === "CONFIRMED" ? await addFile("matched-photos", match.photoId, photo.webUrl ?? photo.imageUrl) : null;
+      matches.push({ ...rest, file });
+    }
+    participations.push({
+      id: participant.id,
+      event: participant.event,
+      name: participant.name,
+      email: participant.email,
+      registrationStatus: participant.registrationStatus,
+      createdAt: participant.createdAt,
+      referencePhoto: await addFile("reference-photos", participant.id, participant.referencePhotoUrl),
+      consentLogs: participant.consentLogs,
+      matches,
+      emails: participant.notifications,
+    });
+  }
+
+  const subject = await findDataSubject(orgId, email);
+  let account = null;
+  if (subject.user) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: subject.user.id },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        createdAt: true,
+        consentLogs: { where: { participantId: null }, orderBy: { timestamp: "asc" }, select: CONSENT_LOG_EXPORT_FIELDS },
+        uploadedPhotos: {
+          where: { event: { orgId } },
+          orderBy: { uploadTime: "asc" },
+          select: { id: true, eventId: true, imageUrl: true, uploadTime: true, capturedAt: true },
+        },
+        notifications: { orderBy: { createdAt: "asc" }, select: { template: true, subject: true, status: true, createdAt: true, sentAt: true } },
+      },
+    });
+
+    const uploadedPhotos = [];
+    for (const { imageUrl, ...photo } of user.uploadedPhotos) {
+      uploadedPhotos.push({ ...photo, file: await addFile("uploaded-photos", photo.id, imageUrl) });
+    }
+    account = { ...user, uploadedPhotos };
+  }
+
+  const data = { exportedAt: new Date(), email: normalizeEmail(email), account, participations };
+  files["data.json"] = strToU8(JSON.stringify(data, null, 2));
+
+  return zipSync(files);
+}
+
+// --- Erasure records ---
+
+// Keys the log's hashes, so they can't be recomputed from a guessed email or a rewritten record
+const ERASURE_LOG_SECRET = process.env.ERASURE_LOG_SECRET ?? process.env.SESSION_SECRET ?? "";
+invariant(ERASURE_LOG_SECRET, "ERASURE_LOG_SECRET or SESSION_SECRET must be set");
+
+function hashSubject(email: string): string {
+  return createHmac("sha256", ERASURE_LOG_SECRET).update(`subject:${normalizeEmail(email)}`).digest("hex");
+}
+
+// previousHash of the first record. Not null, since a unique index allows several nulls
+const ERASURE_CHAIN_GENESIS = "0".repeat(64);
+
+type ErasureRecordContent = Pick<
+  ErasureRecord,
+  "orgId" | "requestedByUserId" | "subjectHash" | "summary" | "verified" | "createdAt" | "previousHash"
+>;
+
+function hashErasureRecord(record: ErasureRecordContent): string {
+  const content = JSON.stringify([
+    record.previousHash,
+    record.orgId,
+    record.requestedByUserId,
+    record.subjectHash,
+    record.summary,
+    record.verified,
+    record.createdAt.toISOString(),
+  ]);
+  return createHmac("sha256", ERASURE_LOG_SECRET).update(`record:${content}`).digest("hex");
+}
+
+/**
+ * Loads all records in chain order by following previousHash links from the
+ * first record. Records that aren't reachable that way are left out.
+ */
+async function loadErasureChain(): Promise<{ chain: ErasureRecord[]; total: number }> {
+  const records = await prisma.erasureRecord.findMany();
+  const byPreviousHash = new Map(records.map((record) => [record.previousHash, record]));
+  const chain: ErasureRecord[] = [];
+  for (let record = byPreviousHash.get(ERASURE_CHAIN_GENESIS); record; record = byPreviousHash.get(record.hash)) {
+    chain.push(record);
+  }
+  return { chain, total: records.length };
+}
+
+// Appends a record to the chain, retrying if another erasure appended first
+async function appendErasureRecord(content: Omit<ErasureRecordContent, "previousHash">): Promise<ErasureRecord> {
+  for (let attempt = 0; ; attempt++) {
+    const { chain } = await loadErasureChain();
+    const record = { ...content, previousHash: chain.at(-1)?.hash ?? ERASURE_CHAIN_GENESIS };
+    try {
+      return await prisma.erasureRecord.create({ data: { ...record, hash: hashErasureRecord(record) } });
+    } catch (error) {
+      // previousHash is unique, so a concurrent append makes this one fail
+      const forked = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!forked || attempt >= 5) throw error;
+    }
+  }
+}
+
+/**
+ * Recomputes every record's hash along the chain and checks that no record
+ * was removed from it or added beside it. Removing the newest records leaves
+ * a valid shorter chain, so this also returns the head hash: compare it with
+ * one noted down earlier to detect that.
+ */
+export async function verifyErasureChain(): Promise<
+  { ok: true; count: number; head: string | null } | { ok: false; brokenAt: string | null }
+> {
+  const { chain, total } = await loadErasureChain();
+  const tampered = chain.find((record) => hashErasureRecord(record) !== record.hash);
+  if (tampered) return { ok: false, brokenAt: tampered.id };
+  // Records that can't be reached from the start mean a link was changed or removed
+  if (chain.length !== total) return { ok: false, brokenAt: chain.at(-1)?.id ?? null };
+  return { ok: true, count: total, head: chain.at(-1)?.hash ?? null };
+}
+
+export async function listErasureRecords(orgId: string) {
+  return prisma.erasureRecord.findMany({
+    where: { orgId },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+}
+
+export type ErasureSummary = {
+  participants: number;
+  consentLogs: number;
+  referencePhotos: number;
+  accountDeleted: boolean;
+  accountKeptReason: string | null;
+  // Photos the deleted account uploaded; they are kept without an uploader
+  uploadedPhotos: number;
+  filesNotDeleted: number;
+};
+
+/**
+ * Erases the data subject: deletes their participant records (with matches,
+ * consent logs and emails) and stored reference photos, and their account
+ * when it belongs to this organization only. Photos the account uploaded stay
+ * with their events, without an uploader. Then looks them up again to verify
+ * nothing is left and appends a record to the erasure log.
+ */
+export async function eraseDataSubject(orgId: string, email: string, requestedByUserId: string) {
+  const subject = await findDataSubject(orgId, email);
+  const account = await planAccountErasure(subject, orgId, requestedByUserId);
+  const participantIds = subject.participants.map((participant) => participant.id);
+
+  // Collect file locations before the rows pointing at them are gone
+  const fileUrls = subject.participants.flatMap((participant) => (participant.referencePhotoUrl ? [participant.referencePhotoUrl] : []));
+
+  // Consent logs only point at participants with SetNull, so they are deleted explicitly
+  const [consentLogs] = await prisma.$transaction([
+    prisma.consentLog.deleteMany({
+      where: { OR: [{ participantId: { in: participantIds } }, ...(account.action === "delete" ? [{ userId: subject.user!.id }] : [])] },
+    }),
+    prisma.participant.deleteMany({ where: { id: { in: participantIds } } }),
+    // Memberships, sessions and the rest cascade with the account; uploads are detached
+    ...(account.action === "delete" ? [prisma.user.delete({ where: { id: subject.user!.id } })] : []),
+    ...(account.action === "leave" ? [prisma.organizationUser.deleteMany({ where: { userId: subject.user!.id, orgId } })] : []),
+  ]);
+
+  let filesNotDeleted = 0;
+  for (const fileUrl of fileUrls) {
+    await deleteFileFromStorage(fileUrl).catch((error) => {
+      filesNotDeleted++;
+      console.error(`[Privacy] Failed to delete ${fileUrl} during erasure:`, error);
+    });
+  }
+
+  const remaining = await findDataSubject(orgId, email);
+  const verified = remaining.participants.length === 0 && (account.action === "keep" || remaining.user === null) && filesNotDeleted === 0;
+
+  const summary: ErasureSummary = {
+    participants: participantIds.length,
+    consentLogs: consentLogs.count,
+    referencePhotos: subject.participants.filter((participant) => participant.referencePhotoUrl).length,
+    accountDeleted: account.action === "delete",
+    accountKeptReason: account.reason,
+    uploadedPhotos: account.action === "delete" ? subject.user!._count.uploadedPhotos : 0,
+    filesNotDeleted,
+  };
+
+  const record = await appendErasureRecord({
+    orgId,
+    requestedByUserId,
+    subjectHash: hashSubject(email),
+    summary: JSON.stringify(summary),
+    verified,
+    createdAt: new Date(),
+  });
+
+  return { record, summary };
+}
@@ -0,0 +1,43 @@
+import { prisma } from "~/db.server";
+import type { RateLimitStore } from "~/services/rate-limit/store.server";
+
+const ENTRY_SELECT = { attempts: true, windowStartedAt: true, blockedUntil: true } as const;
+
+/**
+ * Keeps counters in the RateLimitBucket table, so they survive restarts and
+ * are shared by every server instance.
+ */
+export function createDatabaseStore(): RateLimitStore {
+  return {
+    name: "database",
+
+    async get(key) {
+      return prisma.rateLimitBucket.findUnique({ where: { key }, select: ENTRY_SELECT });
+    },
+
+    async increment(key, windowMs) {
+      // Read and write in one transaction so concurrent attempts are all counted
+      return prisma.$transaction(async (tx) => {
+        const now = new Date();
+        const existing = await tx.rateLimitBucket.findUnique({ where: { key }, select: ENTRY_SELECT });
+        if (existing && existing.windowStartedAt.getTime() + windowMs > now.getTime()) {
+          return tx.rateLimitBucket.update({ where: { key }, data: { attempts: { increment: 1 } }, select: ENTRY_SELECT });
+        }
+        return tx.rateLimitBucket.upsert({
+          where: { key },
+          create: { key, attempts: 1, windowStartedAt: now },
+          update: { attempts: 1, windowStartedAt: now },
+          select: ENTRY_SELECT,
+        });
+      });
+    },
+
+    async block(key, until) {
+      await prisma.rateLimitBucket.updateMany({ where: { key }, data: { blockedUntil: until } });
+    },
+
+    async delete(key) {
+      await prisma.rateLimitBucket.deleteMany({ where: { key } });
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import type { RateLimitEntry, RateLimitStore } from "~/services/rate-limit/store.server";
+
+// Entries are swept once the map grows past this many keys
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Keeps counters in the server's memory. Fine for development and a single
+ * process; counters are lost on restart and not shared between instances.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry & { windowMs: number }>();
+
+  function sweep(now: number) {
+    for (const [key, entry] of entries) {
+      const blocked = entry.blockedUntil && entry.blockedUntil.getTime() > now;
+      if (!blocked && entry.windowStartedAt.getTime() + entry.windowMs <= now) entries.delete(key);
+    }
+  }
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      const entry = entries.get(key);
+      return entry ? { attempts: entry.attempts, windowStartedAt: entry.windowStartedAt, blockedUntil: entry.blockedUntil } : null;
+    },
+
+    async increment(key, windowMs) {
+      const now = Date.now();
+      if (entries.size > SWEEP_THRESHOLD) sweep(now);
+
+      const existing = entries.get(key);
+      const entry =
+        existing && existing.windowStartedAt.getTime() + windowMs > now
+          ? { ...existing, attempts: existing.attempts + 1 }
+          : { attempts: 1, windowStartedAt: new Date(now), blockedUntil: existing?.blockedUntil ?? null, windowMs };
+      entries.set(key, entry);
+      return { attempts: entry.attempts, windowStartedAt: entry.windowStartedAt, blockedUntil: entry.blockedUntil };
+    },
+
+    async block(key, until) {
+      const entry = entries.get(key);
+      if (entry) entries.set(key, { ...entry, blockedUntil: until });
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
@@ -0,0 +1,16 @@
+// Attempts counted for one key within the current window
+export interface RateLimitEntry {
+  attempts: number;
+  windowStartedAt: Date;
+  blockedUntil: Date | null;
+}
+
+// Every place the rate limiter keeps its counters implements this interface
+export interface RateLimitStore {
+  readonly name: string;
+  get(key: string): Promise<RateLimitEntry | null>;
+  // Counts an attempt, starting a new window when the current one is older than windowMs
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  block(key: string, until: Date): Promise<void>;
+  delete(key: string): Promise<void>;
+}
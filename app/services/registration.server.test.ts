@@ -0,0 +1,86 @@
+import sharp from "sharp";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { registerParticipant } from "~/services/registration.server";
+import { resetDb, rows } from "~/test/fake-db";
+import { uploadBufferToStorage } from "~/utils/storage.server";
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/utils/storage.server", () => ({
+  uploadBufferToStorage: vi.fn(async () => "/uploads/reference.jpg"),
+  deleteFileFromStorage: vi.fn(async () => {}),
+}));
+
+function form(fields: Record<string, string | File>): FormData {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) formData.set(name, value);
+  return formData;
+}
+
+const VALID = { name: "Ana", email: "Ana@Example.com ", consent_PHOTO_STORAGE: "on" };
+
+async function selfie(): Promise<File> {
+  const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: "#c08040" } }).jpeg().toBuffer();
+  return new File([image], "selfie.jpg", { type: "image/jpeg" });
+}
+
+describe("registerParticipant", () => {
+  beforeEach(() => {
+    resetDb();
+    vi.clearAllMocks();
+  });
+
+  it("creates the participant with a normalized email and logs every consent choice", async () => {
+    const result = await registerParticipant("event-1", form(VALID), "198.51.100.7");
+
+    expect(result).toMatchObject({ ok: true });
+    expect(rows("participant")).toMatchObject([{ eventId: "event-1", name: "Ana", email: "ana@example.com", registrationStatus: "Registered" }]);
+    expect(rows("consentLog").map((log) => [log.type, log.status, log.ipAddress])).toEqual([
+      ["PHOTO_STORAGE", "GRANTED", "198.51.100.7"],
+      ["FACIAL_RECOGNITION", "REVOKED", "198.51.100.7"],
+      ["DATA_SHARING", "REVOKED", "198.51.100.7"],
+    ]);
+  });
+
+  it("requires photo storage consent", async () => {
+    const result = await registerParticipant("event-1", form({ ...VALID, consent_PHOTO_STORAGE: "" }), null);
+
+    expect(result).toMatchObject({ ok: false, status: 400, errors: { consent_PHOTO_STORAGE: expect.any(String) } });
+    expect(rows("participant")).toEqual([]);
+  });
+
+  it("refuses an email already registered for the event in another letter case", async () => {
+    rows("participant").push({ id: "participant-1", eventId: "event-1", email: "ANA@example.com" });
+    const result = await registerParticipant("event-1", form(VALID), null);
+
+    expect(result).toMatchObject({ ok: false, status: 409 });
+    expect(rows("participant")).toHaveLength(1);
+  });
+
+  it("only accepts a selfie together with facial recognition consent", async () => {
+    const result = await registerParticipant("event-1", form({ ...VALID, referencePhoto: await selfie() }), null);
+
+    expect(result).toMatchObject({ ok: false, status: 400, errors: { referencePhoto: expect.any(String) } });
+    expect(uploadBufferToStorage).not.toHaveBeenCalled();
+  });
+
+  it("stores the selfie as the reference photo", async () => {
+    const result = await registerParticipant(
+      "event-1",
+      form({ ...VALID, consent_FACIAL_RECOGNITION: "on", referencePhoto: await selfie() }),
+      null
+    );
+
+    expect(result).toMatchObject({ ok: true });
+    expect(uploadBufferToStorage).toHaveBeenCalledOnce();
+    expect(rows("participant")[0].referencePhotoUrl).toBe("/uploads/reference.jpg");
+  });
+
+  it("removes the participant again when the selfie can't be read", async () => {
+    const broken = new File([Buffer.from("not an image")], "selfie.jpg", { type: "image/jpeg" });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const result = await registerParticipant("event-1", form({ ...VALID, consent_FACIAL_RECOGNITION: "on", referencePhoto: broken }), null);
+
+    expect(result).toMatchObject({ ok: false, status: 400, errors: { referencePhoto: expect.any(String) } });
+    expect(rows("participant")).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import type { ConsentType, EventStatus } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "~/db.server";
+import { updateParticipantConsents } from "~/services/consent.server";
+import {
+  isParticipantEmailTaken,
+  ParticipantSchema,
+  setReferencePhoto,
+  validateReferencePhotoFile,
+} from "~/services/participants.server";
+
+/**
+ * Self-registration on the public page of an event. Public events (other
+ * than drafts) have a page at /events/<eventId>; registration is open while
+ * the event is upcoming or running and its deadline, if any, hasn't passed.
+ */
+
+const REGISTRATION_OPEN_STATUSES: EventStatus[] = ["UPCOMING", "ACTIVE"];
+
+export type RegistrationState =
+  | { open: true }
+  | { open: false; reason: string };
+
+export function getRegistrationState(event: { status: EventStatus; registrationDeadline: Date | null }, now = new Date()): RegistrationState {
+  if (!REGISTRATION_OPEN_STATUSES.includes(event.status)) {
+    return { open: false, reason: event.status === "COMPLETED" || event.status === "ARCHIVED" ? "This event has ended." : "Registration isn't open yet." };
+  }
+  if (event.registrationDeadline && event.registrationDeadline <= now) {
+    return { open: false, reason: "Registration for this event has closed." };
+  }
+  return { open: true };
+}
+
+// Loads a public event for its landing page; null when it doesn't exist or isn't public
+export async function getPublicEvent(eventId: string) {
+  return prisma.event.findFirst({
+    where: { id: eventId, isPublic: true, status: { not: "DRAFT" } },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      dateStart: true,
+      dateEnd: true,
+      locationName: true,
+      locationAddress: true,
+      status: true,
+      registrationDeadline: true,
+      organization: { select: { name: true } },
+    },
+  });
+}
+
+// Consent choices offered on the registration form, in display order
+export const REGISTRATION_CONSENTS = [
+  { type: "PHOTO_STORAGE", required: true },
+  { type: "FACIAL_RECOGNITION", required: false },
+  { type: "DATA_SHARING", required: false },
+] as const satisfies readonly { type: ConsentType; required: boolean }[];
+
+const RegistrationSchema = ParticipantSchema.pick({ name: true, email: true }).extend({
+  consent_PHOTO_STORAGE: z.literal("on", {
+    errorMap: () => ({ message: "You need to agree to photos of you being stored to register." }),
+  }),
+  consent_FACIAL_RECOGNITION: z.literal("on").optional(),
+  consent_DATA_SHARING: z.literal("on").optional(),
+});
+
+export type RegistrationErrors = Partial<Record<"form" | "name" | "email" | "referencePhoto" | "consent_PHOTO_STORAGE", string>>;
+
+export type RegistrationResult =
+  | { ok: true; participantId: string }
+  | { ok: false; status: 400 | 409; errors: RegistrationErrors };
+
+/**
+ * Registers a participant from the public form: creates the Participant,
+ * logs each consent choice and stores their selfie, if any. A selfie is
+ * only accepted together with facial recognition consent.
+ */
+export async function registerParticipant(eventId: string, formData: FormData, ipAddress: string | null): Promise<RegistrationResult> {
+  const submission = RegistrationSchema.safeParse(Object.fromEntries(formData));
+  if (!submission.success) {
+    const fieldErrors = submission.error.flatten().fieldErrors;
+    return {
+      ok: false,
+      status: 400,
+      errors: {
+        name: fieldErrors.name?.[0],
+        email: fieldErrors.email?.[0],
+        consent_PHOTO_STORAGE: fieldErrors.consent_PHOTO_STORAGE?.[0],
+      },
+    };
+  }
+  const { name, email } = submission.data;
+
+  const selfie = formData.get("referencePhoto");
+  const hasSelfie = selfie instanceof File && selfie.size > 0;
+  if (hasSelfie) {
+    if (submission.data.consent_FACIAL_RECOGNITION !== "on") {
+      return { ok: false, status: 400, errors: { referencePhoto: "Agree to facial recognition to have your photos found with a selfie, or remove the selfie." } };
+    }
+    const photoError = validateReferencePhotoFile(selfie);
+    if (photoError) return { ok: false, status: 400, errors: { referencePhoto: photoError } };
+  }
+
+  if (await isParticipantEmailTaken(eventId, email)) {
+    return { ok: false, status: 409, errors: { email: "This email address is already registered for this event." } };
+  }
+
+  const participant = await prisma.participant.create({
+    data: { eventId, name, email, registrationStatus: "Registered" },
+    select: { id: true, eventId: true, referencePhotoUrl: true },
+  });
+
+  if (hasSelfie) {
+    try {
+      await setReferencePhoto(participant, selfie);
+    } catch (error) {
+      console.error("Failed to store registration selfie:", error);
+      // Don't leave a half-registered participant behind
+      await prisma.participant.delete({ where: { id: participant.id } });
+      return { ok: false, status: 400, errors: { referencePhoto: "Could not read the photo. Please upload a JPEG, PNG or WebP image." } };
+    }
+  }
+
+  await updateParticipantConsents(
+    participant.id,
+    Object.fromEntries(REGISTRATION_CONSENTS.map(({ type }) => [type, formData.get(`consent_${type}`) === "on"])),
+    { details: "Public registration form", ipAddress }
+  );
+
+  return { ok: true, participantId: participant.id };
+}
@@ -1,11 +1,27 @@
 // app/services/session.server.ts
-import { createCookieSessionStorage } from "@remix-run/node";
+import { createSessionStorage } from "@remix-run/node";
 import invariant from "tiny-invariant";
+import { prisma } from "~/db.server";
 
 invariant(process.env.SESSION_SECRET, "SESSION_SECRET must be set");
 
-// export the whole sessionStorage object
-export const sessionStorage = createCookieSessionStorage({
+// Key the authenticator stores the signed-in user under
+export const SESSION_USER_KEY = "user";
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// Id of the signed-in user in a session's data, if any
+function sessionUserId(data: Record<string, unknown>): string | null {
+  const user = data[SESSION_USER_KEY] as { id?: unknown } | undefined;
+  return typeof user?.id === "string" ? user.id : null;
+}
+
+function expiresAtFrom(expires: Date | undefined): Date {
+  return expires ?? new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+}
+
+// Sessions are stored in the UserSession table; the cookie only carries the signed session id
+export const sessionStorage = createSessionStorage({
   cookie: {
     name: "__session", // use any name you want here
     sameSite: "lax", // this helps with CSRF
@@ -13,7 +29,31 @@ export const sessionStorage = createCookieSessionStorage({
     httpOnly: true, // for security reasons, make this cookie http only
     secrets: [process.env.SESSION_SECRET], // replace this with an actual secret
     secure: process.env.NODE_ENV === "production", // enable this in prod only
-    maxAge: 60 * 60 * 24 * 30, // 30 days
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  },
+  async createData(data, expires) {
+    // Expired sessions are cleaned up whenever a new one starts
+    await prisma.userSession.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    const session = await prisma.userSession.create({
+      data: { data: JSON.stringify(data), userId: sessionUserId(data), expiresAt: expiresAtFrom(expires) },
+      select: { id: true },
+    });
+    return session.id;
+  },
+  async readData(id) {
+    const session = await prisma.userSession.findUnique({ where: { id }, select: { data: true, expiresAt: true } });
+    if (!session || session.expiresAt < new Date()) return null;
+    return JSON.parse(session.data);
+  },
+  async updateData(id, data, expires) {
+    // updateMany, so a session signed out in the meantime stays signed out
+    await prisma.userSession.updateMany({
+      where: { id },
+      data: { data: JSON.stringify(data), userId: sessionUserId(data), expiresAt: expiresAtFrom(expires) },
+    });
+  },
+  async deleteData(id) {
+    await prisma.userSession.deleteMany({ where: { id } });
   },
 });
 
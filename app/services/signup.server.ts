@@ -0,0 +1,53 @@
+import { prisma } from "~/db.server";
+import type { SessionUser } from "~/services/auth.server";
+import { hashPassword, toSessionUser } from "~/services/auth.server";
+import type { SignupData } from "~/utils/auth-validation";
+import { SignupSchema } from "~/utils/auth-validation";
+import { emailVariants } from "~/utils/email";
+
+/**
+ * Self-service signup. An individual account is just the user; choosing to
+ * create an organization also creates it with the new user as its admin.
+ */
+
+export type SignupErrors = Partial<Record<keyof SignupData | "form", string>>;
+
+export type SignupResult =
+  | { ok: true; user: SessionUser; orgId: string | null }
+  | { ok: false; status: 400 | 409; errors: SignupErrors };
+
+export async function signUp(formData: FormData): Promise<SignupResult> {
+  const submission = SignupSchema.safeParse(Object.fromEntries(formData));
+  if (!submission.success) {
+    const fieldErrors = submission.error.flatten().fieldErrors;
+    return {
+      ok: false,
+      status: 400,
+      errors: Object.fromEntries(Object.entries(fieldErrors).map(([field, messages]) => [field, messages?.[0]])),
+    };
+  }
+  const { name, email, password, accountType, organizationName } = submission.data;
+
+  const existing = await prisma.user.count({ where: { email: { in: emailVariants(email) } } });
+  if (existing > 0) {
+    return { ok: false, status: 409, errors: { email: "An account with this email already exists. Log in instead." } };
+  }
+
+  const passwordHash = await hashPassword(password);
+
+  // The organization and its first admin are created together or not at all
+  const { created, orgId } = await prisma.$transaction(async (tx) => {
+    const created = await tx.user.create({
+      data: { email, name, passwordHash, role: accountType === "ORGANIZATION" ? "ORGANIZATION_ADMIN" : "INDIVIDUAL_USER" },
+    });
+    if (accountType !== "ORGANIZATION" || !organizationName) return { created, orgId: null };
+
+    const organization = await tx.organization.create({
+      data: { name: organizationName, members: { create: { userId: created.id, role: "ADMIN" } } },
+      select: { id: true },
+    });
+    return { created, orgId: organization.id };
+  });
+
+  return { ok: true, user: toSessionUser(created), orgId };
+}
@@ -0,0 +1,61 @@
+import path from "node:path";
+
+// An object read back from storage, ready to be streamed in a Response
+export interface StoredObject {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+  size?: number;
+}
+
+// Every storage backend implements this interface. Keys are always
+// forward-slash separated relative paths (e.g. "events/abc/photos/123.jpg").
+export interface StorageDriver {
+  readonly name: string;
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  getObject(key: string): Promise<StoredObject | null>;
+  deleteObject(key: string): Promise<void>;
+}
+
+// Public URL prefix for stored objects, served by app/routes/storage.$.tsx
+export const STORAGE_URL_PREFIX = "/storage/";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".heic": "image/heic",
+  ".avif": "image/avif",
+};
+
+/**
+ * Guesses a content type from the key's extension. Used by drivers that
+ * don't persist the content type alongside the object.
+ */
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Rejects keys that could escape the storage root or address nothing.
+ */
+export function assertValidKey(key: string): void {
+  const segments = key.split("/");
+  if (!key || key.startsWith("/") || segments.some((s) => s === "" || s === "." || s === "..")) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export function urlForKey(key: string): string {
+  return `${STORAGE_URL_PREFIX}${key}`;
+}
+
+/**
+ * Extracts the storage key from a URL produced by urlForKey.
+ * Returns null for URLs we don't manage (e.g. legacy placeholder URLs).
+ */
+export function keyFromUrl(url: string): string | null {
+  if (!url.startsWith(STORAGE_URL_PREFIX)) return null;
+  return url.slice(STORAGE_URL_PREFIX.length);
+}
@@ -0,0 +1,48 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { StorageDriver } from "~/services/storage/driver.server";
+import { createFilesystemDriver } from "~/services/storage/filesystem.server";
+
+describe("filesystem storage driver", () => {
+  let rootDir: string;
+  let driver: StorageDriver;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "storage-test-"));
+    driver = createFilesystemDriver({ rootDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("stores, reads and deletes an object", async () => {
+    await driver.putObject("events/event-1/photos/a.jpg", Buffer.from("jpeg bytes"), "image/jpeg");
+
+    const object = await driver.getObject("events/event-1/photos/a.jpg");
+    expect(object).toMatchObject({ contentType: "image/jpeg", size: 10 });
+    expect(await new Response(object!.body).text()).toBe("jpeg bytes");
+
+    await driver.deleteObject("events/event-1/photos/a.jpg");
+    expect(await driver.getObject("events/event-1/photos/a.jpg")).toBeNull();
+  });
+
+  it("leaves no temporary files behind", async () => {
+    await driver.putObject("a.png", Buffer.from("png bytes"), "image/png");
+    expect(await fs.readdir(rootDir)).toEqual(["a.png"]);
+  });
+
+  it("returns null for missing objects and ignores deleting them", async () => {
+    expect(await driver.getObject("missing.jpg")).toBeNull();
+    await expect(driver.deleteObject("missing.jpg")).resolves.toBeUndefined();
+  });
+
+  it("refuses keys that would leave the storage root", async () => {
+    for (const key of ["../outside.jpg", "/etc/passwd", "events//a.jpg", "events/./a.jpg", ""]) {
+      await expect(driver.putObject(key, Buffer.from("x"), "image/jpeg")).rejects.toThrow("Invalid storage key");
+    }
+    expect(await fs.readdir(path.dirname(rootDir))).not.toContain("outside.jpg");
+  });
+});
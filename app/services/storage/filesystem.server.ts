@@ -0,0 +1,56 @@
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createReadableStreamFromReadable } from "@remix-run/node";
+import type { StorageDriver } from "~/services/storage/driver.server";
+import { assertValidKey, contentTypeForKey } from "~/services/storage/driver.server";
+
+/**
+ * Stores objects as plain files below rootDir. Suitable for development
+ * and single-server deployments with a persistent disk.
+ */
+export function createFilesystemDriver({ rootDir }: { rootDir: string }): StorageDriver {
+  const resolveKey = (key: string) => {
+    assertValidKey(key);
+    const filePath = path.resolve(rootDir, ...key.split("/"));
+    // Belt and braces: never touch anything outside the storage root
+    if (!filePath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: "filesystem",
+
+    async putObject(key, body) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temp file first so readers never see a partial object
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, body);
+      await fs.rename(tempPath, filePath);
+    },
+
+    async getObject(key) {
+      const filePath = resolveKey(key);
+      try {
+        const stat = await fs.stat(filePath);
+        if (!stat.isFile()) return null;
+        return {
+          body: createReadableStreamFromReadable(createReadStream(filePath)),
+          contentType: contentTypeForKey(key),
+          size: stat.size,
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      // force: true makes deleting a missing file a no-op
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
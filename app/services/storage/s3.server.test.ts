@@ -0,0 +1,55 @@
+import { GetObjectCommand, NoSuchKey, S3Client } from "@aws-sdk/client-s3";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createS3Driver } from "~/services/storage/s3.server";
+
+const send = vi.spyOn(S3Client.prototype, "send");
+
+// Commands the driver sent, by type and input
+function sentCommands() {
+  return send.mock.calls.map(([command]) => [command.constructor.name, command.input]);
+}
+
+describe("S3 storage driver", () => {
+  const driver = createS3Driver({ bucket: "photos", region: "eu-central-1" });
+
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  it("uploads with the content type", async () => {
+    send.mockResolvedValueOnce({} as never);
+    await driver.putObject("events/event-1/a.jpg", Buffer.from("jpeg bytes"), "image/jpeg");
+
+    expect(sentCommands()).toEqual([
+      ["PutObjectCommand", { Bucket: "photos", Key: "events/event-1/a.jpg", Body: Buffer.from("jpeg bytes"), ContentType: "image/jpeg" }],
+    ]);
+  });
+
+  it("streams an object back, guessing the content type when S3 has none", async () => {
+    const body = new Response("png bytes").body!;
+    send.mockResolvedValueOnce({ Body: { transformToWebStream: () => body }, ContentLength: 9 } as never);
+
+    const object = await driver.getObject("a.png");
+
+    expect(send.mock.lastCall![0]).toBeInstanceOf(GetObjectCommand);
+    expect(object).toMatchObject({ contentType: "image/png", size: 9 });
+    expect(await new Response(object!.body).text()).toBe("png bytes");
+  });
+
+  it("returns null for a missing key", async () => {
+    send.mockRejectedValueOnce(new NoSuchKey({ message: "The specified key does not exist.", $metadata: {} }));
+    expect(await driver.getObject("missing.jpg")).toBeNull();
+  });
+
+  it("deletes objects", async () => {
+    send.mockResolvedValueOnce({} as never);
+    await driver.deleteObject("a.jpg");
+
+    expect(sentCommands()).toEqual([["DeleteObjectCommand", { Bucket: "photos", Key: "a.jpg" }]]);
+  });
+
+  it("refuses invalid keys without calling S3", async () => {
+    await expect(driver.putObject("../a.jpg", Buffer.from("x"), "image/jpeg")).rejects.toThrow("Invalid storage key");
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { StorageDriver } from "~/services/storage/driver.server";
+import { assertValidKey, contentTypeForKey } from "~/services/storage/driver.server";
+
+interface S3DriverOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // e.g. http://localhost:9000 for a local MinIO server
+  forcePathStyle?: boolean; // MinIO and most S3 stand-ins need path-style URLs
+}
+
+/**
+ * Stores objects in an S3 bucket, or any S3-compatible service when an
+ * endpoint is given. Credentials come from the usual AWS_* env variables.
+ */
+export function createS3Driver(options: S3DriverOptions): StorageDriver {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+  });
+
+  return {
+    name: "s3",
+
+    async putObject(key, body, contentType) {
+      assertValidKey(key);
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    },
+
+    async getObject(key) {
+      assertValidKey(key);
+      try {
+        const result = await client.send(
+          new GetObjectCommand({ Bucket: options.bucket, Key: key })
+        );
+        if (!result.Body) return null;
+        return {
+          body: result.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+          contentType: result.ContentType ?? contentTypeForKey(key),
+          size: result.ContentLength,
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      assertValidKey(key);
+      // S3 treats deleting a missing key as success, so no special casing here
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+}
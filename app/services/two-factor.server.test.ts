@@ -0,0 +1,157 @@
+import type { RecoveryCode, User } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin } from "~/services/auth-throttle.server";
+import { disableTwoFactor, enableTwoFactor, regenerateRecoveryCodes, verifyTwoFactorCode } from "~/services/two-factor.server";
+import { resetDb, rows } from "~/test/fake-db";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+import { currentTotpStep, generateTotpSecret, totpCode } from "~/utils/totp.server";
+
+type FakeUser = Pick<User, "id" | "email" | "totpSecret" | "totpEnabledAt" | "totpLastUsedStep">;
+type FakeRecoveryCode = Pick<RecoveryCode, "userId" | "codeHash" | "usedAt">;
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/services/auth-throttle.server", () => ({ assertLoginAllowed: vi.fn(), clearFailedLogins: vi.fn(), recordFailedLogin: vi.fn() }));
+
+const user = () => rows<FakeUser>("user")[0];
+const storedRecoveryCodes = () => rows<FakeRecoveryCode>("recoveryCode");
+
+const request = new Request("http://localhost/org/account");
+// Never a valid code: authenticator codes are digits and recovery codes have a dash
+const WRONG_CODE = "not-a-code";
+
+function codeAt(secret: string, offsetSteps = 0): string {
+  return totpCode(secret, currentTotpStep() + offsetSteps);
+}
+
+// Signs the fake user up for two-factor authentication and returns the secret and recovery codes
+async function enable() {
+  const secret = generateTotpSecret();
+  const result = await enableTwoFactor(user().id, secret, codeAt(secret));
+  if (!result.ok) throw new Error(result.error);
+  // Move past the step used to confirm, as if the user signs in a little later
+  vi.advanceTimersByTime(30_000);
+  return { secret, recoveryCodes: result.recoveryCodes };
+}
+
+describe("two-factor authentication", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.clearAllMocks();
+    resetDb();
+    rows<FakeUser>("user").push({ id: "user-1", email: "ana@example.com", totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("enableTwoFactor", () => {
+    it("refuses a code that doesn't match the secret", async () => {
+      const secret = generateTotpSecret();
+      const result = await enableTwoFactor("user-1", secret, codeAt(secret, 5));
+      expect(result).toMatchObject({ ok: false, status: 400 });
+      expect(user().totpEnabledAt).toBeNull();
+    });
+
+    it("turns two-factor on and creates ten recovery codes, keeping only their hashes", async () => {
+      const { secret, recoveryCodes } = await enable();
+
+      expect(user()).toMatchObject({ totpSecret: secret, totpEnabledAt: expect.any(Date) });
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toBe(10);
+      expect(recoveryCodes[0]).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+      expect(JSON.stringify(storedRecoveryCodes())).not.toContain(recoveryCodes[0]);
+    });
+  });
+
+  describe("verifyTwoFactorCode", () => {
+    it("fails for users without two-factor authentication", async () => {
+      expect(await verifyTwoFactorCode("user-1", "123456")).toEqual({ ok: false, usedRecoveryCode: false });
+    });
+
+    it("accepts each authenticator code only once", async () => {
+      const { secret } = await enable();
+      const code = codeAt(secret);
+
+      expect(await verifyTwoFactorCode("user-1", code)).toEqual({ ok: true, usedRecoveryCode: false });
+      expect(await verifyTwoFactorCode("user-1", code)).toEqual({ ok: false, usedRecoveryCode: false });
+    });
+
+    it("refuses a code older than the last one used", async () => {
+      const { secret } = await enable();
+
+      expect((await verifyTwoFactorCode("user-1", codeAt(secret, 1))).ok).toBe(true);
+      expect((await verifyTwoFactorCode("user-1", codeAt(secret))).ok).toBe(false);
+    });
+
+    it("accepts each recovery code once, however it is typed", async () => {
+      const { recoveryCodes } = await enable();
+      const typed = ` ${recoveryCodes[3].toUpperCase().replace("-", "")} `;
+
+      expect(await verifyTwoFactorCode("user-1", typed)).toEqual({ ok: true, usedRecoveryCode: true });
+      expect(await verifyTwoFactorCode("user-1", recoveryCodes[3])).toEqual({ ok: false, usedRecoveryCode: false });
+      expect((await verifyTwoFactorCode("user-1", recoveryCodes[4])).ok).toBe(true);
+    });
+  });
+
+  describe("disableTwoFactor", () => {
+    it("turns two-factor off with a valid code", async () => {
+      const { secret } = await enable();
+
+      expect(await disableTwoFactor(user(), codeAt(secret), request)).toEqual({ ok: true });
+      expect(user()).toMatchObject({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+      expect(storedRecoveryCodes()).toHaveLength(0);
+      expect(clearFailedLogins).toHaveBeenCalledWith("ana@example.com");
+    });
+
+    it("counts a wrong code as a failed login", async () => {
+      await enable();
+
+      expect(await disableTwoFactor(user(), WRONG_CODE, request)).toMatchObject({ ok: false, status: 400 });
+      expect(recordFailedLogin).toHaveBeenCalledWith("ana@example.com", request);
+      expect(user().totpEnabledAt).not.toBeNull();
+    });
+
+    it("doesn't check codes while the account has to wait", async () => {
+      const { secret } = await enable();
+      const code = codeAt(secret);
+      vi.mocked(assertLoginAllowed).mockRejectedValueOnce(new RateLimitedError("Too many login attempts. Try again in 8 seconds.", 8));
+
+      expect(await disableTwoFactor(user(), code, request)).toEqual({
+        ok: false,
+        status: 429,
+        error: "Too many login attempts. Try again in 8 seconds.",
+      });
+      expect(user().totpEnabledAt).not.toBeNull();
+      // The code wasn't spent
+      expect((await verifyTwoFactorCode("user-1", code)).ok).toBe(true);
+    });
+
+    it("is refused while an organization requires it", async () => {
+      const { secret } = await enable();
+      rows("organization").push({ id: "org-1", name: "Acme", requireAdminTwoFactor: true, members: [{ userId: "user-1", role: "ADMIN" }] });
+
+      expect(await disableTwoFactor(user(), codeAt(secret), request)).toMatchObject({ ok: false, status: 403 });
+      expect(user().totpEnabledAt).not.toBeNull();
+    });
+  });
+
+  describe("regenerateRecoveryCodes", () => {
+    it("replaces the recovery codes", async () => {
+      const { secret, recoveryCodes } = await enable();
+      const result = await regenerateRecoveryCodes(user(), codeAt(secret), request);
+      if (!result.ok) throw new Error(result.error);
+
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect((await verifyTwoFactorCode("user-1", recoveryCodes[0])).ok).toBe(false);
+      expect((await verifyTwoFactorCode("user-1", result.recoveryCodes[0])).ok).toBe(true);
+    });
+
+    it("counts a wrong code as a failed login", async () => {
+      await enable();
+
+      expect(await regenerateRecoveryCodes(user(), WRONG_CODE, request)).toMatchObject({ ok: false, status: 400 });
+      expect(recordFailedLogin).toHaveBeenCalledWith("ana@example.com", request);
+    });
+  });
+});
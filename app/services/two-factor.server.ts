@@ -0,0 +1,134 @@
+import { randomBytes } from "node:crypto";
+import QRCode from "qrcode";
+import { prisma } from "~/db.server";
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin } from "~/services/auth-throttle.server";
+import { RateLimitedError } from "~/utils/rate-limit.server";
+import { hashSecretToken } from "~/utils/tokens.server";
+import { totpUri, verifyTotp } from "~/utils/totp.server";
+
+/**
+ * Optional two-factor authentication with an authenticator app (TOTP) and
+ * one-time recovery codes. Organizations can require it for their admins.
+ */
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER ?? "Photo Distributor";
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+export type TwoFactorResult<T = object> = ({ ok: true } & T) | { ok: false; status: 400 | 403 | 429; error: string };
+
+// QR code and secret shown while setting up the authenticator app
+export async function twoFactorSetup(secret: string, accountName: string) {
+  const uri = totpUri({ secret, accountName, issuer: TWO_FACTOR_ISSUER });
+  return { secret, qrCodeDataUrl: await QRCode.toDataURL(uri, { margin: 1, width: 200 }) };
+}
+
+// "k7m2p-x9qrt"; case and the dash don't matter when it is entered
+function generateRecoveryCode(): string {
+  const chars = Array.from(randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashSecretToken(code.toLowerCase().replace(/[^a-z0-9]/g, ""));
+}
+
+// Replaces all recovery codes; the new ones are returned once and only their hashes kept
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({ data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })) }),
+  ]);
+  return codes;
+}
+
+/**
+ * Turns two-factor authentication on once the user proves their app
+ * produces codes for the secret they were shown.
+ */
+export async function enableTwoFactor(userId: string, secret: string, code: string): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    return { ok: false, status: 400, error: "That code didn't match. Check the time on your phone and try the current code." };
+  }
+
+  await prisma.user.update({ where: { id: userId }, data: { totpSecret: secret, totpEnabledAt: new Date(), totpLastUsedStep: step } });
+  return { ok: true, recoveryCodes: await replaceRecoveryCodes(userId) };
+}
+
+/**
+ * Checks a code from the authenticator app or an unused recovery code.
+ * Each is accepted only once.
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<{ ok: boolean; usedRecoveryCode: boolean }> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { totpSecret: true, totpEnabledAt: true } });
+  if (!user?.totpSecret || !user.totpEnabledAt) return { ok: false, usedRecoveryCode: false };
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step !== null) {
+    // Only a step later than the last accepted one counts, so an observed code can't be replayed
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step },
+    });
+    return { ok: count > 0, usedRecoveryCode: false };
+  }
+
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return { ok: count > 0, usedRecoveryCode: count > 0 };
+}
+
+// Organizations where the user is an admin and two-factor authentication is required
+export async function organizationsRequiringTwoFactor(userId: string) {
+  return prisma.organization.findMany({
+    where: { requireAdminTwoFactor: true, members: { some: { userId, role: "ADMIN" } } },
+    select: { id: true, name: true },
+  });
+}
+
+type CodeOwner = { id: string; email: string };
+
+// Confirms a sensitive change with a code. Wrong codes count like wrong passwords.
+async function checkCodeForChange(user: CodeOwner, code: string, request: Request): Promise<TwoFactorResult> {
+  try {
+    await assertLoginAllowed(user.email, request);
+  } catch (error) {
+    if (!(error instanceof RateLimitedError)) throw error;
+    return { ok: false, status: 429, error: error.message };
+  }
+  if (!(await verifyTwoFactorCode(user.id, code)).ok) {
+    await recordFailedLogin(user.email, request);
+    return { ok: false, status: 400, error: "That code didn't match." };
+  }
+  await clearFailedLogins(user.email);
+  return { ok: true };
+}
+
+export async function disableTwoFactor(user: CodeOwner, code: string, request: Request): Promise<TwoFactorResult> {
+  const requiredBy = await organizationsRequiringTwoFactor(user.id);
+  if (requiredBy.length > 0) {
+    return { ok: false, status: 403, error: `${requiredBy.map((org) => org.name).join(", ")} requires admins to use two-factor authentication.` };
+  }
+  const check = await checkCodeForChange(user, code, request);
+  if (!check.ok) return check;
+
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: user.id }, data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null } }),
+    prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+  ]);
+  return { ok: true };
+}
+
+export async function regenerateRecoveryCodes(user: CodeOwner, code: string, request: Request): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+  const check = await checkCodeForChange(user, code, request);
+  if (!check.ok) return check;
+  return { ok: true, recoveryCodes: await replaceRecoveryCodes(user.id) };
+}
+
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  return prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+}
@@ -0,0 +1,139 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { PhotoUpload } from "@prisma/client";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createEventPhoto } from "~/services/photos.server";
+import { appendUploadChunk, createUploadBatch, failUpload, MAX_UPLOAD_BYTES, readChunkBody, UploadError } from "~/services/uploads.server";
+import { prisma, resetDb, rows } from "~/test/fake-db";
+
+const tmpDir = vi.hoisted(() => {
+  // Read when uploads.server loads
+  const dir = `${process.env.TMPDIR ?? "/tmp"}/photo-uploads-test-${process.pid}`;
+  process.env.UPLOAD_TMP_DIR = dir;
+  return dir;
+});
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/services/photos.server", () => ({ createEventPhoto: vi.fn(async () => ({ id: "photo-1" })) }));
+
+function seedUpload(totalBytes: number): PhotoUpload {
+  const upload = {
+    id: "upload-1",
+    batchId: "batch-1",
+    fileName: "IMG_0001.jpg",
+    contentType: "image/jpeg",
+    totalBytes,
+    receivedBytes: 0,
+    status: "UPLOADING",
+    errorDetails: null,
+    photoId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } satisfies PhotoUpload;
+  rows<PhotoUpload>("photoUpload").push(upload);
+  return { ...upload };
+}
+
+function stream(...chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("uploads", () => {
+  beforeEach(() => {
+    resetDb();
+    vi.clearAllMocks();
+    rows("photoUploadBatch").push({ id: "batch-1", eventId: "event-1", uploaderUserId: "user-1" });
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("createUploadBatch", () => {
+    it("records files the server won't accept as failed straight away", async () => {
+      const create = vi.spyOn(prisma.photoUploadBatch, "create");
+      await createUploadBatch({
+        eventId: "event-1",
+        uploaderUserId: "user-1",
+        files: [
+          { name: "ok.jpg", size: 10, type: "image/jpeg" },
+          { name: "notes.txt", size: 10, type: "text/plain" },
+          { name: "empty.png", size: 0, type: "image/png" },
+          { name: "huge.jpg", size: MAX_UPLOAD_BYTES + 1, type: "image/jpeg" },
+        ],
+      });
+
+      const { uploads } = create.mock.lastCall![0].data as { uploads: { create: { status: string; errorDetails: string | null }[] } };
+      expect(uploads.create.map(({ status, errorDetails }) => [status, errorDetails])).toEqual([
+        ["UPLOADING", null],
+        ["FAILED", "Unsupported file type."],
+        ["FAILED", "File is empty."],
+        ["FAILED", "File is larger than 100 MB."],
+      ]);
+    });
+  });
+
+  describe("readChunkBody", () => {
+    it("reads the whole body", async () => {
+      expect((await readChunkBody(stream("abc", "def"))).toString()).toBe("abcdef");
+    });
+
+    it("stops reading once the body is larger than a chunk may be", async () => {
+      const big = "x".repeat(5 * 1024 * 1024);
+      await expect(readChunkBody(stream(big, big))).rejects.toMatchObject({ status: 413 });
+    });
+  });
+
+  describe("appendUploadChunk", () => {
+    it("assembles the chunks and turns the finished file into a photo", async () => {
+      let upload = seedUpload(6);
+      upload = await appendUploadChunk(upload, 0, Buffer.from("abc"));
+      expect(upload).toMatchObject({ receivedBytes: 3, status: "UPLOADING" });
+
+      upload = await appendUploadChunk(upload, 3, Buffer.from("def"));
+
+      expect(upload).toMatchObject({ status: "COMPLETED", photoId: "photo-1" });
+      const { file } = vi.mocked(createEventPhoto).mock.lastCall![0];
+      expect(await file.text()).toBe("abcdef");
+      expect(file).toMatchObject({ name: "IMG_0001.jpg", type: "image/jpeg" });
+      await expect(fs.stat(path.join(tmpDir, "upload-1.part"))).rejects.toThrow();
+    });
+
+    it("acknowledges a chunk it already has without writing it again", async () => {
+      let upload = seedUpload(6);
+      upload = await appendUploadChunk(upload, 0, Buffer.from("abc"));
+
+      expect(await appendUploadChunk(upload, 0, Buffer.from("abc"))).toMatchObject({ receivedBytes: 3 });
+    });
+
+    it("refuses chunks out of order or past the declared size", async () => {
+      const upload = seedUpload(6);
+
+      await expect(appendUploadChunk(upload, 3, Buffer.from("def"))).rejects.toMatchObject({ status: 409 });
+      await expect(appendUploadChunk(upload, 0, Buffer.from("abcdefg"))).rejects.toBeInstanceOf(UploadError);
+    });
+
+    it("marks the upload failed when the photo can't be created", async () => {
+      vi.mocked(createEventPhoto).mockRejectedValueOnce(new Error("not an image"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const upload = await appendUploadChunk(seedUpload(3), 0, Buffer.from("abc"));
+
+      expect(upload).toMatchObject({ status: "FAILED", errorDetails: "The file could not be processed." });
+    });
+  });
+
+  describe("failUpload", () => {
+    it("records the reason, but leaves finished uploads alone", async () => {
+      expect(await failUpload(seedUpload(6), "Gave up after 5 retries.")).toMatchObject({ status: "FAILED", errorDetails: "Gave up after 5 retries." });
+
+      const completed = { ...seedUpload(6), status: "COMPLETED" as const };
+      expect(await failUpload(completed, "Too late.")).toBe(completed);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { PhotoUpload } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { createEventPhoto } from "~/services/photos.server";
+
+// Limits for the resumable upload endpoint
+export const MAX_UPLOAD_BYTES = 100 * 1024 * 1024; // per file
+export const MAX_CHUNK_BYTES = 8 * 1024 * 1024;
+export const MAX_FILES_PER_BATCH = 2000;
+
+const ACCEPTED_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic"];
+
+// Partially received files live here until the last chunk arrives
+const UPLOAD_TMP_DIR = path.resolve(process.env.UPLOAD_TMP_DIR ?? path.join(os.tmpdir(), "photo-uploads"));
+
+function partPath(uploadId: string) {
+  return path.join(UPLOAD_TMP_DIR, `${uploadId}.part`);
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+/**
+ * Reads a chunk request body, failing as soon as it grows past
+ * MAX_CHUNK_BYTES instead of buffering whatever the client sends.
+ */
+export async function readChunkBody(body: ReadableStream<Uint8Array> | null): Promise<Buffer> {
+  if (!body) return Buffer.alloc(0);
+
+  const reader = body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_CHUNK_BYTES) {
+      await reader.cancel();
+      throw new UploadError("Chunk too large.", 413);
+    }
+    parts.push(value);
+  }
+  return Buffer.concat(parts, size);
+}
+
+export interface UploadFileDescriptor {
+  name: string;
+  size: number;
+  type: string;
+}
+
+export function isAcceptedContentType(type: string) {
+  return ACCEPTED_CONTENT_TYPES.includes(type.toLowerCase());
+}
+
+/**
+ * Creates a batch with one pending upload per file. Files the server won't
+ * accept are recorded as failed straight away so they show in the summary.
+ */
+export async function createUploadBatch({
+  eventId,
+  uploaderUserId,
+  files,
+}: {
+  eventId: string;
+  uploaderUserId: string;
+  files: UploadFileDescriptor[];
+}) {
+  return prisma.photoUploadBatch.create({
+    data: {
+      eventId,
+      uploaderUserId,
+      totalFiles: files.length,
+      uploads: {
+        create: files.map((file) => {
+          let errorDetails: string | null = null;
+          if (!isAcceptedContentType(file.type)) {
+            errorDetails = "Unsupported file type.";
+          } else if (file.size <= 0) {
+            errorDetails = "File is empty.";
+          } else if (file.size > MAX_UPLOAD_BYTES) {
+            errorDetails = `File is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`;
+          }
+          return {
+            fileName: file.name,
+            contentType: file.type,
+            totalBytes: Math.max(file.size, 0),
+            status: errorDetails ? "FAILED" : "UPLOADING",
+            errorDetails,
+          } as const;
+        }),
+      },
+    },
+    include: {
+      uploads: {
+        orderBy: { createdAt: "asc" },
+        select: { id: true, fileName: true, status: true, errorDetails: true },
+      },
+    },
+  });
+}
+
+/**
+ * Looks up an upload, making sure it belongs to the given event and user.
+ */
+export async function findUpload(uploadId: string, eventId: string, uploaderUserId: string) {
+  return prisma.photoUpload.findFirst({
+    where: { id: uploadId, batch: { eventId, uploaderUserId } },
+  });
+}
+
+// The subset of an upload the client needs to resume or report progress
+export function uploadStatus(upload: PhotoUpload) {
+  return {
+    uploadId: upload.id,
+    receivedBytes: upload.receivedBytes,
+    totalBytes: upload.totalBytes,
+    status: upload.status,
+    error: upload.errorDetails,
+    photoId: upload.photoId,
+  };
+}
+
+/**
+ * Writes one chunk at the given offset. Chunks must arrive in order; a chunk
+ * that was already received (e.g. a retry after a dropped response) is
+ * acknowledged without being written again. Once the final byte arrives the
+ * file is turned into an EventPhoto.
+ */
+export async function appendUploadChunk(upload: PhotoUpload, offset: number, chunk: Buffer): Promise<PhotoUpload> {
+  if (upload.status !== "UPLOADING") {
+    return upload;
+  }
+  if (offset + chunk.length <= upload.receivedBytes) {
+    return upload; // Duplicate of a chunk we already have
+  }
+  if (offset !== upload.receivedBytes) {
+    throw new UploadError(`Expected offset ${upload.receivedBytes}.`, 409);
+  }
+  if (chunk.length === 0 || chunk.length > MAX_CHUNK_BYTES) {
+    throw new UploadError("Invalid chunk size.", 400);
+  }
+  if (offset + chunk.length > upload.totalBytes) {
+    throw new UploadError("Chunk exceeds the declared file size.", 400);
+  }
+
+  // Positional writes make concurrent retries of the same chunk harmless
+  await fs.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+  const handle = await fs.open(partPath(upload.id), offset === 0 ? "w" : "r+");
+  try {
+    await handle.write(chunk, 0, chunk.length, offset);
+  } finally {
+    await handle.close();
+  }
+
+  // Only advance if nobody else did in the meantime
+  const { count } = await prisma.photoUpload.updateMany({
+    where: { id: upload.id, receivedBytes: offset, status: "UPLOADING" },
+    data: { receivedBytes: offset + chunk.length },
+  });
+  const updated = await prisma.photoUpload.findUniqueOrThrow({ where: { id: upload.id } });
+
+  if (count === 1 && updated.receivedBytes === updated.totalBytes) {
+    return finalizeUpload(updated);
+  }
+  return updated;
+}
+
+// Turns a fully received upload into an EventPhoto and cleans up the temp file
+async function finalizeUpload(upload: PhotoUpload): Promise<PhotoUpload> {
+  const batch = await prisma.photoUploadBatch.findUniqueOrThrow({
+    where: { id: upload.batchId },
+    select: { eventId: true, uploaderUserId: true },
+  });
+
+  try {
+    const data = await fs.readFile(partPath(upload.id));
+    const photo = await createEventPhoto({
+      eventId: batch.eventId,
+      uploaderUserId: batch.uploaderUserId,
+      file: new File([data], upload.fileName, { type: upload.contentType }),
+    });
+    return await prisma.photoUpload.update({
+      where: { id: upload.id },
+      data: { status: "COMPLETED", photoId: photo.id },
+    });
+  } catch (error) {
+    console.error(`Failed to process upload ${upload.id} (${upload.fileName}):`, error);
+    return await prisma.photoUpload.update({
+      where: { id: upload.id },
+      data: { status: "FAILED", errorDetails: "The file could not be processed." },
+    });
+  } finally {
+    await fs.rm(partPath(upload.id), { force: true });
+  }
+}
+
+/**
+ * Marks an upload as failed, e.g. when the client gives up after retrying.
+ */
+export async function failUpload(upload: PhotoUpload, reason: string): Promise<PhotoUpload> {
+  if (upload.status !== "UPLOADING") return upload;
+  await fs.rm(partPath(upload.id), { force: true });
+  return prisma.photoUpload.update({
+    where: { id: upload.id },
+    data: { status: "FAILED", errorDetails: reason.slice(0, 500) },
+  });
+}
+
+/**
+ * Closes a batch. Uploads still in flight are recorded as interrupted so the
+ * summary adds up.
+ */
+export async function completeUploadBatch(batchId: string, eventId: string, uploaderUserId: string) {
+  const batch = await prisma.photoUploadBatch.findFirst({
+    where: { id: batchId, eventId, uploaderUserId },
+    include: { uploads: { where: { status: "UPLOADING" }, select: { id: true } } },
+  });
+  if (!batch) return null;
+
+  for (const upload of batch.uploads) {
+    await fs.rm(partPath(upload.id), { force: true });
+  }
+  await prisma.photoUpload.updateMany({
+    where: { batchId, status: "UPLOADING" },
+    data: { status: "FAILED", errorDetails: "Upload was interrupted." },
+  });
+  return prisma.photoUploadBatch.update({
+    where: { id: batchId },
+    data: { completedAt: new Date() },
+  });
+}
+
+/**
+ * Summary of the most recent batch for an event, shown on the event page.
+ */
+export async function getLatestUploadBatchSummary(eventId: string) {
+  const batch = await prisma.photoUploadBatch.findFirst({
+    where: { eventId },
+    orderBy: { createdAt: "desc" },
+    include: {
+      uploader: { select: { name: true, email: true } },
+      uploads: {
+        where: { status: "FAILED" },
+        orderBy: { fileName: "asc" },
+        select: { fileName: true, errorDetails: true },
+      },
+    },
+  });
+  if (!batch) return null;
+
+  const succeeded = await prisma.photoUpload.count({
+    where: { batchId: batch.id, status: "COMPLETED" },
+  });
+
+  return {
+    id: batch.id,
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt,
+    uploadedBy: batch.uploader.name || batch.uploader.email,
+    totalFiles: batch.totalFiles,
+    succeeded,
+    failed: batch.uploads.length,
+    failures: batch.uploads,
+  };
+}
@@ -0,0 +1,66 @@
+import { prisma } from "~/db.server";
+import { getClientIp } from "~/utils/request.server";
+
+/**
+ * The signed-in devices of a user, backed by the UserSession rows behind
+ * the session cookie. Deleting a row signs that device out on its next
+ * request.
+ */
+
+// Last-seen details are written at most this often per session
+const TOUCH_INTERVAL_MS = 60_000;
+
+// Records when, from where and with what the session was last used
+export async function touchUserSession(sessionId: string, request: Request): Promise<void> {
+  if (!sessionId) return;
+  const now = new Date();
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, OR: [{ lastSeenAt: { lt: new Date(now.getTime() - TOUCH_INTERVAL_MS) } }, { userAgent: null }] },
+    data: { lastSeenAt: now, ipAddress: getClientIp(request), userAgent: request.headers.get("User-Agent") ?? "" },
+  });
+}
+
+export async function listUserSessions(userId: string) {
+  return prisma.userSession.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: "desc" },
+    select: { id: true, ipAddress: true, userAgent: true, lastSeenAt: true, createdAt: true },
+  });
+}
+
+// Returns false if the user has no such session
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.userSession.deleteMany({ where: { id: sessionId, userId } });
+  return count > 0;
+}
+
+export async function revokeAllUserSessions(userId: string): Promise<number> {
+  const { count } = await prisma.userSession.deleteMany({ where: { userId } });
+  return count;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// Short description such as "Firefox on Windows", good enough to tell devices apart
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? "Unknown device";
+}
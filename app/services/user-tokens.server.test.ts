@@ -0,0 +1,121 @@
+import type { User, UserToken } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearFailedLogins } from "~/services/auth-throttle.server";
+import { enqueueNotification } from "~/services/mail/outbox.server";
+import { revokeAllUserSessions } from "~/services/user-sessions.server";
+import {
+  isEmailVerified,
+  isPasswordResetTokenValid,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+} from "~/services/user-tokens.server";
+import { resetDb, rows } from "~/test/fake-db";
+
+type FakeUser = Pick<User, "id" | "email" | "name" | "passwordHash" | "emailVerifiedAt">;
+
+vi.mock("~/db.server", () => import("~/test/fake-db"));
+vi.mock("~/services/auth.server", () => ({ hashPassword: async (password: string) => `hashed:${password}` }));
+vi.mock("~/services/auth-throttle.server", () => ({ clearFailedLogins: vi.fn() }));
+vi.mock("~/services/mail/outbox.server", () => ({ enqueueNotification: vi.fn() }));
+vi.mock("~/services/user-sessions.server", () => ({ revokeAllUserSessions: vi.fn() }));
+
+const users = () => rows<FakeUser>("user");
+const tokens = () => rows<UserToken>("userToken");
+
+// Token from the link in the last queued email
+function lastEmailedToken(): string {
+  const { data } = vi.mocked(enqueueNotification).mock.lastCall![0] as { data: Record<string, unknown> };
+  const url = String(data.resetUrl ?? data.verifyUrl);
+  return url.slice(url.lastIndexOf("/") + 1);
+}
+
+describe("user tokens", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.clearAllMocks();
+    resetDb();
+    rows<FakeUser>("user").push({ id: "user-1", email: "ana@example.com", name: "Ana", passwordHash: "hashed:old", emailVerifiedAt: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("password reset", () => {
+    it("emails nothing for an unknown address", async () => {
+      await requestPasswordReset("nobody@example.com");
+      expect(enqueueNotification).not.toHaveBeenCalled();
+    });
+
+    it("emails a link that expires with the token and stores only its hash", async () => {
+      await requestPasswordReset("Ana@Example.com ");
+      const token = lastEmailedToken();
+      const notification = vi.mocked(enqueueNotification).mock.lastCall![0];
+
+      expect(notification).toMatchObject({ template: "password-reset", userId: "user-1", to: { email: "ana@example.com" } });
+      expect(notification.secretExpiresAt).toEqual(tokens()[0].expiresAt);
+      expect(tokens()[0].expiresAt.getTime() - Date.now()).toBe(60 * 60_000);
+      expect(JSON.stringify(tokens())).not.toContain(token);
+      expect(await isPasswordResetTokenValid(token)).toBe(true);
+    });
+
+    it("sets the password once, verifies the email and signs out every device", async () => {
+      await requestPasswordReset("ana@example.com");
+      const token = lastEmailedToken();
+
+      expect(await resetPassword(token, "a new password")).toBe(true);
+      expect(users()[0]).toMatchObject({ passwordHash: "hashed:a new password" });
+      expect(users()[0].emailVerifiedAt).toBeInstanceOf(Date);
+      expect(clearFailedLogins).toHaveBeenCalledWith("ana@example.com");
+      expect(revokeAllUserSessions).toHaveBeenCalledWith("user-1");
+
+      expect(await resetPassword(token, "another password")).toBe(false);
+      expect(users()[0].passwordHash).toBe("hashed:a new password");
+    });
+
+    it("invalidates the previous link when a new one is requested", async () => {
+      await requestPasswordReset("ana@example.com");
+      const first = lastEmailedToken();
+      await requestPasswordReset("ana@example.com");
+
+      expect(await isPasswordResetTokenValid(first)).toBe(false);
+      expect(await isPasswordResetTokenValid(lastEmailedToken())).toBe(true);
+    });
+
+    it("refuses expired and unknown tokens", async () => {
+      await requestPasswordReset("ana@example.com");
+      const token = lastEmailedToken();
+      vi.advanceTimersByTime(61 * 60_000);
+
+      expect(await resetPassword(token, "a new password")).toBe(false);
+      expect(await resetPassword("not-a-token", "a new password")).toBe(false);
+      expect(users()[0].passwordHash).toBe("hashed:old");
+    });
+  });
+
+  describe("email verification", () => {
+    it("verifies the email with the emailed link", async () => {
+      await sendEmailVerification("user-1");
+      const token = lastEmailedToken();
+
+      expect(await isEmailVerified("user-1")).toBe(false);
+      expect(await verifyEmail(token)).toBe(true);
+      expect(await isEmailVerified("user-1")).toBe(true);
+      expect(await verifyEmail(token)).toBe(false);
+    });
+
+    it("doesn't email users who are already verified", async () => {
+      users()[0].emailVerifiedAt = new Date();
+      await sendEmailVerification("user-1");
+      expect(enqueueNotification).not.toHaveBeenCalled();
+    });
+
+    it("doesn't accept a password reset token", async () => {
+      await requestPasswordReset("ana@example.com");
+      expect(await verifyEmail(lastEmailedToken())).toBe(false);
+      expect(await isEmailVerified("user-1")).toBe(false);
+    });
+  });
+});
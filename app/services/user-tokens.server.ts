@@ -0,0 +1,142 @@
+import type { UserTokenPurpose } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { hashPassword } from "~/services/auth.server";
+import { clearFailedLogins } from "~/services/auth-throttle.server";
+import { enqueueNotification } from "~/services/mail/outbox.server";
+import { revokeAllUserSessions } from "~/services/user-sessions.server";
+import { emailVariants } from "~/utils/email";
+import { absoluteUrl } from "~/utils/request.server";
+import { createSecretToken, hashSecretToken } from "~/utils/tokens.server";
+
+/**
+ * Password reset and email verification. Both email the user a link with a
+ * single-use, expiring token; only its hash is stored in UserToken.
+ */
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 48;
+
+const TTL_MS: Record<UserTokenPurpose, number> = {
+  PASSWORD_RESET: PASSWORD_RESET_TTL_MINUTES * 60_000,
+  EMAIL_VERIFICATION: EMAIL_VERIFICATION_TTL_HOURS * 3_600_000,
+};
+
+// Issues a new token; earlier unused tokens for the same purpose stop working
+async function issueUserToken(userId: string, purpose: UserTokenPurpose): Promise<{ token: string; expiresAt: Date }> {
+  const { token, tokenHash } = createSecretToken();
+  const expiresAt = new Date(Date.now() + TTL_MS[purpose]);
+  await prisma.$transaction([
+    prisma.userToken.deleteMany({ where: { userId, purpose, usedAt: null } }),
+    prisma.userToken.create({ data: { userId, purpose, tokenHash, expiresAt } }),
+  ]);
+  return { token, expiresAt };
+}
+
+// Finds a usable token without spending it
+async function findUserToken(token: string, purpose: UserTokenPurpose) {
+  const record = await prisma.userToken.findUnique({
+    where: { tokenHash: hashSecretToken(token) },
+    select: { id: true, userId: true, purpose: true, expiresAt: true, usedAt: true },
+  });
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt < new Date()) return null;
+  return record;
+}
+
+/**
+ * Marks a token used and returns its user id. Null if it is unknown, for
+ * another purpose, expired or already used, including by a concurrent request.
+ */
+async function consumeUserToken(token: string, purpose: UserTokenPurpose): Promise<string | null> {
+  const record = await findUserToken(token, purpose);
+  if (!record) return null;
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0 ? record.userId : null;
+}
+
+/**
+ * Emails a password reset link if an account uses this email. Callers show
+ * the same response either way so the form can't be used to find accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findFirst({
+    where: { email: { in: emailVariants(email) } },
+    select: { id: true, email: true, name: true },
+  });
+  if (!user) return;
+
+  const { token, expiresAt } = await issueUserToken(user.id, "PASSWORD_RESET");
+  await enqueueNotification({
+    template: "password-reset",
+    to: { email: user.email, name: user.name },
+    userId: user.id,
+    data: {
+      userName: user.name,
+      resetUrl: absoluteUrl(`/reset-password/${token}`),
+      expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+    },
+    secretExpiresAt: expiresAt,
+  });
+}
+
+export async function isPasswordResetTokenValid(token: string): Promise<boolean> {
+  return Boolean(await findUserToken(token, "PASSWORD_RESET"));
+}
+
+/**
+ * Sets a new password with a reset token. The link reached the user's
+ * inbox, so it verifies their email too. Returns false if the token can't
+ * be used.
+ */
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  const userId = await consumeUserToken(token, "PASSWORD_RESET");
+  if (!userId) return false;
+
+  const passwordHash = await hashPassword(password);
+  const [user] = await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { passwordHash }, select: { email: true } }),
+    prisma.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } }),
+  ]);
+  // A new password ends any lockout from failed logins and signs out every device
+  await clearFailedLogins(user.email);
+  await revokeAllUserSessions(userId);
+  return true;
+}
+
+export async function sendEmailVerification(userId: string): Promise<void> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { id: true, email: true, name: true, emailVerifiedAt: true } });
+  if (user.emailVerifiedAt) return;
+
+  const { token, expiresAt } = await issueUserToken(user.id, "EMAIL_VERIFICATION");
+  await enqueueNotification({
+    template: "verify-email",
+    to: { email: user.email, name: user.name },
+    userId: user.id,
+    data: {
+      userName: user.name,
+      verifyUrl: absoluteUrl(`/verify-email/${token}`),
+      expiresInHours: EMAIL_VERIFICATION_TTL_HOURS,
+    },
+    secretExpiresAt: expiresAt,
+  });
+}
+
+// Returns false if the token can't be used
+export async function verifyEmail(token: string): Promise<boolean> {
+  const userId = await consumeUserToken(token, "EMAIL_VERIFICATION");
+  if (!userId) return false;
+
+  await prisma.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+  return true;
+}
+
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { emailVerifiedAt: true } });
+  return Boolean(user?.emailVerifiedAt);
+}
+
+// Shown when an unverified account tries something that needs a verified email
+export const EMAIL_NOT_VERIFIED_MESSAGE = "Confirm your email address first. We can send you a new link from the banner at the top of the page.";
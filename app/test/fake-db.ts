@@ -0,0 +1,222 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * In-memory stand-in for the Prisma client, for tests that can't run the
+ * query engine. Tests replace `~/db.server` with this module:
+ *
+ *   vi.mock("~/db.server", () => import("~/test/fake-db"));
+ *
+ * and seed rows into `db`. Every model gets the usual query methods over an
+ * array of plain rows. Filters support equality, null, the comparison
+ * operators, `in`, `notIn`, `not`, `contains`, `startsWith`, OR/AND/NOT, and
+ * relations stored on the row itself: `{ event: { orgId } }` looks at
+ * `row.event`, and `some`/`every`/`none` at an array of related rows.
+ * `select` and `include` are ignored; rows come back whole.
+ */
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+type OrderBy = Record<string, "asc" | "desc"> | Record<string, "asc" | "desc">[];
+
+export const db: Record<string, Row[]> = {};
+
+// Fields that must be unique per model, so creating a duplicate fails with P2002 like the real client
+export const uniqueFields: Record<string, string[]> = {};
+
+let nextId = 1;
+
+export function resetDb() {
+  for (const model of Object.keys(db)) delete db[model];
+  for (const model of Object.keys(uniqueFields)) delete uniqueFields[model];
+  nextId = 1;
+}
+
+// The model's rows, typed as the test sees them
+export function rows<T extends object = Row>(model: string): T[] {
+  return (db[model] ??= []) as T[];
+}
+
+const OPERATORS = new Set(["equals", "in", "notIn", "not", "lt", "lte", "gt", "gte", "contains", "startsWith"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  return comparable(a) === comparable(b);
+}
+
+function matchesOperators(value: unknown, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([operator, operand]) => {
+    if (operand === undefined) return true;
+    const actual = comparable(value);
+    const expected = comparable(operand);
+    switch (operator) {
+      case "equals":
+        return equals(value, operand);
+      case "in":
+        return (operand as unknown[]).some((candidate) => equals(value, candidate));
+      case "notIn":
+        return !(operand as unknown[]).some((candidate) => equals(value, candidate));
+      case "not":
+        return isPlainObject(operand) ? !matchesOperators(value, operand) : !equals(value, operand);
+      case "lt":
+        return value !== null && (actual as number) < (expected as number);
+      case "lte":
+        return value !== null && (actual as number) <= (expected as number);
+      case "gt":
+        return value !== null && (actual as number) > (expected as number);
+      case "gte":
+        return value !== null && (actual as number) >= (expected as number);
+      case "contains":
+        return typeof value === "string" && value.includes(operand as string);
+      case "startsWith":
+        return typeof value === "string" && value.startsWith(operand as string);
+      default:
+        throw new Error(`fake-db: unsupported filter operator "${operator}"`);
+    }
+  });
+}
+
+export function matches(row: Row, where: Where | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) return true;
+    if (key === "OR") return (filter as Where[]).some((branch) => matches(row, branch));
+    if (key === "AND") return [filter].flat().every((branch) => matches(row, branch as Where));
+    if (key === "NOT") return ![filter].flat().some((branch) => matches(row, branch as Where));
+
+    const value = row[key];
+    if (!isPlainObject(filter)) return equals(value ?? null, filter);
+    if (Array.isArray(value)) {
+      const related = value as Row[];
+      if ("some" in filter) return related.some((item) => matches(item, filter.some as Where));
+      if ("every" in filter) return related.every((item) => matches(item, filter.every as Where));
+      if ("none" in filter) return !related.some((item) => matches(item, filter.none as Where));
+    }
+    if (Object.keys(filter).every((operator) => OPERATORS.has(operator))) return matchesOperators(value ?? null, filter);
+    // A filter on a related row
+    return isPlainObject(value) && matches(value, filter);
+  });
+}
+
+function sortRows(found: Row[], orderBy: OrderBy | undefined): Row[] {
+  const orders = orderBy ? [orderBy].flat() : [];
+  return [...found].sort((a, b) => {
+    for (const order of orders) {
+      for (const [field, direction] of Object.entries(order)) {
+        const left = comparable(a[field]) as number | string;
+        const right = comparable(b[field]) as number | string;
+        if (left === right) continue;
+        const ascending = left === null || left === undefined || (right !== null && right !== undefined && left < right) ? -1 : 1;
+        return direction === "desc" ? -ascending : ascending;
+      }
+    }
+    return 0;
+  });
+}
+
+// Applies `data` the way an update does, including `increment` and `decrement`
+function applyData(row: Row, data: Row): Row {
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value) && "increment" in value) row[field] = (row[field] as number) + (value.increment as number);
+    else if (isPlainObject(value) && "decrement" in value) row[field] = (row[field] as number) - (value.decrement as number);
+    else if (isPlainObject(value) && "set" in value) row[field] = value.set;
+    else row[field] = value;
+  }
+  if ("updatedAt" in row) row.updatedAt = data.updatedAt ?? new Date();
+  return row;
+}
+
+function knownRequestError(code: string, message: string) {
+  return new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: "fake" });
+}
+
+function createModel(model: string) {
+  const table = () => rows(model);
+  const findMany = (args: { where?: Where; orderBy?: OrderBy; skip?: number; take?: number } = {}) => {
+    const found = sortRows(table().filter((row) => matches(row, args.where)), args.orderBy);
+    return found.slice(args.skip ?? 0, args.take === undefined ? undefined : (args.skip ?? 0) + args.take).map((row) => ({ ...row }));
+  };
+  const findFirst = (args: { where?: Where; orderBy?: OrderBy } = {}) => findMany({ ...args, take: 1 })[0] ?? null;
+  const orThrow = (row: Row | null) => {
+    if (!row) throw knownRequestError("P2025", `No ${model} found`);
+    return row;
+  };
+  const insert = (data: Row) => {
+    for (const field of uniqueFields[model] ?? []) {
+      if (data[field] !== undefined && data[field] !== null && table().some((row) => equals(row[field], data[field]))) {
+        throw knownRequestError("P2002", `Unique constraint failed on ${model}.${field}`);
+      }
+    }
+    const now = new Date();
+    const row = { id: `${model}-${nextId++}`, createdAt: now, updatedAt: now, ...data };
+    table().push(row);
+    return row;
+  };
+  const updateRows = (where: Where | undefined, data: Row) => {
+    const found = table().filter((row) => matches(row, where));
+    found.forEach((row) => applyData(row, data));
+    return found;
+  };
+  const deleteRows = (where: Where | undefined) => {
+    const found = table().filter((row) => matches(row, where));
+    db[model] = table().filter((row) => !found.includes(row));
+    return found;
+  };
+
+  return {
+    findMany: async (args?: { where?: Where; orderBy?: OrderBy; skip?: number; take?: number }) => findMany(args),
+    findFirst: async (args?: { where?: Where; orderBy?: OrderBy }) => findFirst(args),
+    findUnique: async (args: { where: Where }) => findFirst(args),
+    findFirstOrThrow: async (args?: { where?: Where; orderBy?: OrderBy }) => orThrow(findFirst(args)),
+    findUniqueOrThrow: async (args: { where: Where }) => orThrow(findFirst(args)),
+    count: async (args: { where?: Where } = {}) => table().filter((row) => matches(row, args.where)).length,
+    create: async ({ data }: { data: Row }) => ({ ...insert(data) }),
+    createMany: async ({ data }: { data: Row[] }) => ({ count: data.map(insert).length }),
+    update: async ({ where, data }: { where: Where; data: Row }) => {
+      const row = orThrow(table().find((candidate) => matches(candidate, where)) ?? null);
+      return { ...applyData(row, data) };
+    },
+    updateMany: async ({ where, data }: { where?: Where; data: Row }) => ({ count: updateRows(where, data).length }),
+    upsert: async ({ where, create, update }: { where: Where; create: Row; update: Row }) => {
+      const row = table().find((candidate) => matches(candidate, where));
+      return { ...(row ? applyData(row, update) : insert(create)) };
+    },
+    delete: async ({ where }: { where: Where }) => {
+      const row = orThrow(table().find((candidate) => matches(candidate, where)) ?? null);
+      deleteRows({ id: row.id });
+      return row;
+    },
+    deleteMany: async ({ where }: { where?: Where } = {}) => ({ count: deleteRows(where).length }),
+  };
+}
+
+type FakeModel = ReturnType<typeof createModel>;
+
+const models = new Map<string, FakeModel>();
+
+/**
+ * The fake client. Models are created on first use and stay the same
+ * objects, so tests can `vi.spyOn(prisma.user, "findFirst")` to stand in for
+ * queries the filters above can't express.
+ */
+export const prisma = new Proxy({} as Record<string, FakeModel> & { $transaction: unknown }, {
+  get(_target, property) {
+    if (typeof property !== "string") return undefined;
+    if (property === "$transaction") {
+      // Operations already ran when they were built, so a batch only awaits them
+      return (operations: Promise<unknown>[] | ((client: unknown) => Promise<unknown>)) =>
+        typeof operations === "function" ? operations(prisma) : Promise.all(operations);
+    }
+    if (property.startsWith("$") || property === "then") return undefined;
+    let model = models.get(property);
+    if (!model) models.set(property, (model = createModel(property)));
+    return model;
+  },
+});
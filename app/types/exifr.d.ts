@@ -0,0 +1,4 @@
+// exifr's ESM build. Its main entry is UMD, which has no named exports under Node ESM
+declare module "exifr/dist/full.esm.mjs" {
+  export * from "exifr";
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+/**
+ * Validation shared by the login form strategy, signup and other forms that
+ * set a password. Kept free of server-only imports so forms can reuse the
+ * rules and hints.
+ */
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+export const PASSWORD_HINT = `At least ${PASSWORD_MIN_LENGTH} characters, with a letter and a number.`;
+
+// New accounts store the email normalized (trimmed, lowercase)
+export const EmailSchema = z.string().trim().toLowerCase().email("Enter a valid email address");
+
+export const PasswordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH, `Use at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(200, "Use at most 200 characters")
+  .regex(/[A-Za-z]/, "Include at least one letter")
+  .regex(/[0-9]/, "Include at least one number");
+
+// Login only checks the shape; strength rules apply when a password is set.
+// The email keeps its case since older accounts were stored as typed.
+export const LoginSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const NewPasswordSchema = z
+  .object({
+    password: PasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "The passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+export const ACCOUNT_TYPES = ["INDIVIDUAL", "ORGANIZATION"] as const;
+
+export const SignupSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Keep your name under 100 characters"),
+    email: EmailSchema,
+    password: PasswordSchema,
+    confirmPassword: z.string(),
+    accountType: z.enum(ACCOUNT_TYPES, { errorMap: () => ({ message: "Choose an account type" }) }),
+    organizationName: z.string().trim().max(100, "Keep the organization name under 100 characters").optional(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "The passwords don't match",
+    path: ["confirmPassword"],
+  })
+  .refine((data) => data.accountType !== "ORGANIZATION" || Boolean(data.organizationName), {
+    message: "Name your organization",
+    path: ["organizationName"],
+  });
+
+export type SignupData = z.infer<typeof SignupSchema>;
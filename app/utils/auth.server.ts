@@ -1,34 +1,112 @@
+import type { Session } from "@remix-run/node";
 import { redirect } from "@remix-run/node";
-import { authenticator } from "~/services/auth.server";
-import type { User, Role } from "@prisma/client";
+import { prisma } from "~/db.server";
+import type { SessionUser } from "~/services/auth.server";
+import { authenticator, toSessionUser } from "~/services/auth.server";
+import { destroySession, getSession } from "~/services/session.server";
+import { touchUserSession } from "~/services/user-sessions.server";
+
+export type { SessionUser };
+
+/**
+ * Reads the signed-in user fresh from the database, so role and profile
+ * changes apply on the next request. A session whose account no longer
+ * exists counts as signed out.
+ */
+async function loadSessionUser(request: Request) {
+  const session = await getSession(request.headers.get("Cookie"));
+  const sessionUser = session.get(authenticator.sessionKey) as SessionUser | undefined;
+  if (!sessionUser) return { session, user: null };
+
+  const found = await prisma.user.findUnique({ where: { id: sessionUser.id } });
+  if (!found) return { session, user: null };
+
+  await touchUserSession(session.id, request);
+  return { session, user: toSessionUser(found) };
+}
 
 /**
  * Requires a user to be authenticated. Redirects to /login if not.
- * Optionally requires specific roles.
+ * What they may do in an organization is checked separately with
+ * requireOrgPermission, since roles differ per organization.
  */
 export async function requireUser(
   request: Request,
   options?: {
     redirectTo?: string;
-    requiredRoles?: Role[];
   }
-): Promise<User> {
-  const user = await authenticator.isAuthenticated(request, {
-    failureRedirect: options?.redirectTo ?? "/login",
-  });
-
-  if (options?.requiredRoles && !options.requiredRoles.includes(user.role)) {
-    // Redirect to a suitable page if role doesn't match, e.g., dashboard or unauthorized page
-    // For simplicity, redirecting to login for now.
-    throw redirect(options?.redirectTo ?? "/login");
+): Promise<SessionUser> {
+  const { session, user } = await loadSessionUser(request);
+  if (!user) {
+    // Drops the session of a deleted account along with its cookie
+    const headers = session.has(authenticator.sessionKey) ? { "Set-Cookie": await destroySession(session) } : undefined;
+    throw redirect(options?.redirectTo ?? "/login", { headers });
   }
-
   return user;
 }
 
 /**
  * Gets the current user from the session, if any.
  */
-export async function getUser(request: Request): Promise<User | null> {
-  return authenticator.isAuthenticated(request);
+export async function getUser(request: Request): Promise<SessionUser | null> {
+  return (await loadSessionUser(request)).user;
+}
+
+/**
+ * Swaps the request's session for a new, empty one whenever the signed-in
+ * state changes, so a session id planted before sign-in (session fixation)
+ * never becomes authenticated. The old session is deleted.
+ */
+async function renewSession(request: Request): Promise<Session> {
+  const previous = await getSession(request.headers.get("Cookie"));
+  if (previous.id) await destroySession(previous);
+  return getSession();
+}
+
+/**
+ * Signs in a user whose identity was checked outside the login form, e.g.
+ * while accepting an invitation. Returns the session for the caller to
+ * commit.
+ */
+export async function startUserSession(request: Request, user: SessionUser) {
+  const session = await renewSession(request);
+  session.set(authenticator.sessionKey, user);
+  return session;
+}
+
+const TWO_FACTOR_PENDING_KEY = "twoFactorPending";
+// Time allowed between the password and the second step
+const TWO_FACTOR_PENDING_MS = 10 * 60_000;
+
+type PendingSignIn = { userId: string; redirectTo: string; startedAt: number };
+
+/**
+ * Signs in a user whose password was just checked. Accounts with two-factor
+ * authentication aren't signed in yet: the session remembers the pending
+ * sign-in and the returned redirect goes to the second step. Callers can
+ * change the session further before it is committed.
+ */
+export async function beginPasswordSignIn(request: Request, user: SessionUser, redirectTo = "/org") {
+  const session = await renewSession(request);
+  if (!user.totpEnabledAt) {
+    session.set(authenticator.sessionKey, user);
+    return { session, redirectTo };
+  }
+
+  session.set(TWO_FACTOR_PENDING_KEY, { userId: user.id, redirectTo, startedAt: Date.now() } satisfies PendingSignIn);
+  return { session, redirectTo: "/login/two-factor" };
+}
+
+// The sign-in waiting for its second step, if it hasn't timed out
+export function getPendingSignIn(session: Session): PendingSignIn | null {
+  const pending = session.get(TWO_FACTOR_PENDING_KEY) as PendingSignIn | undefined;
+  if (!pending || Date.now() - pending.startedAt > TWO_FACTOR_PENDING_MS) return null;
+  return pending;
+}
+
+// Finishes the sign-in after the second step. Returns a new session for the caller to commit.
+export async function completePendingSignIn(request: Request, user: SessionUser) {
+  const session = await renewSession(request);
+  session.set(authenticator.sessionKey, user);
+  return session;
 }
@@ -0,0 +1,9 @@
+// Emails are compared case-insensitively, ignoring surrounding whitespace
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Emails are stored as typed, so match both the input and its normalized form
+export function emailVariants(email: string): string[] {
+  return [...new Set([email.trim(), normalizeEmail(email)])];
+}
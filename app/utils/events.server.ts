@@ -0,0 +1,35 @@
+import type { OrganizationRole } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { getActiveMembership, TWO_FACTOR_REQUIRED_MESSAGE } from "~/utils/organizations.server";
+
+export type EventAccess =
+  | { ok: true; event: { id: string; orgId: string }; role: OrganizationRole }
+  | { ok: false; status: 403 | 404; error: string };
+
+/**
+ * Verifies that the event exists and belongs to the user's active organization.
+ * Returns an error description instead of throwing so callers can respond
+ * in whatever shape they use (JSON for actions, thrown Responses for loaders).
+ * On success `role` is the user's role there, for permission checks.
+ */
+export async function checkEventAccess(request: Request, userId: string, eventId: string): Promise<EventAccess> {
+  const membership = await getActiveMembership(request, userId);
+
+  if (!membership) {
+    return { ok: false, status: 403, error: "User not associated with an organization" };
+  }
+  if (membership.twoFactorRequired) {
+    return { ok: false, status: 403, error: TWO_FACTOR_REQUIRED_MESSAGE };
+  }
+
+  const event = await prisma.event.findFirst({
+    where: { id: eventId, orgId: membership.orgId },
+    select: { id: true, orgId: true },
+  });
+
+  if (!event) {
+    return { ok: false, status: 404, error: "Event not found or access denied" };
+  }
+
+  return { ok: true, event, role: membership.role };
+}
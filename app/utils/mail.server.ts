@@ -0,0 +1,51 @@
+import path from "node:path";
+import { createConsoleTransport } from "~/services/mail/console-transport.server";
+import { createFileTransport } from "~/services/mail/file-transport.server";
+import { createSmtpTransport } from "~/services/mail/smtp-transport.server";
+import type { MailTransport } from "~/services/mail/transport.server";
+
+/**
+ * The mail transport is chosen with MAIL_TRANSPORT: "console" (default),
+ * "file" or "smtp".
+ */
+
+function createTransportFromEnv(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT ?? "console";
+
+  switch (transport) {
+    case "console":
+      return createConsoleTransport();
+    case "file":
+      return createFileTransport({ dir: path.resolve(process.env.MAIL_FILE_DIR ?? "./.cache/mail") });
+    case "smtp": {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT=smtp");
+      }
+      return createSmtpTransport({
+        host,
+        port: Number(process.env.SMTP_PORT ?? 587),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      });
+    }
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+let mailTransport: MailTransport | undefined;
+
+// Returns the configured mail transport, creating it on first use
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    mailTransport = createTransportFromEnv();
+  }
+  return mailTransport;
+}
+
+// Sender address for all outgoing mail
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM ?? "Photo Distributor <no-reply@localhost>";
+}
@@ -0,0 +1,131 @@
+import type { OrganizationRole } from "@prisma/client";
+import type { Session } from "@remix-run/node";
+import { prisma } from "~/db.server";
+import { commitSession, getSession } from "~/services/session.server";
+import type { Permission } from "~/utils/permissions";
+import { can } from "~/utils/permissions";
+
+/**
+ * A user can belong to several organizations. The one they are working in
+ * (the active organization) is kept in the session; every organization
+ * route scopes its events, participants and photos to it, and their role
+ * there decides what they may do.
+ */
+
+// twoFactorRequired: the organization requires admins to use two-factor authentication and this admin doesn't yet
+export type Membership = { orgId: string; role: OrganizationRole; twoFactorRequired: boolean };
+
+export const TWO_FACTOR_REQUIRED_MESSAGE =
+  "This organization requires admins to use two-factor authentication. Set it up on your account page to continue.";
+
+const MEMBERSHIP_SELECT = {
+  orgId: true,
+  role: true,
+  org: { select: { requireAdminTwoFactor: true } },
+  user: { select: { totpEnabledAt: true } },
+} as const;
+
+function toMembership(row: {
+  orgId: string;
+  role: OrganizationRole;
+  org: { requireAdminTwoFactor: boolean };
+  user: { totpEnabledAt: Date | null };
+}): Membership {
+  return {
+    orgId: row.orgId,
+    role: row.role,
+    twoFactorRequired: row.role === "ADMIN" && row.org.requireAdminTwoFactor && !row.user.totpEnabledAt,
+  };
+}
+
+const ACTIVE_ORG_SESSION_KEY = "activeOrgId";
+
+export async function listUserOrganizations(userId: string) {
+  const memberships = await prisma.organizationUser.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: { role: true, org: { select: { id: true, name: true } } },
+  });
+  return memberships.map((membership) => ({ ...membership.org, role: membership.role }));
+}
+
+export async function findMembership(userId: string, orgId: string): Promise<Membership | null> {
+  const row = await prisma.organizationUser.findUnique({
+    where: { userId_orgId: { userId, orgId } },
+    select: MEMBERSHIP_SELECT,
+  });
+  return row && toMembership(row);
+}
+
+/**
+ * Returns the user's membership of their active organization: the one
+ * chosen in the session if they still belong to it, otherwise the one they
+ * joined first. Null if they don't belong to any.
+ */
+export async function getActiveMembership(request: Request, userId: string): Promise<Membership | null> {
+  const session = await getSession(request.headers.get("Cookie"));
+  const chosenOrgId = session.get(ACTIVE_ORG_SESSION_KEY);
+  const chosen = typeof chosenOrgId === "string" ? await findMembership(userId, chosenOrgId) : null;
+  if (chosen) return chosen;
+
+  const first = await prisma.organizationUser.findFirst({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: MEMBERSHIP_SELECT,
+  });
+  return first && toMembership(first);
+}
+
+export async function getActiveOrgId(request: Request, userId: string): Promise<string | null> {
+  return (await getActiveMembership(request, userId))?.orgId ?? null;
+}
+
+/**
+ * Like getActiveMembership, but throws a 403 Response for users without an
+ * organization and for admins who still have to set up two-factor
+ * authentication the organization requires.
+ */
+export async function requireActiveMembership(request: Request, userId: string): Promise<Membership> {
+  const membership = await getActiveMembership(request, userId);
+  if (!membership) {
+    throw new Response("User not associated with an organization", { status: 403 });
+  }
+  if (membership.twoFactorRequired) {
+    throw new Response(TWO_FACTOR_REQUIRED_MESSAGE, { status: 403 });
+  }
+  return membership;
+}
+
+export async function requireActiveOrgId(request: Request, userId: string): Promise<string> {
+  return (await requireActiveMembership(request, userId)).orgId;
+}
+
+/**
+ * Requires the user's role in their active organization to grant
+ * `permission`. Throws a 403 Response otherwise, which the /org error
+ * boundary shows as an access denied page.
+ */
+export async function requireOrgPermission(request: Request, userId: string, permission: Permission): Promise<Membership> {
+  const membership = await requireActiveMembership(request, userId);
+  if (!can(membership.role, permission)) {
+    throw new Response("You don't have permission to do this in this organization.", { status: 403 });
+  }
+  return membership;
+}
+
+/**
+ * Makes `orgId` the active organization. Returns the Set-Cookie header to
+ * send, or null if the user isn't a member of that organization.
+ */
+export async function setActiveOrganization(request: Request, userId: string, orgId: string): Promise<string | null> {
+  if (!(await findMembership(userId, orgId))) return null;
+
+  const session = await getSession(request.headers.get("Cookie"));
+  rememberActiveOrganization(session, orgId);
+  return commitSession(session);
+}
+
+// For callers that change the session in other ways too; the caller checks the membership
+export function rememberActiveOrganization(session: Session, orgId: string) {
+  session.set(ACTIVE_ORG_SESSION_KEY, orgId);
+}
@@ -0,0 +1,69 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import invariant from "tiny-invariant";
+import { absoluteUrl } from "~/utils/request.server";
+
+invariant(process.env.SESSION_SECRET, "SESSION_SECRET must be set");
+const SECRET = process.env.SESSION_SECRET;
+
+// How long links sent to participants stay valid
+const GALLERY_LINK_TTL_DAYS = Number(process.env.GALLERY_LINK_TTL_DAYS ?? 30);
+const CONSENT_LINK_TTL_DAYS = Number(process.env.CONSENT_LINK_TTL_DAYS ?? 90);
+
+/**
+ * Participants have no accounts; they reach their gallery and consent pages
+ * through signed links. Tokens look like `<payload>.<signature>`, where the
+ * payload is `<participantId>:<expiry in unix seconds>` in base64url and the
+ * signature is an HMAC of it. Nothing is stored server-side.
+ */
+
+type LinkPurpose = "gallery" | "consent";
+
+function sign(purpose: LinkPurpose, payload: string): string {
+  // Prefixed so a signature issued for one purpose can't be reused for another
+  return createHmac("sha256", SECRET).update(`${purpose}:${payload}`).digest("base64url");
+}
+
+function createToken(purpose: LinkPurpose, participantId: string, expiresAt: Date) {
+  const payload = Buffer.from(`${participantId}:${Math.floor(expiresAt.getTime() / 1000)}`).toString("base64url");
+  return { token: `${payload}.${sign(purpose, payload)}`, expiresAt };
+}
+
+// Returns the participant the token was issued for, or null if it's forged or expired
+function verifyToken(purpose: LinkPurpose, token: string): { participantId: string; expiresAt: Date } | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(purpose, payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const [participantId, expiry] = Buffer.from(payload, "base64url").toString().split(":");
+  const expiresAt = new Date(Number(expiry) * 1000);
+  if (!participantId || Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now()) return null;
+
+  return { participantId, expiresAt };
+}
+
+export function createGalleryToken(participantId: string, expiresAt = new Date(Date.now() + GALLERY_LINK_TTL_DAYS * 86_400_000)) {
+  return createToken("gallery", participantId, expiresAt);
+}
+
+export function verifyGalleryToken(token: string) {
+  return verifyToken("gallery", token);
+}
+
+export function galleryUrl(token: string): string {
+  return absoluteUrl(`/gallery/${token}`);
+}
+
+export function createConsentToken(participantId: string, expiresAt = new Date(Date.now() + CONSENT_LINK_TTL_DAYS * 86_400_000)) {
+  return createToken("consent", participantId, expiresAt);
+}
+
+export function verifyConsentToken(token: string) {
+  return verifyToken("consent", token);
+}
+
+export function consentUrl(token: string): string {
+  return absoluteUrl(`/consent/${token}`);
+}
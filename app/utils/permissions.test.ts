@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { can } from "~/utils/permissions";
+
+describe("can", () => {
+  it("lets admins do everything", () => {
+    expect(can("ADMIN", "event:delete")).toBe(true);
+    expect(can("ADMIN", "member:manage")).toBe(true);
+    expect(can("ADMIN", "billing:manage")).toBe(true);
+  });
+
+  it("lets editors work on events but not manage the organization", () => {
+    expect(can("EDITOR", "event:create")).toBe(true);
+    expect(can("EDITOR", "photo:upload")).toBe(true);
+    expect(can("EDITOR", "participant:manage")).toBe(true);
+    expect(can("EDITOR", "event:delete")).toBe(false);
+    expect(can("EDITOR", "member:manage")).toBe(false);
+    expect(can("EDITOR", "privacy:manage")).toBe(false);
+  });
+
+  it("gives viewers no permissions", () => {
+    expect(can("VIEWER", "event:create")).toBe(false);
+    expect(can("VIEWER", "photo:moderate")).toBe(false);
+    expect(can("VIEWER", "participant:manage")).toBe(false);
+  });
+
+  it("refuses users without a role", () => {
+    expect(can(null, "event:create")).toBe(false);
+    expect(can(undefined, "event:create")).toBe(false);
+  });
+});
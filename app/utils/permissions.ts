@@ -0,0 +1,35 @@
+import type { OrganizationRole } from "@prisma/client";
+
+/**
+ * Which organization roles grant each permission. Routes check permissions,
+ * never roles, so changing who may do what only means editing this table.
+ * Shared with the client to decide which controls to show.
+ */
+const POLICY = {
+  "event:create": ["ADMIN", "EDITOR"],
+  "event:update": ["ADMIN", "EDITOR"],
+  "event:delete": ["ADMIN"],
+  "photo:upload": ["ADMIN", "EDITOR"],
+  "photo:delete": ["ADMIN", "EDITOR"],
+  "photo:moderate": ["ADMIN", "EDITOR"],
+  "participant:manage": ["ADMIN", "EDITOR"],
+  "match:review": ["ADMIN", "EDITOR"],
+  "faceMatching:run": ["ADMIN", "EDITOR"],
+  "faceMatching:manage": ["ADMIN"],
+  "organization:manage": ["ADMIN"],
+  "member:manage": ["ADMIN"],
+  "privacy:manage": ["ADMIN"],
+  "billing:manage": ["ADMIN"],
+} satisfies Record<string, OrganizationRole[]>;
+
+export type Permission = keyof typeof POLICY;
+
+export function can(role: OrganizationRole | null | undefined, permission: Permission): boolean {
+  return role != null && (POLICY[permission] as OrganizationRole[]).includes(role);
+}
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  VIEWER: "Viewer",
+};
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RateLimitPolicy } from "~/utils/rate-limit.server";
+import { checkRateLimit, clearRateLimit, formatRetryAfter, registerAttempt } from "~/utils/rate-limit.server";
+
+const POLICY: RateLimitPolicy = {
+  name: "test",
+  freeAttempts: 2,
+  baseDelayMs: 1000,
+  maxAttempts: 20,
+  lockoutMs: 10_000,
+  windowMs: 60_000,
+};
+
+async function attempt(subject: string, times: number) {
+  let result = { lockedOut: false };
+  for (let i = 0; i < times; i++) result = await registerAttempt(POLICY, subject);
+  return result;
+}
+
+describe("rate limiting", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows the free attempts, then doubles the wait with every attempt", async () => {
+    await attempt("backoff", 2);
+    expect(await checkRateLimit(POLICY, "backoff")).toEqual({ allowed: true });
+
+    await attempt("backoff", 1);
+    expect(await checkRateLimit(POLICY, "backoff")).toEqual({ allowed: false, locked: false, retryAfterSeconds: 1 });
+
+    await attempt("backoff", 1);
+    expect(await checkRateLimit(POLICY, "backoff")).toEqual({ allowed: false, locked: false, retryAfterSeconds: 2 });
+  });
+
+  it("never makes the backoff longer than the lockout", async () => {
+    await attempt("capped", 12);
+    expect(await checkRateLimit(POLICY, "capped")).toEqual({ allowed: false, locked: false, retryAfterSeconds: 10 });
+  });
+
+  it("locks the subject at the maximum and reports only the attempt that started it", async () => {
+    expect(await attempt("locked", 19)).toEqual({ lockedOut: false });
+    expect(await attempt("locked", 1)).toEqual({ lockedOut: true });
+    expect(await attempt("locked", 1)).toEqual({ lockedOut: false });
+    expect(await checkRateLimit(POLICY, "locked")).toMatchObject({ allowed: false, locked: true });
+
+    vi.advanceTimersByTime(10_000);
+    expect(await checkRateLimit(POLICY, "locked")).toEqual({ allowed: true });
+  });
+
+  it("forgets attempts when cleared or once the window has passed", async () => {
+    await attempt("cleared", 3);
+    await clearRateLimit(POLICY, "cleared");
+    expect(await checkRateLimit(POLICY, "cleared")).toEqual({ allowed: true });
+
+    await attempt("window", 2);
+    vi.advanceTimersByTime(60_000);
+    await attempt("window", 1);
+    expect(await checkRateLimit(POLICY, "window")).toEqual({ allowed: true });
+  });
+
+  it("formats the waiting time", () => {
+    expect(formatRetryAfter(1)).toBe("in 1 second");
+    expect(formatRetryAfter(45)).toBe("in 45 seconds");
+    expect(formatRetryAfter(61)).toBe("in 2 minutes");
+  });
+});
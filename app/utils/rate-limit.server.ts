@@ -0,0 +1,108 @@
+import { createDatabaseStore } from "~/services/rate-limit/database-store.server";
+import { createMemoryStore } from "~/services/rate-limit/memory-store.server";
+import type { RateLimitStore } from "~/services/rate-limit/store.server";
+
+/**
+ * Attempt counting with exponential backoff and temporary lockouts. Counters
+ * live in the store chosen with RATE_LIMIT_STORE: "memory" (default in
+ * development) or "database" (default in production).
+ */
+
+function createStoreFromEnv(): RateLimitStore {
+  const store = process.env.RATE_LIMIT_STORE ?? (process.env.NODE_ENV === "production" ? "database" : "memory");
+
+  switch (store) {
+    case "memory":
+      return createMemoryStore();
+    case "database":
+      return createDatabaseStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${store}`);
+  }
+}
+
+let rateLimitStore: RateLimitStore | undefined;
+
+// Returns the configured store, creating it on first use
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createStoreFromEnv();
+  }
+  return rateLimitStore;
+}
+
+export interface RateLimitPolicy {
+  // Prefix of the store keys, e.g. "login-account"
+  name: string;
+  // Attempts allowed before each further one has to wait
+  freeAttempts: number;
+  // Waiting time after the first attempt past freeAttempts; doubles with every further one
+  baseDelayMs: number;
+  // Attempts that lock the key for lockoutMs
+  maxAttempts: number;
+  lockoutMs: number;
+  // Attempts are forgotten once the window they started in is this old
+  windowMs: number;
+}
+
+export type RateLimitStatus =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterSeconds: number };
+
+function storeKey(policy: RateLimitPolicy, subject: string): string {
+  return `${policy.name}:${subject}`;
+}
+
+// Whether another attempt may be made now. Doesn't count one.
+export async function checkRateLimit(policy: RateLimitPolicy, subject: string): Promise<RateLimitStatus> {
+  const entry = await getRateLimitStore().get(storeKey(policy, subject));
+  const now = Date.now();
+  if (!entry?.blockedUntil || entry.blockedUntil.getTime() <= now) return { allowed: true };
+
+  return {
+    allowed: false,
+    locked: entry.attempts >= policy.maxAttempts,
+    retryAfterSeconds: Math.ceil((entry.blockedUntil.getTime() - now) / 1000),
+  };
+}
+
+/**
+ * Counts an attempt and blocks the key for the backoff delay or, at
+ * maxAttempts, for the lockout. Returns whether this attempt started a lockout.
+ */
+export async function registerAttempt(policy: RateLimitPolicy, subject: string): Promise<{ lockedOut: boolean }> {
+  const key = storeKey(policy, subject);
+  const store = getRateLimitStore();
+  const { attempts } = await store.increment(key, policy.windowMs);
+
+  if (attempts >= policy.maxAttempts) {
+    await store.block(key, new Date(Date.now() + policy.lockoutMs));
+    return { lockedOut: attempts === policy.maxAttempts };
+  }
+  if (attempts > policy.freeAttempts) {
+    // The backoff never waits longer than a lockout would
+    const delayMs = Math.min(policy.baseDelayMs * 2 ** (attempts - policy.freeAttempts - 1), policy.lockoutMs);
+    await store.block(key, new Date(Date.now() + delayMs));
+  }
+  return { lockedOut: false };
+}
+
+// Forgets all attempts, e.g. after a successful login or an admin unlock
+export async function clearRateLimit(policy: RateLimitPolicy, subject: string): Promise<void> {
+  await getRateLimitStore().delete(storeKey(policy, subject));
+}
+
+// Thrown where an attempt is refused; callers answer with a 429
+export class RateLimitedError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = "RateLimitedError";
+  }
+}
+
+// "in 30 seconds", "in 15 minutes"
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `in ${seconds} ${seconds === 1 ? "second" : "seconds"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `in ${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+}
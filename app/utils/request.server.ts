@@ -0,0 +1,26 @@
+// Number of reverse proxies in front of the app that append to X-Forwarded-For
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT ?? 0);
+
+/**
+ * The client's IP address as seen by the outermost trusted proxy: the
+ * X-Forwarded-For entry TRUSTED_PROXY_COUNT hops from the right. Entries
+ * further left are written by the client and can't be trusted. Returns null
+ * without a trusted proxy, since the server doesn't expose the socket
+ * address to requests.
+ */
+export function getClientIp(request: Request): string | null {
+  if (TRUSTED_PROXY_COUNT < 1) return null;
+  const hops = (request.headers.get("X-Forwarded-For") ?? "").split(",").map((entry) => entry.trim());
+  return hops.length >= TRUSTED_PROXY_COUNT ? hops[hops.length - TRUSTED_PROXY_COUNT] || null : null;
+}
+
+/**
+ * Absolute URL for a path, based on APP_BASE_URL. These links are emailed,
+ * so they never come from the request's Host header, which the client
+ * controls. Production refuses to build them without APP_BASE_URL.
+ */
+export function absoluteUrl(path: string): string {
+  const base = process.env.APP_BASE_URL ?? (process.env.NODE_ENV === "production" ? null : "http://localhost:5173");
+  if (!base) throw new Error("APP_BASE_URL must be set to build links to the app.");
+  return new URL(path, base).toString();
+}
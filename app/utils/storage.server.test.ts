@@ -0,0 +1,43 @@
+import fs from "node:fs/promises";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { deleteFileFromStorage, readFileFromStorage, uploadBufferToStorage, uploadFileToStorage } from "~/utils/storage.server";
+
+const rootDir = vi.hoisted(() => {
+  // Read when the driver is created on first use
+  const dir = `${process.env.TMPDIR ?? "/tmp"}/storage-helpers-test-${process.pid}`;
+  process.env.STORAGE_DRIVER = "filesystem";
+  process.env.STORAGE_LOCAL_DIR = dir;
+  return dir;
+});
+
+describe("storage helpers", () => {
+  afterAll(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("stores a file under a unique key with its extension and reads it back", async () => {
+    const first = await uploadBufferToStorage(Buffer.from("one"), { pathPrefix: "/events/event-1/photos/", fileName: "IMG 0001.JPG", contentType: "image/jpeg" });
+    const second = await uploadBufferToStorage(Buffer.from("two"), { pathPrefix: "events/event-1/photos", fileName: "IMG 0001.JPG", contentType: "image/jpeg" });
+
+    expect(first).toMatch(/^\/storage\/events\/event-1\/photos\/[0-9a-f-]{36}\.jpg$/);
+    expect(second).not.toBe(first);
+    expect((await readFileFromStorage(first))?.toString()).toBe("one");
+  });
+
+  it("uploads form files", async () => {
+    const url = await uploadFileToStorage(new File(["selfie"], "me.png", { type: "image/png" }), "participants");
+
+    expect(url).toMatch(/^\/storage\/participants\/.+\.png$/);
+    expect((await readFileFromStorage(url))?.toString()).toBe("selfie");
+  });
+
+  it("deletes stored files and skips URLs it doesn't manage", async () => {
+    const url = await uploadBufferToStorage(Buffer.from("gone"), { pathPrefix: "tmp", fileName: "a.webp", contentType: "image/webp" });
+    await deleteFileFromStorage(url);
+    expect(await readFileFromStorage(url)).toBeNull();
+
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    await expect(deleteFileFromStorage("https://example.com/placeholder.jpg")).resolves.toBeUndefined();
+    expect(await readFileFromStorage("https://example.com/placeholder.jpg")).toBeNull();
+  });
+});
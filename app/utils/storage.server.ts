@@ -1,41 +1,92 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import type { StorageDriver } from "~/services/storage/driver.server";
+import { keyFromUrl, urlForKey } from "~/services/storage/driver.server";
+import { createFilesystemDriver } from "~/services/storage/filesystem.server";
+import { createS3Driver } from "~/services/storage/s3.server";
+
 /**
- * Placeholder for file storage logic.
- * Replace with actual implementation using AWS S3, Google Cloud Storage, etc.
+ * File storage helpers used by routes. The actual backend is chosen with
+ * STORAGE_DRIVER ("filesystem" by default, or "s3").
  */
 
-// Simulates uploading a file and returns a placeholder URL
+function createDriverFromEnv(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER ?? "filesystem";
+
+  switch (driver) {
+    case "filesystem":
+      return createFilesystemDriver({
+        rootDir: path.resolve(process.env.STORAGE_LOCAL_DIR ?? "./storage"),
+      });
+    case "s3": {
+      const bucket = process.env.AWS_S3_BUCKET_NAME;
+      if (!bucket) {
+        throw new Error("AWS_S3_BUCKET_NAME must be set when STORAGE_DRIVER=s3");
+      }
+      return createS3Driver({
+        bucket,
+        region: process.env.AWS_REGION ?? "us-east-1",
+        // Set S3_ENDPOINT to point at a MinIO (or other S3-compatible) server
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      });
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+let storageDriver: StorageDriver | undefined;
+
+// Returns the configured storage driver, creating it on first use
+export function getStorageDriver(): StorageDriver {
+  if (!storageDriver) {
+    storageDriver = createDriverFromEnv();
+  }
+  return storageDriver;
+}
+
+// Builds a unique key below pathPrefix, keeping the original extension
+function buildKey(pathPrefix: string, fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  const prefix = pathPrefix.replace(/^\/+|\/+$/g, "");
+  return `${prefix}/${randomUUID()}${extension}`;
+}
+
+// Uploads a file and returns the URL it can be fetched from
 export async function uploadFileToStorage(file: File, pathPrefix: string = 'uploads'): Promise<string> {
-  console.log(`[Storage Stub] Simulating upload for: ${file.name}`);
-  // In a real scenario, you would:
-  // 1. Generate a unique filename (e.g., using UUID)
-  // 2. Get file buffer/stream: const buffer = Buffer.from(await file.arrayBuffer());
-  // 3. Use an SDK (e.g., @aws-sdk/client-s3) to upload the buffer/stream
-  //    await s3Client.send(new PutObjectCommand({ Bucket: 'your-bucket-name', Key: `${pathPrefix}/${uniqueFilename}`, Body: buffer, ContentType: file.type }));
-  // 4. Return the public URL or identifier of the uploaded file
-  //    return `https://your-bucket-name.s3.your-region.amazonaws.com/${pathPrefix}/${uniqueFilename}`;
-
-  // Placeholder URL
-  const uniqueFilename = `${Date.now()}-${file.name.replace(/\s+/g, '_')}`;
-  return `/placeholder-storage/${pathPrefix}/${uniqueFilename}`; // Return a relative path for simulation
+  const key = buildKey(pathPrefix, file.name);
+  const body = Buffer.from(await file.arrayBuffer());
+  await getStorageDriver().putObject(key, body, file.type || "application/octet-stream");
+  return urlForKey(key);
 }
 
-// Simulates deleting a file from storage based on its URL/key
-export async function deleteFileFromStorage(fileUrl: string): Promise<void> {
-    console.log(`[Storage Stub] Simulating deletion for: ${fileUrl}`);
-     // In a real scenario, you would:
-    // 1. Parse the fileUrl to extract the bucket name and key
-    // 2. Use an SDK (e.g., @aws-sdk/client-s3) to delete the object
-    //    const key = fileUrl.substring(fileUrl.indexOf('placeholder-storage/') + 'placeholder-storage/'.length); // Adjust parsing based on actual URL structure
-    //    await s3Client.send(new DeleteObjectCommand({ Bucket: 'your-bucket-name', Key: key }));
-    console.log(`[Storage Stub] File deletion acknowledged for ${fileUrl}`);
+// Uploads in-memory data (e.g. a generated thumbnail) and returns its URL
+export async function uploadBufferToStorage(
+  body: Buffer,
+  options: { pathPrefix: string; fileName: string; contentType: string }
+): Promise<string> {
+  const key = buildKey(options.pathPrefix, options.fileName);
+  await getStorageDriver().putObject(key, body, options.contentType);
+  return urlForKey(key);
 }
 
-// Placeholder for triggering an external process (e.g., AWS Lambda)
-export async function triggerFaceMatchingLambda(eventId: string, taskId: string): Promise<void> {
-    console.log(`[Lambda Stub] Simulating trigger for Face Matching Task ${taskId} for Event ${eventId}`);
-    // In a real scenario, you would:
-    // 1. Use AWS SDK (e.g., @aws-sdk/client-lambda)
-    // 2. Invoke the Lambda function with the eventId and taskId as payload
-    //    await lambdaClient.send(new InvokeCommand({ FunctionName: 'your-face-matching-lambda-name', Payload: JSON.stringify({ eventId, taskId }), InvocationType: 'Event' })); // Use 'Event' for async invocation
-    console.log(`[Lambda Stub] Trigger acknowledged for Task ${taskId}`);
+// Reads a stored file fully into memory. Returns null if it doesn't exist.
+export async function readFileFromStorage(fileUrl: string): Promise<Buffer | null> {
+  const key = keyFromUrl(fileUrl);
+  if (!key) return null;
+  const object = await getStorageDriver().getObject(key);
+  if (!object) return null;
+  return Buffer.from(await new Response(object.body).arrayBuffer());
+}
+
+// Deletes a file previously returned by uploadFileToStorage
+export async function deleteFileFromStorage(fileUrl: string): Promise<void> {
+  const key = keyFromUrl(fileUrl);
+  if (!key) {
+    // Nothing to do for URLs we don't manage (e.g. old placeholder URLs)
+    console.warn(`[Storage] Skipping deletion of unmanaged URL: ${fileUrl}`);
+    return;
+  }
+  await getStorageDriver().deleteObject(key);
 }
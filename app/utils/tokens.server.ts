@@ -0,0 +1,15 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Random tokens for emailed links that are checked against the database.
+ * Only the hash is stored, so a leaked table can't be turned into links.
+ */
+
+export function hashSecretToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function createSecretToken() {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashSecretToken(token) };
+}
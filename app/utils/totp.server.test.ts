@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { base32Decode, base32Encode, currentTotpStep, generateTotpSecret, totpCode, totpUri, verifyTotp } from "~/utils/totp.server";
+
+// The SHA-1 secret from the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  it("encodes like RFC 4648", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  });
+
+  it("decodes what it encodes, ignoring case, spaces, dashes and padding", () => {
+    const bytes = Buffer.from([0, 1, 127, 128, 255, 42, 7]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode("mzxw 6ytb-oi======").toString()).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character: 1");
+  });
+
+  it("generates 160-bit secrets", () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+    expect(generateTotpSecret()).not.toBe(generateTotpSecret());
+  });
+});
+
+describe("totpCode", () => {
+  it("matches the RFC 6238 test vectors (last 6 digits)", () => {
+    expect(totpCode(RFC_SECRET, currentTotpStep(59_000))).toBe("287082");
+    expect(totpCode(RFC_SECRET, currentTotpStep(1_111_111_109_000))).toBe("081804");
+    expect(totpCode(RFC_SECRET, currentTotpStep(1_234_567_890_000))).toBe("005924");
+    expect(totpCode(RFC_SECRET, currentTotpStep(2_000_000_000_000))).toBe("279037");
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1_111_111_109_000;
+  const step = currentTotpStep(now);
+
+  it("accepts the current code and returns its step", () => {
+    expect(verifyTotp(RFC_SECRET, "081804", now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, " 081 804 ", now)).toBe(step);
+  });
+
+  it("allows one step of clock drift either way", () => {
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull();
+  });
+
+  it("rejects anything that isn't six digits", () => {
+    expect(verifyTotp(RFC_SECRET, "", now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "81804", now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "08180a", now)).toBeNull();
+  });
+});
+
+describe("totpUri", () => {
+  it("describes the secret for authenticator apps", () => {
+    const uri = new URL(totpUri({ secret: RFC_SECRET, accountName: "ana@example.com", issuer: "Photo Distributor" }));
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/Photo Distributor:ana@example.com");
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: "Photo Distributor",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Gives existing organization memberships the role their user had before
+ * roles moved from User onto OrganizationUser. Memberships start out as
+ * VIEWER; admins and editors are promoted in every organization they
+ * belong to.
+ *
+ * Usage: npm run organizations:backfill-roles -- [--dry-run]
+ *   --dry-run  only report what would change
+ */
+import type { OrganizationRole, Role } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+const MEMBERSHIP_ROLES: Partial<Record<Role, OrganizationRole>> = {
+  ORGANIZATION_ADMIN: "ADMIN",
+  ORGANIZATION_EDITOR: "EDITOR",
+};
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes("--dry-run");
+
+  let updated = 0;
+  for (const [userRole, role] of Object.entries(MEMBERSHIP_ROLES) as [Role, OrganizationRole][]) {
+    const where = { role: "VIEWER", user: { role: userRole } } as const;
+    const count = dryRun
+      ? await prisma.organizationUser.count({ where })
+      : (await prisma.organizationUser.updateMany({ where, data: { role } })).count;
+
+    console.log(`${dryRun ? "Would set" : "Set"} ${count} membership(s) of ${userRole} users to ${role}.`);
+    updated += count;
+  }
+
+  console.log(`Done. ${updated} membership(s) ${dryRun ? "to update" : "updated"}.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
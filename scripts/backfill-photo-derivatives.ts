@@ -0,0 +1,53 @@
+/**
+ * Generates missing thumbnail/web renditions for existing photos.
+ *
+ * Usage: npm run photos:backfill-derivatives -- [--event <eventId>] [--all]
+ *   --event  only process photos of one event
+ *   --all    regenerate derivatives even for photos that already have them
+ */
+import { prisma } from "~/db.server";
+import { regeneratePhotoDerivatives } from "~/services/photos.server";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const eventIndex = args.indexOf("--event");
+  const eventId = eventIndex !== -1 ? args[eventIndex + 1] : undefined;
+  const regenerateAll = args.includes("--all");
+
+  const photos = await prisma.eventPhoto.findMany({
+    where: {
+      ...(eventId ? { eventId } : {}),
+      ...(regenerateAll ? {} : { OR: [{ thumbnailUrl: null }, { webUrl: null }] }),
+    },
+    orderBy: { uploadTime: "asc" },
+    select: { id: true, eventId: true, imageUrl: true, thumbnailUrl: true, webUrl: true },
+  });
+
+  console.log(`Found ${photos.length} photo(s) to process.`);
+
+  let succeeded = 0;
+  let failed = 0;
+  for (const photo of photos) {
+    try {
+      if (await regeneratePhotoDerivatives(photo)) {
+        succeeded++;
+      } else {
+        failed++;
+        console.warn(`Original not found for photo ${photo.id} (${photo.imageUrl})`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`Failed to process photo ${photo.id}:`, error);
+    }
+  }
+
+  console.log(`Done. ${succeeded} succeeded, ${failed} failed.`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,38 @@
+/**
+ * Standalone face matching worker. Polls for PENDING FaceMatchingTask rows
+ * and processes them one at a time. Run it alongside the web server with
+ * FACE_MATCHING_WORKER=external so the server doesn't process tasks itself.
+ *
+ * Usage: npm run face-matching:worker -- [--once]
+ *   --once  process whatever is pending, then exit
+ */
+import { prisma } from "~/db.server";
+import { drainPendingTasks } from "~/services/face-matching/worker.server";
+
+const POLL_INTERVAL_MS = Number(process.env.FACE_MATCHING_POLL_INTERVAL_MS ?? 5000);
+
+let stopping = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, stopping after the current task...`);
+    stopping = true;
+  });
+}
+
+async function main() {
+  const runOnce = process.argv.includes("--once");
+
+  do {
+    const processed = await drainPendingTasks();
+    if (processed > 0) console.log(`Processed ${processed} task(s).`);
+    if (runOnce || stopping) break;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  } while (!stopping);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,41 @@
+/**
+ * Standalone email sender. Polls the notification outbox and delivers due
+ * messages, including retries. Run it alongside the web server with
+ * MAIL_SENDER=external so the server doesn't send mail itself.
+ *
+ * Usage: npm run mail:sender -- [--once]
+ *   --once  send whatever is due, then exit
+ */
+import { prisma } from "~/db.server";
+import { drainOutbox, releaseStaleNotifications } from "~/services/mail/outbox.server";
+
+const POLL_INTERVAL_MS = Number(process.env.MAIL_POLL_INTERVAL_MS ?? 5000);
+
+let stopping = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, stopping after the current message...`);
+    stopping = true;
+  });
+}
+
+async function main() {
+  const runOnce = process.argv.includes("--once");
+
+  const stale = await releaseStaleNotifications();
+  if (stale > 0) console.warn(`Requeued ${stale} notification(s) left mid-send.`);
+
+  do {
+    const attempted = await drainOutbox();
+    if (attempted > 0) console.log(`Attempted ${attempted} notification(s).`);
+    if (runOnce || stopping) break;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  } while (!stopping);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
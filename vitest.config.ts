@@ -0,0 +1,12 @@
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+// Separate from vite.config.ts so tests run without the Remix plugin
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+    env: { SESSION_SECRET: "test-session-secret", NODE_ENV: "test" },
+  },
+});